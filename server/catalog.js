@@ -0,0 +1,154 @@
+import { createHash } from 'crypto';
+import { toModelValue, resolveModel } from './providers/index.js';
+
+const DEFAULT_TTL_MS = 10 * 60 * 1000;
+const MAX_ENTRIES = 500;
+const ERROR_TTL_MS = 30 * 1000; // retry soon when a provider failed to list
+const PROBE_CONCURRENCY = 4;
+
+// Cache by key hash so raw API keys are not kept as map keys
+function cacheKey(apiKey) {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+// 429 with "limit: 0" means the model is not part of the key's plan at all
+function probeStatus(error) {
+  if (!error) return 'available';
+  if (error.status === 429) return error.message?.includes('limit: 0') ? 'unavailable' : 'exhausted';
+  if (error.status >= 400 && error.status < 500) return 'unavailable';
+  return 'unknown';
+}
+
+function sortModels(models, providerOrder) {
+  return models.sort((a, b) => {
+    if (a.provider !== b.provider) {
+      return providerOrder.indexOf(a.provider) - providerOrder.indexOf(b.provider);
+    }
+    // Sort newer models first
+    if (a.value.includes("2.5") && !b.value.includes("2.5")) return -1;
+    if (!a.value.includes("2.5") && b.value.includes("2.5")) return 1;
+    if (a.value.includes("2.0") && !b.value.includes("2.0")) return -1;
+    if (!a.value.includes("2.0") && b.value.includes("2.0")) return 1;
+    return a.label.localeCompare(b.label);
+  });
+}
+
+// Run fn over items with at most `limit` calls in flight
+async function mapWithConcurrency(items, limit, fn) {
+  const results = new Array(items.length);
+  let next = 0;
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Model catalog of all providers with a per-key TTL cache.
+ * Listing is free; probing runs only when asked for and its results are cached with the list.
+ */
+export function createCatalog(providers, { ttlMs = DEFAULT_TTL_MS } = {}) {
+  const cache = new Map(); // key hash -> { models, errors, probes, expiresAt }
+
+  function prune() {
+    const now = Date.now();
+    for (const [key, entry] of cache) {
+      if (entry.expiresAt <= now) cache.delete(key);
+    }
+    while (cache.size > MAX_ENTRIES) {
+      cache.delete(cache.keys().next().value);
+    }
+  }
+
+  async function load(apiKey) {
+    const providerList = Array.from(providers.values());
+    const errors = {};
+    const lists = await Promise.all(providerList.map(async provider => {
+      try {
+        const models = await provider.listModels(apiKey);
+        return models.map(m => ({
+          ...m,
+          value: toModelValue(provider.id, m.value),
+          provider: provider.id
+        }));
+      } catch (error) {
+        console.error(`Models error (${provider.id}):`, error.message);
+        errors[provider.id] = error.message;
+        return [];
+      }
+    }));
+
+    return {
+      models: sortModels(lists.flat(), providerList.map(p => p.id)),
+      errors,
+      probes: new Map(), // model value -> { status, error, checkedAt }
+      expiresAt: Date.now() + (Object.keys(errors).length ? Math.min(ttlMs, ERROR_TTL_MS) : ttlMs)
+    };
+  }
+
+  async function getEntry(apiKey, refresh) {
+    prune();
+    const key = cacheKey(apiKey);
+    let entry = cache.get(key);
+    if (!entry || refresh) {
+      entry = await load(apiKey);
+      cache.set(key, entry);
+    }
+    return entry;
+  }
+
+  // Without serverKeys, models and errors of providers on the server's own keys are left out
+  function visible(entry, serverKeys) {
+    const allowed = providerId => serverKeys || providers.get(providerId)?.requiresUserKey;
+    return {
+      models: entry.models.filter(model => allowed(model.provider)),
+      errors: Object.fromEntries(Object.entries(entry.errors).filter(([providerId]) => allowed(providerId)))
+    };
+  }
+
+  function withStatus(models, entry) {
+    return models.map(model => {
+      const probe = entry.probes.get(model.value);
+      return probe ? { ...model, status: probe.status, statusError: probe.error } : model;
+    });
+  }
+
+  return {
+    // { models, errors } — errors maps provider id to its listing error
+    async getModels(apiKey, { refresh = false, serverKeys = false } = {}) {
+      const entry = await getEntry(apiKey, refresh);
+      const { models, errors } = visible(entry, serverKeys);
+      return { models: withStatus(models, entry), errors };
+    },
+
+    // Probe the given model values (all models by default) and return the whole catalog
+    async probe(apiKey, values, { serverKeys = false } = {}) {
+      const entry = await getEntry(apiKey, false);
+      const { models, errors } = visible(entry, serverKeys);
+      const targets = values?.length
+        ? models.filter(m => values.includes(m.value))
+        : models;
+
+      await mapWithConcurrency(targets, PROBE_CONCURRENCY, async model => {
+        const resolved = resolveModel(providers, model.value, model.provider);
+        let error = null;
+        try {
+          await resolved.provider.probeModel(apiKey, resolved.model);
+        } catch (e) {
+          error = e;
+        }
+        entry.probes.set(model.value, {
+          status: probeStatus(error),
+          error: error?.message,
+          checkedAt: Date.now()
+        });
+      });
+
+      return { models: withStatus(models, entry), errors };
+    }
+  };
+}
@@ -0,0 +1,112 @@
+import { randomUUID } from 'crypto';
+
+const KEEP_FINISHED_MS = 5 * 60 * 1000;
+
+function writeEvent(res, event) {
+  res.write(`id: ${event.id}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  // Flush the response to ensure data is sent immediately
+  if (res.flush) res.flush();
+}
+
+function writeDone(res) {
+  res.write('data: [DONE]\n\n');
+  res.end();
+}
+
+/**
+ * Chat generations that run independently of the request that started them.
+ * Events ({ text }, { finish }, { usage }, { error }) are numbered and buffered, so a client
+ * that lost its connection can reconnect with Last-Event-ID and get the rest.
+ * Finished generations are kept for a short window, then dropped.
+ */
+export function createGenerationStore({ keepFinishedMs = KEEP_FINISHED_MS } = {}) {
+  const generations = new Map(); // id -> { id, owner, events, done, cancelled, failure, listeners, ready }
+
+  async function run(generation, stream, onEnd, markReady) {
+    let output = '';
+    let usage = null;
+    const push = data => {
+      const event = { id: generation.events.length + 1, data };
+      generation.events.push(event);
+      generation.listeners.forEach(listener => listener(event));
+      markReady();
+    };
+
+    try {
+      for await (const { text, finish, usage: reported } of stream) {
+        // Breaking out closes the provider stream
+        if (generation.cancelled) break;
+        if (text) output += text;
+        if (reported) usage = reported;
+        push(finish ? { finish } : reported ? { usage: reported } : { text });
+      }
+    } catch (error) {
+      console.error('Stream error:', error);
+      // Nothing sent yet: the request still answers with the error's HTTP status
+      if (generation.events.length === 0) {
+        generation.failure = error;
+      } else {
+        push({ error: error.message });
+      }
+    } finally {
+      generation.done = true;
+      generation.listeners.forEach(listener => listener(null));
+      generation.listeners.clear();
+      markReady();
+      setTimeout(() => generations.delete(generation.id), keepFinishedMs).unref();
+      onEnd?.({ output, usage });
+    }
+  }
+
+  // Null for unknown and expired ids and for other owners
+  function get(id, owner) {
+    const generation = generations.get(id);
+    return generation && generation.owner === owner ? generation : null;
+  }
+
+  return {
+    get,
+
+    // Starts consuming the provider stream. generation.ready resolves with the first event
+    // or the end, whichever comes first; generation.failure is then set if it failed before any output
+    start(owner, stream, { onEnd } = {}) {
+      let markReady;
+      const generation = {
+        id: randomUUID(),
+        owner,
+        events: [],
+        done: false,
+        cancelled: false,
+        failure: null,
+        listeners: new Set(),
+        ready: new Promise(resolve => { markReady = resolve; })
+      };
+      generations.set(generation.id, generation);
+      run(generation, stream, onEnd, markReady);
+      return generation;
+    },
+
+    discard(id) {
+      generations.delete(id);
+    },
+
+    // Stops generating at the next chunk; what was produced stays available
+    cancel(id, owner) {
+      const generation = get(id, owner);
+      if (generation) generation.cancelled = true;
+      return !!generation;
+    },
+
+    // Writes the events after lastEventId as SSE, then follows the generation until it ends
+    attach(generation, res, lastEventId = 0) {
+      generation.events.filter(event => event.id > lastEventId).forEach(event => writeEvent(res, event));
+      if (generation.done) {
+        writeDone(res);
+        return;
+      }
+      const listener = event => (event ? writeEvent(res, event) : writeDone(res));
+      generation.listeners.add(listener);
+      res.on('close', () => generation.listeners.delete(listener));
+    }
+  };
+}
@@ -0,0 +1,272 @@
+import express from 'express';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { isAbsolute, join } from 'path';
+import { createUserStore, publicUser, verifyPassword } from './users.js';
+import { createUsageTracker, createRateLimiter, createFailureThrottle, estimateRequestTokens, estimateTokens } from './usage.js';
+import { keyFingerprint } from '../providers/util.js';
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const DEFAULT_RATE_LIMIT = 10; // requests per minute
+const DEFAULT_DAILY_TOKENS = 200000;
+const DEFAULT_AUX_RATE_LIMIT = 60; // token counts, model probes and uploads per minute
+const DEFAULT_DAILY_UPLOAD_MB = 200;
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const LOGIN_FAILURES_PER_USER = 5;
+const LOGIN_FAILURES_PER_IP = 20;
+
+export function isHostedMode() {
+  return ['1', 'true', 'yes'].includes((process.env.HOSTED_MODE || '').toLowerCase());
+}
+
+export function dataDir(baseDir) {
+  const dir = process.env.HOSTED_DATA_DIR || './data';
+  return isAbsolute(dir) ? dir : join(baseDir, dir);
+}
+
+function numberFromEnv(name, fallback) {
+  const value = process.env[name];
+  return value === undefined || value === '' ? fallback : Number(value);
+}
+
+// "<payload base64url>.<hmac base64url>"
+function signSession(payload, secret) {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = createHmac('sha256', secret).update(body).digest('base64url');
+  return `${body}.${signature}`;
+}
+
+function verifySession(token, secret) {
+  const [body, signature] = (token || '').split('.');
+  if (!body || !signature) return null;
+  const expected = createHmac('sha256', secret).update(body).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    return payload.exp > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+function bearer(req) {
+  const auth = req.headers.authorization;
+  return auth?.startsWith('Bearer ') ? auth.slice(7) : null;
+}
+
+// Express 4 doesn't catch rejected promises: a thrown error would take the whole process down
+function route(handler) {
+  return (req, res, next) => Promise.resolve().then(() => handler(req, res, next)).catch(next);
+}
+
+// /v1 clients expect OpenAI-style error bodies
+function sendError(req, res, status, message, type) {
+  if (req.originalUrl.startsWith('/v1/')) {
+    return res.status(status).json({ error: { message, type, code: status } });
+  }
+  res.status(status).json({ error: message });
+}
+
+/**
+ * Hosted mode for public deployments: users log in instead of bringing a key,
+ * requests use the server's Google key(s) and are rate limited and budgeted per user.
+ * Returns null unless HOSTED_MODE is set.
+ */
+export function createHostedMode(baseDir) {
+  if (!isHostedMode()) return null;
+
+  const serverKeys = (process.env.GOOGLE_API_KEY || '').split(',').map(k => k.trim()).filter(Boolean);
+  if (serverKeys.length === 0) {
+    throw new Error('HOSTED_MODE needs GOOGLE_API_KEY (one key or a comma-separated list)');
+  }
+
+  const dir = dataDir(baseDir);
+  const users = createUserStore(join(dir, 'users.json'));
+  const usage = createUsageTracker(join(dir, 'usage.json'));
+  const rateLimiter = createRateLimiter();
+  const userLogins = createFailureThrottle({ maxFailures: LOGIN_FAILURES_PER_USER, windowMs: LOGIN_WINDOW_MS });
+  const ipLogins = createFailureThrottle({ maxFailures: LOGIN_FAILURES_PER_IP, windowMs: LOGIN_WINDOW_MS });
+  const secret = process.env.SESSION_SECRET || users.sessionSecret;
+  const defaults = {
+    perMinute: numberFromEnv('RATE_LIMIT_PER_MINUTE', DEFAULT_RATE_LIMIT),
+    dailyTokens: numberFromEnv('DAILY_TOKEN_BUDGET', DEFAULT_DAILY_TOKENS),
+    auxPerMinute: numberFromEnv('AUX_RATE_LIMIT_PER_MINUTE', DEFAULT_AUX_RATE_LIMIT),
+    dailyUploadMb: numberFromEnv('DAILY_UPLOAD_MB', DEFAULT_DAILY_UPLOAD_MB)
+  };
+  let nextKey = 0;
+
+  function limitsFor(user) {
+    return { ...defaults, ...user.limits };
+  }
+
+  function issueSession(user) {
+    return signSession({ sub: user.id, exp: Date.now() + SESSION_TTL_MS }, secret);
+  }
+
+  function userSummary(user) {
+    return { user: publicUser(user), limits: limitsFor(user), usage: usage.getDay(user.id) };
+  }
+
+  // Sets req.user from the session token
+  function authenticate(req, res, next) {
+    const session = verifySession(bearer(req), secret);
+    const user = session && users.findById(session.sub);
+    if (!user || user.disabled) {
+      return sendError(req, res, 401, 'Login required', 'authentication_error');
+    }
+    req.user = user;
+    next();
+  }
+
+  function requireAdmin(req, res, next) {
+    if (req.user?.role !== 'admin') {
+      return sendError(req, res, 403, 'Admin only', 'permission_error');
+    }
+    next();
+  }
+
+  // Guards generating endpoints and gives them req.recordUsage(model, request, outputText, usage?)
+  function limit(req, res, next) {
+    const limits = limitsFor(req.user);
+    const retryAfter = rateLimiter.hit(req.user.id, limits.perMinute);
+    if (retryAfter) {
+      res.setHeader('Retry-After', String(retryAfter));
+      return sendError(req, res, 429, `Rate limit of ${limits.perMinute} requests per minute exceeded, retry in ${retryAfter}s`, 'rate_limit_error');
+    }
+
+    const spent = usage.getDay(req.user.id);
+    if (limits.dailyTokens && spent.inputTokens + spent.outputTokens >= limits.dailyTokens) {
+      return sendError(req, res, 429, `Daily token budget exhausted (${limits.dailyTokens} tokens PerDay), resets at 00:00 UTC`, 'rate_limit_error');
+    }
+
+    // Provider-reported usage when available, an estimate otherwise; thinking is billed as output
+    req.recordUsage = (model, request, outputText, reported) => {
+      usage.record(req.user.id, model, reported
+        ? {
+            inputTokens: reported.promptTokens,
+            outputTokens: reported.candidatesTokens + reported.thinkingTokens
+          }
+        : {
+            inputTokens: estimateRequestTokens(request),
+            outputTokens: estimateTokens(outputText)
+          });
+    };
+    next();
+  }
+
+  // Guards endpoints that don't generate but still reach the provider (token counts, model probes),
+  // on a separate per-minute window so they don't eat into the chat rate
+  function limitAuxiliary(req, res, next) {
+    const limits = limitsFor(req.user);
+    const retryAfter = rateLimiter.hit(`${req.user.id}:aux`, limits.auxPerMinute);
+    if (retryAfter) {
+      res.setHeader('Retry-After', String(retryAfter));
+      return sendError(req, res, 429, `Rate limit of ${limits.auxPerMinute} requests per minute exceeded, retry in ${retryAfter}s`, 'rate_limit_error');
+    }
+    next();
+  }
+
+  // File uploads also have a daily byte budget; gives them req.recordUpload(bytes)
+  function limitUpload(req, res, next) {
+    limitAuxiliary(req, res, () => {
+      const { dailyUploadMb } = limitsFor(req.user);
+      const declared = Number(req.headers['content-length']) || 0;
+      if (dailyUploadMb && usage.getDay(req.user.id).uploadBytes + declared > dailyUploadMb * 1024 * 1024) {
+        return sendError(req, res, 429, `Daily upload budget exhausted (${dailyUploadMb} MB per day), resets at 00:00 UTC`, 'rate_limit_error');
+      }
+      req.recordUpload = bytes => usage.recordUpload(req.user.id, bytes);
+      next();
+    });
+  }
+
+  const router = express.Router();
+
+  // Failed logins are throttled per username and per client address
+  router.post('/auth/login', route(async (req, res) => {
+    const { username, password } = req.body || {};
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ error: 'username and password must be strings' });
+    }
+    const userKey = username.toLowerCase();
+    const retryAfter = Math.max(userLogins.retryAfter(userKey), ipLogins.retryAfter(req.ip));
+    if (retryAfter) {
+      res.setHeader('Retry-After', String(retryAfter));
+      return res.status(429).json({ error: `Too many failed logins, retry in ${retryAfter}s` });
+    }
+
+    const user = users.findByName(username);
+    if (!user || user.disabled || !(await verifyPassword(password, user.passwordHash))) {
+      userLogins.fail(userKey);
+      ipLogins.fail(req.ip);
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+    userLogins.clear(userKey);
+    res.json({ token: issueSession(user), ...userSummary(user) });
+  }));
+
+  router.post('/auth/register', route(async (req, res) => {
+    const { invite, username, password } = req.body || {};
+    try {
+      const user = await users.redeemInvite(invite, { username, password });
+      res.json({ token: issueSession(user), ...userSummary(user) });
+    } catch (error) {
+      res.status(400).json({ error: error.message });
+    }
+  }));
+
+  router.get('/auth/me', authenticate, (req, res) => {
+    res.json(userSummary(req.user));
+  });
+
+  router.get('/admin/users', authenticate, requireAdmin, route((req, res) => {
+    res.json({
+      users: users.listUsers().map(user => ({
+        ...user,
+        limits: limitsFor(user),
+        today: usage.getDay(user.id)
+      }))
+    });
+  }));
+
+  // ?days=7&user=<id>
+  router.get('/admin/usage', authenticate, requireAdmin, route((req, res) => {
+    const days = Math.min(Number(req.query.days) || 7, 90);
+    const names = new Map(users.listUsers().map(u => [u.id, u.username]));
+    res.json({
+      usage: usage.report({ days, userId: req.query.user }).map(row => ({
+        ...row,
+        username: names.get(row.userId) ?? null
+      }))
+    });
+  }));
+
+  router.post('/admin/invites', authenticate, requireAdmin, route((req, res) => {
+    try {
+      const { role, expiresInDays } = req.body || {};
+      const invite = users.createInvite({ role, expiresInDays, createdBy: req.user.id });
+      res.json({ invite });
+    } catch (error) {
+      res.status(400).json({ error: error.message });
+    }
+  }));
+
+  return {
+    router,
+    authenticate,
+    limit,
+    limitAuxiliary,
+    limitUpload,
+    keyCount: serverKeys.length,
+    userCount: () => users.listUsers().length,
+
+    // Spread requests over the configured keys. Uploaded files are only readable with the key
+    // that uploaded them, so requests referencing them (keyId) stay on that key
+    getServerKey(keyId) {
+      const owner = keyId && serverKeys.find(key => keyFingerprint(key) === keyId);
+      if (owner) return owner;
+      const key = serverKeys[nextKey % serverKeys.length];
+      nextKey++;
+      return key;
+    }
+  };
+}
@@ -0,0 +1,159 @@
+import { readJson, writeJson } from './users.js';
+import { isTextAttachment } from '../providers/util.js';
+
+const RETENTION_DAYS = 90;
+const SAVE_DELAY_MS = 2000;
+const IMAGE_TOKENS = 258; // Gemini bills an image up to 384px as 258 tokens, used for any binary file
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// Rough count (~4 characters per token) for providers that don't report usage
+export function estimateTokens(text) {
+  return Math.ceil((text || '').length / 4);
+}
+
+function estimateAttachmentTokens(attachments = []) {
+  let tokens = 0;
+  for (const attachment of attachments) {
+    // Base64 is 4/3 of the bytes; text files count like text
+    tokens += isTextAttachment(attachment) ? Math.ceil((attachment.data.length * 3) / 16) : IMAGE_TOKENS;
+  }
+  return tokens;
+}
+
+// Estimated input tokens of a chat request ({ messages, newMessage, systemPrompt })
+export function estimateRequestTokens({ messages = [], newMessage, systemPrompt } = {}) {
+  let tokens = estimateTokens(systemPrompt);
+  for (const msg of messages) {
+    tokens += estimateTokens(msg.content) + estimateAttachmentTokens(msg.attachments);
+  }
+  tokens += estimateTokens(newMessage?.text) + estimateAttachmentTokens(newMessage?.attachments);
+  return tokens;
+}
+
+function emptyTotals() {
+  return { requests: 0, inputTokens: 0, outputTokens: 0 };
+}
+
+function addTotals(target, { inputTokens, outputTokens }) {
+  target.requests += 1;
+  target.inputTokens += inputTokens;
+  target.outputTokens += outputTokens;
+}
+
+/**
+ * Per-user daily usage: { "2026-01-31": { <userId>: { requests, inputTokens, outputTokens, uploadBytes, models } } }.
+ * Kept in memory and flushed to disk shortly after changes.
+ */
+export function createUsageTracker(path) {
+  const days = readJson(path, {});
+  let saveTimer = null;
+
+  function scheduleSave() {
+    if (saveTimer) return;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      for (const day of Object.keys(days)) {
+        if (day < cutoff) delete days[day];
+      }
+      try {
+        writeJson(path, days);
+      } catch (error) {
+        console.error('Usage save error:', error.message);
+      }
+    }, SAVE_DELAY_MS);
+    saveTimer.unref?.();
+  }
+
+  return {
+    record(userId, model, { inputTokens = 0, outputTokens = 0 }) {
+      const day = (days[today()] ??= {});
+      const entry = (day[userId] ??= { ...emptyTotals(), models: {} });
+      addTotals(entry, { inputTokens, outputTokens });
+      addTotals((entry.models[model] ??= emptyTotals()), { inputTokens, outputTokens });
+      scheduleSave();
+    },
+
+    // Files uploaded to the provider's storage don't count as requests
+    recordUpload(userId, bytes) {
+      const day = (days[today()] ??= {});
+      const entry = (day[userId] ??= { ...emptyTotals(), models: {} });
+      entry.uploadBytes = (entry.uploadBytes || 0) + bytes;
+      scheduleSave();
+    },
+
+    getDay(userId, day = today()) {
+      const entry = days[day]?.[userId];
+      return entry
+        ? { requests: entry.requests, inputTokens: entry.inputTokens, outputTokens: entry.outputTokens, uploadBytes: entry.uploadBytes || 0 }
+        : { ...emptyTotals(), uploadBytes: 0 };
+    },
+
+    // Newest first: [{ date, userId, requests, inputTokens, outputTokens, models }]
+    report({ days: count = 7, userId } = {}) {
+      const rows = [];
+      for (const day of Object.keys(days).sort().reverse().slice(0, count)) {
+        for (const [id, entry] of Object.entries(days[day])) {
+          if (!userId || id === userId) rows.push({ date: day, userId: id, ...entry });
+        }
+      }
+      return rows;
+    }
+  };
+}
+
+// Sliding one-minute window per user; returns seconds to wait, 0 when the request may pass
+export function createRateLimiter() {
+  const hits = new Map(); // userId -> timestamps within the last minute
+
+  return {
+    hit(userId, perMinute) {
+      if (!perMinute) return 0;
+      const now = Date.now();
+      const recent = (hits.get(userId) || []).filter(t => t > now - 60 * 1000);
+      if (recent.length >= perMinute) {
+        hits.set(userId, recent);
+        return Math.max(1, Math.ceil((recent[0] + 60 * 1000 - now) / 1000));
+      }
+      recent.push(now);
+      hits.set(userId, recent);
+      return 0;
+    }
+  };
+}
+
+// Failed attempts per key (username, IP) within a window; returns seconds to wait once maxFailures is reached
+export function createFailureThrottle({ maxFailures, windowMs }) {
+  const failures = new Map(); // key -> timestamps within the window
+
+  function recent(key, now) {
+    return (failures.get(key) || []).filter(t => t > now - windowMs);
+  }
+
+  return {
+    retryAfter(key) {
+      const now = Date.now();
+      const times = recent(key, now);
+      if (times.length < maxFailures) return 0;
+      return Math.max(1, Math.ceil((times[0] + windowMs - now) / 1000));
+    },
+
+    fail(key) {
+      const now = Date.now();
+      // Guessing with random usernames shouldn't grow the map without bound
+      if (failures.size > 10000) {
+        for (const [other, times] of failures) {
+          if (times[times.length - 1] <= now - windowMs) failures.delete(other);
+        }
+      }
+      failures.set(key, [...recent(key, now), now]);
+    },
+
+    clear(key) {
+      failures.delete(key);
+    }
+  };
+}
@@ -0,0 +1,161 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt);
+
+const KEY_LENGTH = 64;
+const USERNAME_PATTERN = /^[\w.-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const ROLES = ['user', 'admin'];
+
+export function readJson(path, fallback) {
+  if (!existsSync(path)) return fallback;
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+// Write through a temp file so a crash never leaves a half-written store
+export function writeJson(path, data) {
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, JSON.stringify(data, null, 2));
+  renameSync(tmp, path);
+}
+
+// "scrypt$<salt hex>$<hash hex>"
+export async function hashPassword(password) {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password, stored) {
+  const [scheme, saltHex, hashHex] = (stored || '').split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+// What clients and the admin API get to see
+export function publicUser(user) {
+  return {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    limits: user.limits || {},
+    disabled: !!user.disabled,
+    createdAt: user.createdAt
+  };
+}
+
+function validateCredentials(username, password) {
+  if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+    throw new Error('Username must be 3-32 characters: letters, digits, ".", "_" or "-"');
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+/**
+ * Accounts and invite tokens in one JSON file:
+ * { users: [{ id, username, passwordHash, role, limits?, disabled? }], invites: [...], sessionSecret }
+ * Accounts can be added with scripts/users.js or by redeeming an invite.
+ */
+export function createUserStore(path) {
+  const data = readJson(path, {});
+  data.users ??= [];
+  data.invites ??= [];
+  if (!data.sessionSecret) {
+    data.sessionSecret = randomBytes(32).toString('hex');
+    writeJson(path, data);
+  }
+
+  const save = () => writeJson(path, data);
+  // Usernames being registered: hashing the password takes a while, and a second request may come in meanwhile
+  const pendingNames = new Set();
+
+  return {
+    get sessionSecret() {
+      return data.sessionSecret;
+    },
+
+    findById(id) {
+      return data.users.find(u => u.id === id) || null;
+    },
+
+    findByName(username) {
+      const name = (username || '').toLowerCase();
+      return data.users.find(u => u.username.toLowerCase() === name) || null;
+    },
+
+    listUsers() {
+      return data.users.map(publicUser);
+    },
+
+    async addUser({ username, password, role = 'user', limits }) {
+      validateCredentials(username, password);
+      if (!ROLES.includes(role)) throw new Error(`Unknown role "${role}"`);
+      const name = username.toLowerCase();
+      if (this.findByName(username) || pendingNames.has(name)) throw new Error(`User "${username}" already exists`);
+
+      pendingNames.add(name);
+      let user;
+      try {
+        user = {
+          id: randomUUID(),
+          username,
+          passwordHash: await hashPassword(password),
+          role,
+          ...(limits ? { limits } : {}),
+          createdAt: new Date().toISOString()
+        };
+        data.users.push(user);
+        save();
+      } catch (error) {
+        data.users = data.users.filter(u => u !== user);
+        throw error;
+      } finally {
+        pendingNames.delete(name);
+      }
+      return user;
+    },
+
+    createInvite({ role = 'user', expiresInDays = 7, createdBy = null } = {}) {
+      if (!ROLES.includes(role)) throw new Error(`Unknown role "${role}"`);
+      const invite = {
+        token: randomBytes(18).toString('base64url'),
+        role,
+        createdBy,
+        createdAt: new Date().toISOString(),
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+        usedBy: null
+      };
+      data.invites.push(invite);
+      save();
+      return invite;
+    },
+
+    // Create an account from a one-time invite token
+    async redeemInvite(token, { username, password }) {
+      const invite = data.invites.find(i => i.token === token);
+      if (!invite || invite.usedBy || new Date(invite.expiresAt) <= new Date()) {
+        throw new Error('Invite is invalid or expired');
+      }
+      // Taken before the first await, so concurrent registrations can't spend it twice
+      invite.usedBy = 'pending';
+      let user;
+      try {
+        user = await this.addUser({ username, password, role: invite.role });
+      } catch (error) {
+        invite.usedBy = null;
+        throw error;
+      }
+      invite.usedBy = user.id;
+      save();
+      return user;
+    }
+  };
+}
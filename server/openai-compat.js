@@ -0,0 +1,236 @@
+import express from 'express';
+import { randomUUID } from 'crypto';
+import { resolveModel } from './providers/index.js';
+import { normalizeGenerationConfig, normalizeAttachments } from './providers/util.js';
+
+// OpenAI-style error body
+function sendError(res, status, message, type = 'invalid_request_error') {
+  res.status(status).json({ error: { message, type, code: status } });
+}
+
+const FILTER_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'PROMPT_BLOCKED'];
+
+// Provider finish reason -> OpenAI finish_reason
+function toFinishReason(reason) {
+  if (reason === 'MAX_TOKENS') return 'length';
+  return FILTER_REASONS.includes(reason) ? 'content_filter' : 'stop';
+}
+
+// Provider usage -> OpenAI usage object
+function toOpenAIUsage({ promptTokens, candidatesTokens, thinkingTokens }) {
+  const completionTokens = candidatesTokens + thinkingTokens;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+    completion_tokens_details: { reasoning_tokens: thinkingTokens }
+  };
+}
+
+// OpenAI message content (string or parts) -> { text, attachments }
+function parseContent(content) {
+  if (typeof content === 'string') return { text: content, attachments: [] };
+  if (!Array.isArray(content)) throw new Error('Message content must be a string or an array of parts');
+
+  const texts = [];
+  const attachments = [];
+  for (const part of content) {
+    if (part.type === 'text') {
+      texts.push(part.text ?? '');
+    } else if (part.type === 'image_url') {
+      const url = typeof part.image_url === 'string' ? part.image_url : part.image_url?.url;
+      if (!url?.startsWith('data:')) {
+        throw new Error('Only base64 data URLs are supported for image_url');
+      }
+      attachments.push({ name: `image-${attachments.length + 1}`, data: url });
+    } else if (part.type === 'file') {
+      if (!part.file?.file_data?.startsWith('data:')) {
+        throw new Error('Only base64 data URLs are supported for file parts');
+      }
+      attachments.push({ name: part.file.filename, data: part.file.file_data });
+    } else if (part.type === 'input_audio') {
+      const { data, format } = part.input_audio || {};
+      attachments.push({
+        name: `audio-${attachments.length + 1}.${format}`,
+        data: `data:${format === 'mp3' ? 'audio/mpeg' : `audio/${format}`};base64,${data}`
+      });
+    } else {
+      throw new Error(`Unsupported content part type: ${part.type}`);
+    }
+  }
+  return { text: texts.join('\n'), attachments: normalizeAttachments(attachments, 'content') };
+}
+
+// OpenAI messages -> Pollux chat request ({ messages, newMessage, systemPrompt })
+export function toPolluxRequest(openaiMessages) {
+  if (!Array.isArray(openaiMessages) || openaiMessages.length === 0) {
+    throw new Error('messages must be a non-empty array');
+  }
+
+  const systemParts = [];
+  const history = [];
+  for (const msg of openaiMessages) {
+    const { text, attachments } = parseContent(msg.content ?? '');
+    if (msg.role === 'system' || msg.role === 'developer') {
+      systemParts.push(text);
+    } else if (msg.role === 'user' || msg.role === 'assistant') {
+      history.push({
+        role: msg.role === 'user' ? 'user' : 'model',
+        content: text,
+        ...(attachments.length ? { attachments } : {})
+      });
+    } else {
+      throw new Error(`Unsupported message role: ${msg.role}`);
+    }
+  }
+
+  const last = history.pop();
+  if (!last || last.role !== 'user') {
+    throw new Error('The last message must have role "user"');
+  }
+
+  return {
+    messages: history,
+    newMessage: { text: last.content, attachments: last.attachments || [] },
+    systemPrompt: systemParts.filter(Boolean).join('\n\n') || undefined
+  };
+}
+
+// OpenAI sampling parameters -> Pollux generationConfig (validated)
+export function toGenerationConfig(body) {
+  const stop = typeof body.stop === 'string' ? [body.stop] : body.stop;
+  return normalizeGenerationConfig({
+    temperature: body.temperature ?? undefined,
+    topP: body.top_p ?? undefined,
+    maxOutputTokens: body.max_completion_tokens ?? body.max_tokens ?? undefined,
+    stopSequences: stop ?? undefined
+  });
+}
+
+export function createOpenAIRouter({ providers, catalog, getApiKey, mayUseServerKeys }) {
+  const router = express.Router();
+
+  router.use((req, res, next) => {
+    req.apiKey = getApiKey(req);
+    if (!req.apiKey) {
+      return sendError(res, 401, 'No API key provided', 'authentication_error');
+    }
+    next();
+  });
+
+  router.get('/models', async (req, res) => {
+    try {
+      const { models } = await catalog.getModels(req.apiKey, { serverKeys: mayUseServerKeys(req) });
+      res.json({
+        object: 'list',
+        data: models.map(m => ({
+          id: m.value,
+          object: 'model',
+          created: 0,
+          owned_by: m.provider
+        }))
+      });
+    } catch (error) {
+      sendError(res, 500, error.message, 'api_error');
+    }
+  });
+
+  router.post('/chat/completions', async (req, res) => {
+    const { model: modelName, messages, stream } = req.body || {};
+    if (!modelName) {
+      return sendError(res, 400, 'model is required');
+    }
+
+    let request;
+    try {
+      request = { ...toPolluxRequest(messages), generationConfig: toGenerationConfig(req.body) };
+    } catch (error) {
+      return sendError(res, 400, error.message);
+    }
+
+    const resolved = resolveModel(providers, modelName);
+    if (!resolved) {
+      return sendError(res, 404, `Unknown model: ${modelName}`);
+    }
+    if (!resolved.provider.requiresUserKey && !mayUseServerKeys(req)) {
+      return sendError(res, 403, `${resolved.provider.name} runs on the server's keys: send the server access token (X-Access-Token)`, 'permission_error');
+    }
+
+    const id = `chatcmpl-${randomUUID()}`;
+    const created = Math.floor(Date.now() / 1000);
+    const chunks = resolved.provider.streamChat(req.apiKey, { model: resolved.model, ...request });
+
+    if (!stream) {
+      try {
+        let content = '';
+        let finishReason = 'stop';
+        let usage = null;
+        for await (const { text, finish, usage: reported } of chunks) {
+          if (text) content += text;
+          if (finish) finishReason = toFinishReason(finish.reason);
+          if (reported) usage = reported;
+        }
+        req.recordUsage?.(modelName, request, content, usage);
+        return res.json({
+          id,
+          object: 'chat.completion',
+          created,
+          model: modelName,
+          choices: [{
+            index: 0,
+            message: { role: 'assistant', content },
+            finish_reason: finishReason
+          }],
+          ...(usage ? { usage: toOpenAIUsage(usage) } : {})
+        });
+      } catch (error) {
+        console.error('Completion error:', error.message);
+        return sendError(res, error.status || 500, error.message, 'api_error');
+      }
+    }
+
+    const writeChunk = (delta, finishReason = null, extra = {}) => {
+      res.write(`data: ${JSON.stringify({
+        id,
+        object: 'chat.completion.chunk',
+        created,
+        model: modelName,
+        choices: delta ? [{ index: 0, delta, finish_reason: finishReason }] : [],
+        ...extra
+      })}\n\n`);
+      if (res.flush) res.flush();
+    };
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+
+    let output = '';
+    let usage = null;
+    try {
+      writeChunk({ role: 'assistant', content: '' });
+      let finishReason = 'stop';
+      for await (const { text, finish, usage: reported } of chunks) {
+        if (text) {
+          output += text;
+          writeChunk({ content: text });
+        }
+        if (finish) finishReason = toFinishReason(finish.reason);
+        if (reported) usage = reported;
+      }
+      writeChunk({}, finishReason);
+      // As in OpenAI, usage comes in a last chunk without choices when requested
+      if (usage && req.body.stream_options?.include_usage) {
+        writeChunk(null, null, { usage: toOpenAIUsage(usage) });
+      }
+    } catch (error) {
+      console.error('Completion stream error:', error.message);
+      res.write(`data: ${JSON.stringify({ error: { message: error.message, type: 'api_error', code: error.status || 500 } })}\n\n`);
+    }
+    if (output || usage) req.recordUsage?.(modelName, request, output, usage);
+    res.write('data: [DONE]\n\n');
+    res.end();
+  });
+
+  return router;
+}
@@ -0,0 +1,226 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { responseError, stripDataUrl, isTextAttachment, withTextAttachments, fileUnavailable } from './util.js';
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com';
+const UPLOAD_POLL_MS = 1000;
+const UPLOAD_POLL_ATTEMPTS = 30;
+
+let proxyAgent = null; // one pool of proxy connections for every call
+
+// Google API calls go through HTTPS_PROXY when configured
+async function googleFetch(url, options = {}) {
+  const { ProxyAgent, fetch: undiciFetch } = await import('undici');
+  const fetchOptions = { ...options };
+  if (process.env.HTTPS_PROXY) {
+    proxyAgent ??= new ProxyAgent(process.env.HTTPS_PROXY);
+    fetchOptions.dispatcher = proxyAgent;
+  }
+  return undiciFetch(url, fetchOptions);
+}
+
+// Client history message -> Gemini content
+export function toGeminiContent(msg) {
+  return {
+    role: msg.role === 'user' ? 'user' : 'model',
+    parts: toGeminiParts({ text: msg.content, attachments: msg.attachments })
+  };
+}
+
+// Client new message -> Gemini parts: images, PDFs and audio inline or as uploaded files, text files as text
+export function toGeminiParts({ text, attachments = [] }) {
+  const parts = attachments
+    .filter(attachment => !isTextAttachment(attachment))
+    .map(attachment => attachment.fileUri
+      ? { fileData: { mimeType: attachment.mimeType, fileUri: attachment.fileUri } }
+      : { inlineData: { mimeType: attachment.mimeType, data: stripDataUrl(attachment.data) } });
+  // Gemini rejects empty text parts; blocked replies are stored empty
+  parts.push({ text: withTextAttachments(text, attachments) || ' ' });
+  return parts;
+}
+
+// Gemini usageMetadata -> { promptTokens, candidatesTokens, thinkingTokens }
+function toUsage(metadata) {
+  return {
+    promptTokens: metadata.promptTokenCount || 0,
+    candidatesTokens: metadata.candidatesTokenCount || 0,
+    thinkingTokens: metadata.thoughtsTokenCount || 0
+  };
+}
+
+// Uploaded files expire after 48 hours and can be deleted; Gemini then refuses the whole request
+function asFileError(error, { messages = [], newMessage }) {
+  const hasFiles = [...messages, newMessage].some(msg => msg?.attachments?.some(attachment => attachment.fileUri));
+  if (hasFiles && [400, 403, 404].includes(error.status) && /file/i.test(error.message)) {
+    return fileUnavailable(error.message);
+  }
+  return error;
+}
+
+export function createGeminiProvider() {
+  // GEMINI_BASE_URL points every call, uploads included, at another host (a local mock for testing)
+  const baseUrl = process.env.GEMINI_BASE_URL || DEFAULT_BASE_URL;
+  const apiUrl = `${baseUrl}/v1beta`;
+  const uploadUrl = `${baseUrl}/upload/v1beta`;
+  const requestOptions = { baseUrl };
+
+  return {
+    id: 'gemini',
+    name: 'Google Gemini',
+    type: 'gemini',
+    requiresUserKey: true,
+
+    // Free call, no quota used
+    async listModels(apiKey) {
+      const response = await googleFetch(`${apiUrl}/models?key=${apiKey}`);
+      if (!response.ok) throw await responseError(response);
+
+      const data = await response.json();
+      if (!data.models) return [];
+
+      const textModels = data.models
+        .filter(m => m.supportedGenerationMethods?.includes("generateContent"))
+        .filter(m => !m.name.includes("embedding"))
+        .filter(m => !m.name.includes("aqa"))
+        .filter(m => !m.name.includes("imagen"))
+        .filter(m => !m.name.includes("robotics"))
+        .filter(m => !m.name.includes("tts"))
+        .map(m => ({
+          value: m.name.replace("models/", ""),
+          label: m.displayName || m.name.replace("models/", ""),
+          description: m.description?.substring(0, 100) || "",
+          inputTokens: m.inputTokenLimit,
+          outputTokens: m.outputTokenLimit,
+          capabilities: {
+            vision: m.name.includes("gemini") || m.name.includes("gemma-3"),
+            thinking: m.thinking === true
+          }
+        }));
+
+      // Удаляем дубликаты моделей на основе их 'value'
+      const uniqueModelsMap = new Map();
+      textModels.forEach(model => uniqueModelsMap.set(model.value, model));
+      return Array.from(uniqueModelsMap.values());
+    },
+
+    // countTokens reaches the model without generating anything, so no generation quota is spent.
+    // Resolves when the model is accessible; throws with .status otherwise
+    async probeModel(apiKey, model) {
+      const response = await googleFetch(
+        `${apiUrl}/models/${model}:countTokens?key=${apiKey}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ contents: [{ parts: [{ text: "hi" }] }] })
+        }
+      );
+      if (!response.ok) throw await responseError(response);
+    },
+
+    // Yields { text } chunks, then one { finish } with the stop reason and safety ratings
+    async *streamChat(apiKey, { model: modelName, messages, newMessage, systemPrompt, generationConfig, safetySettings }) {
+      const genAI = new GoogleGenerativeAI(apiKey);
+      const model = genAI.getGenerativeModel({
+        model: modelName,
+        ...(systemPrompt ? { systemInstruction: systemPrompt } : {}),
+        ...(generationConfig ? { generationConfig } : {}),
+        ...(safetySettings ? { safetySettings } : {})
+      }, requestOptions);
+
+      const chat = model.startChat({ history: (messages || []).map(toGeminiContent) });
+      let result;
+      try {
+        result = await chat.sendMessageStream(toGeminiParts(newMessage));
+      } catch (error) {
+        throw asFileError(error, { messages, newMessage });
+      }
+
+      let finish = null;
+      let usageMetadata = null;
+      for await (const chunk of result.stream) {
+        // Every chunk carries running totals; the last one is final
+        if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata;
+
+        // Blocked prompts come back without candidates
+        if (chunk.promptFeedback?.blockReason) {
+          yield {
+            finish: {
+              reason: 'PROMPT_BLOCKED',
+              blockReason: chunk.promptFeedback.blockReason,
+              safetyRatings: chunk.promptFeedback.safetyRatings
+            }
+          };
+          if (usageMetadata) yield { usage: toUsage(usageMetadata) };
+          return;
+        }
+
+        // Read parts directly: chunk.text() throws once a candidate is blocked
+        const candidate = chunk.candidates?.[0];
+        const text = (candidate?.content?.parts || []).map(part => part.text || '').join('');
+        if (text) yield { text };
+        if (candidate?.finishReason) {
+          finish = { reason: candidate.finishReason, safetyRatings: candidate.safetyRatings };
+        }
+      }
+      if (finish) yield { finish };
+      if (usageMetadata) yield { usage: toUsage(usageMetadata) };
+    },
+
+    async countTokens(apiKey, { model: modelName, messages, newMessage, systemPrompt }) {
+      const genAI = new GoogleGenerativeAI(apiKey);
+      const model = genAI.getGenerativeModel({
+        model: modelName,
+        ...(systemPrompt ? { systemInstruction: systemPrompt } : {})
+      }, requestOptions);
+
+      const contents = [
+        ...(messages || []).map(toGeminiContent),
+        { role: 'user', parts: toGeminiParts(newMessage) }
+      ];
+      try {
+        const { totalTokens } = await model.countTokens({ contents });
+        return totalTokens;
+      } catch (error) {
+        throw asFileError(error, { messages, newMessage });
+      }
+    },
+
+    // Resumable upload in two requests: metadata first, then the bytes.
+    // Returns { uri, expiresAt } once the file can be referenced
+    async uploadFile(apiKey, { name, mimeType, data }) {
+      const start = await googleFetch(`${uploadUrl}/files?key=${apiKey}`, {
+        method: 'POST',
+        headers: {
+          'X-Goog-Upload-Protocol': 'resumable',
+          'X-Goog-Upload-Command': 'start',
+          'X-Goog-Upload-Header-Content-Length': String(data.length),
+          'X-Goog-Upload-Header-Content-Type': mimeType,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ file: { display_name: name } })
+      });
+      if (!start.ok) throw await responseError(start);
+      const sessionUrl = start.headers.get('x-goog-upload-url');
+      if (!sessionUrl) throw new Error('Gemini File API returned no upload URL');
+
+      const upload = await googleFetch(sessionUrl, {
+        method: 'POST',
+        headers: { 'X-Goog-Upload-Command': 'upload, finalize', 'X-Goog-Upload-Offset': '0' },
+        body: data
+      });
+      if (!upload.ok) throw await responseError(upload);
+      let { file } = await upload.json();
+
+      // Audio and video are processed before they can be used
+      for (let attempt = 0; file.state === 'PROCESSING' && attempt < UPLOAD_POLL_ATTEMPTS; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, UPLOAD_POLL_MS));
+        const response = await googleFetch(`${apiUrl}/${file.name}?key=${apiKey}`);
+        if (!response.ok) throw await responseError(response);
+        file = await response.json();
+      }
+      if (file.state && file.state !== 'ACTIVE') {
+        throw new Error(`Gemini could not process ${name} (${file.state})`);
+      }
+      return { uri: file.uri, expiresAt: file.expirationTime };
+    }
+  };
+}
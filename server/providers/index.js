@@ -0,0 +1,91 @@
+import { readFileSync } from 'fs';
+import { isAbsolute, join } from 'path';
+import { createGeminiProvider } from './gemini.js';
+import { createOpenAIProvider } from './openai.js';
+import { createOllamaProvider } from './ollama.js';
+
+export const DEFAULT_PROVIDER = 'gemini';
+
+const factories = {
+  openai: createOpenAIProvider,
+  ollama: createOllamaProvider
+};
+
+// Extra providers come from PROVIDERS_CONFIG (JSON array) and/or the shorthand env variables
+function loadProviderConfigs(baseDir) {
+  const configs = [];
+
+  if (process.env.PROVIDERS_CONFIG) {
+    const path = isAbsolute(process.env.PROVIDERS_CONFIG)
+      ? process.env.PROVIDERS_CONFIG
+      : join(baseDir, process.env.PROVIDERS_CONFIG);
+    const parsed = JSON.parse(readFileSync(path, 'utf8'));
+    if (!Array.isArray(parsed)) {
+      throw new Error(`${path}: expected an array of providers`);
+    }
+    configs.push(...parsed);
+  }
+
+  if (process.env.OPENAI_BASE_URL) {
+    configs.push({
+      id: 'openai',
+      type: 'openai',
+      name: process.env.OPENAI_PROVIDER_NAME || 'OpenAI',
+      baseUrl: process.env.OPENAI_BASE_URL,
+      apiKey: process.env.OPENAI_API_KEY
+    });
+  }
+
+  if (process.env.OLLAMA_BASE_URL) {
+    configs.push({
+      id: 'ollama',
+      type: 'ollama',
+      name: 'Ollama',
+      baseUrl: process.env.OLLAMA_BASE_URL
+    });
+  }
+
+  return configs;
+}
+
+export function createProviders(baseDir) {
+  const providers = new Map();
+  const gemini = createGeminiProvider();
+  providers.set(gemini.id, gemini);
+
+  for (const config of loadProviderConfigs(baseDir)) {
+    const factory = factories[config.type];
+    if (!factory) {
+      throw new Error(`Unknown provider type "${config.type}" (supported: ${Object.keys(factories).join(', ')})`);
+    }
+    if (!config.id || !config.baseUrl) {
+      throw new Error(`Provider "${config.id || config.type}" needs id and baseUrl`);
+    }
+    if (providers.has(config.id)) {
+      throw new Error(`Duplicate provider id "${config.id}"`);
+    }
+    providers.set(config.id, factory({ name: config.id, ...config }));
+  }
+
+  return providers;
+}
+
+// Gemini model values stay bare ("gemini-2.5-flash"); other providers are namespaced ("ollama:llama3:8b")
+export function toModelValue(providerId, model) {
+  return providerId === DEFAULT_PROVIDER ? model : `${providerId}:${model}`;
+}
+
+// Returns { provider, model } or null for an unknown provider
+export function resolveModel(providers, value, providerId) {
+  if (!providerId) {
+    const prefix = value.split(':')[0];
+    providerId = providers.has(prefix) && prefix !== DEFAULT_PROVIDER ? prefix : DEFAULT_PROVIDER;
+  }
+  const provider = providers.get(providerId);
+  if (!provider) return null;
+  const model = providerId !== DEFAULT_PROVIDER && value.startsWith(`${providerId}:`)
+    ? value.slice(providerId.length + 1)
+    : value;
+  return { provider, model };
+}
+
@@ -0,0 +1,111 @@
+import { readLines, responseError, stripDataUrl, isTextAttachment, withTextAttachments, unsupportedAttachment } from './util.js';
+
+// Local Ollama server (https://github.com/ollama/ollama/blob/main/docs/api.md)
+export function createOllamaProvider({ id, name, baseUrl }) {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  // Ollama only takes images besides text
+  function toOllamaMessage(msg) {
+    const attachments = msg.attachments || [];
+    const images = attachments.filter(attachment => !isTextAttachment(attachment)).map(attachment => {
+      if (!attachment.mimeType.startsWith('image/')) throw unsupportedAttachment(name, attachment);
+      return stripDataUrl(attachment.data);
+    });
+    return {
+      role: msg.role === 'user' ? 'user' : 'assistant',
+      content: withTextAttachments(msg.content, attachments),
+      ...(images.length ? { images } : {})
+    };
+  }
+
+  // /api/show only reads model metadata, nothing is loaded into memory
+  async function showModel(model) {
+    const response = await fetch(`${root}/api/show`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model })
+    });
+    if (!response.ok) throw await responseError(response);
+    return response.json();
+  }
+
+  return {
+    id,
+    name,
+    type: 'ollama',
+    requiresUserKey: false,
+
+    async listModels() {
+      const response = await fetch(`${root}/api/tags`);
+      if (!response.ok) throw await responseError(response);
+      const data = await response.json();
+      return Promise.all((data.models || []).map(async m => {
+        const info = await showModel(m.name).catch(() => ({}));
+        const contextKey = Object.keys(info.model_info || {}).find(key => key.endsWith('.context_length'));
+        return {
+          value: m.name,
+          label: m.name,
+          description: [name, m.details?.parameter_size, m.details?.quantization_level].filter(Boolean).join(' · '),
+          inputTokens: contextKey ? info.model_info[contextKey] : undefined,
+          capabilities: {
+            vision: info.capabilities?.includes('vision') ?? false,
+            thinking: info.capabilities?.includes('thinking') ?? false
+          }
+        };
+      }));
+    },
+
+    async probeModel(_apiKey, model) {
+      await showModel(model);
+    },
+
+    async *streamChat(_apiKey, { model, messages, newMessage, systemPrompt, generationConfig = {} }) {
+      const response = await fetch(`${root}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          stream: true,
+          options: {
+            temperature: generationConfig.temperature,
+            top_p: generationConfig.topP,
+            top_k: generationConfig.topK,
+            num_predict: generationConfig.maxOutputTokens,
+            stop: generationConfig.stopSequences
+          },
+          messages: [
+            ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+            ...(messages || []).map(toOllamaMessage),
+            toOllamaMessage({ role: 'user', content: newMessage.text, attachments: newMessage.attachments })
+          ]
+        })
+      });
+      if (!response.ok) throw await responseError(response);
+
+      for await (const line of readLines(response.body)) {
+        try {
+          const data = JSON.parse(line);
+          if (data.error) throw new Error(data.error);
+          if (data.message?.content) yield { text: data.message.content };
+          if (data.done) {
+            yield { finish: { reason: data.done_reason === 'length' ? 'MAX_TOKENS' : 'STOP' } };
+            yield {
+              usage: {
+                promptTokens: data.prompt_eval_count || 0,
+                candidatesTokens: data.eval_count || 0,
+                thinkingTokens: 0
+              }
+            };
+            break;
+          }
+        } catch (chunkError) {
+          if (chunkError instanceof SyntaxError) {
+            console.error('Chunk processing error:', chunkError);
+            continue;
+          }
+          throw chunkError;
+        }
+      }
+    }
+  };
+}
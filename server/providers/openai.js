@@ -0,0 +1,135 @@
+import { readLines, responseError, stripDataUrl, isTextAttachment, withTextAttachments, unsupportedAttachment } from './util.js';
+
+// OpenAI finish_reason -> Gemini-style reason used across providers
+const FINISH_REASONS = {
+  stop: 'STOP',
+  length: 'MAX_TOKENS',
+  content_filter: 'SAFETY'
+};
+
+// input_audio only takes these two
+const AUDIO_FORMATS = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3'
+};
+
+// Any server speaking the OpenAI chat completions API (OpenAI, OpenRouter, vLLM, LM Studio...)
+export function createOpenAIProvider({ id, name, baseUrl, apiKey }) {
+  const root = baseUrl.replace(/\/+$/, '');
+  const headers = {
+    'Content-Type': 'application/json',
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+  };
+
+  function toOpenAIPart(attachment) {
+    if (attachment.mimeType.startsWith('image/')) {
+      return { type: 'image_url', image_url: { url: attachment.data } };
+    }
+    if (attachment.mimeType === 'application/pdf') {
+      return { type: 'file', file: { filename: attachment.name, file_data: attachment.data } };
+    }
+    const format = AUDIO_FORMATS[attachment.mimeType];
+    if (format) {
+      return { type: 'input_audio', input_audio: { data: stripDataUrl(attachment.data), format } };
+    }
+    throw unsupportedAttachment(name, attachment);
+  }
+
+  function toOpenAIMessage(msg) {
+    const role = msg.role === 'user' ? 'user' : 'assistant';
+    const attachments = msg.attachments || [];
+    const text = withTextAttachments(msg.content, attachments) || ' ';
+    const files = attachments.filter(attachment => !isTextAttachment(attachment));
+    if (!files.length) return { role, content: text };
+    return {
+      role,
+      content: [
+        ...files.map(toOpenAIPart),
+        { type: 'text', text }
+      ]
+    };
+  }
+
+  return {
+    id,
+    name,
+    type: 'openai',
+    requiresUserKey: false,
+
+    async listModels() {
+      const response = await fetch(`${root}/models`, { headers });
+      if (!response.ok) throw await responseError(response);
+      const data = await response.json();
+      return (data.data || []).map(m => ({
+        value: m.id,
+        label: m.id,
+        description: name
+      }));
+    },
+
+    // Listing is free; a model is usable if the server reports it
+    async probeModel(_apiKey, model) {
+      const models = await this.listModels();
+      if (!models.some(m => m.value === model)) {
+        const error = new Error(`Model ${model} not found`);
+        error.status = 404;
+        throw error;
+      }
+    },
+
+    // topK has no counterpart in the chat completions API
+    async *streamChat(_apiKey, { model, messages, newMessage, systemPrompt, generationConfig = {} }) {
+      const response = await fetch(`${root}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          stream: true,
+          stream_options: { include_usage: true },
+          temperature: generationConfig.temperature,
+          top_p: generationConfig.topP,
+          max_tokens: generationConfig.maxOutputTokens,
+          stop: generationConfig.stopSequences,
+          messages: [
+            ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+            ...(messages || []).map(toOpenAIMessage),
+            toOpenAIMessage({ role: 'user', content: newMessage.text, attachments: newMessage.attachments })
+          ]
+        })
+      });
+      if (!response.ok) throw await responseError(response);
+
+      let finishReason = null;
+      let usage = null;
+      for await (const line of readLines(response.body)) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') break;
+        try {
+          const chunk = JSON.parse(data);
+          const choice = chunk.choices?.[0];
+          if (choice?.delta?.content) yield { text: choice.delta.content };
+          if (choice?.finish_reason) finishReason = choice.finish_reason;
+          // Sent in a final chunk without choices
+          if (chunk.usage) usage = chunk.usage;
+        } catch (chunkError) {
+          console.error('Chunk processing error:', chunkError);
+        }
+      }
+      if (finishReason) yield { finish: { reason: FINISH_REASONS[finishReason] || finishReason.toUpperCase() } };
+      if (usage) {
+        // completion_tokens includes reasoning; Gemini-style counts keep them apart
+        const thinkingTokens = usage.completion_tokens_details?.reasoning_tokens || 0;
+        yield {
+          usage: {
+            promptTokens: usage.prompt_tokens || 0,
+            candidatesTokens: Math.max(0, (usage.completion_tokens || 0) - thinkingTokens),
+            thinkingTokens
+          }
+        };
+      }
+    }
+  };
+}
@@ -0,0 +1,221 @@
+import { createHash } from 'crypto';
+
+// Read a fetch Response body line by line (SSE and NDJSON streams)
+export async function* readLines(body) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.trim()) yield line.trim();
+    }
+  }
+  if (buffer.trim()) yield buffer.trim();
+}
+
+// Turn a non-2xx response into an Error carrying the HTTP status
+export async function responseError(response) {
+  const text = await response.text().catch(() => '');
+  let message = text;
+  try {
+    const data = JSON.parse(text);
+    message = data?.error?.message || data?.error || text;
+  } catch {
+    // Not JSON
+  }
+  const error = new Error(message || `HTTP ${response.status}`);
+  error.status = response.status;
+  return error;
+}
+
+// "data:image/png;base64,AAAA" -> "AAAA"
+export function stripDataUrl(dataUrl) {
+  return dataUrl.replace(/^data:[^;,]+;base64,/, '');
+}
+
+const TEXT_TYPES = ['application/json', 'application/xml', 'application/javascript', 'application/x-yaml', 'application/x-sh'];
+
+// Attachments: [{ name, mimeType, data }] with data as a base64 data URL.
+// Text and code files go to every provider as plain text
+export function isTextAttachment(attachment) {
+  return attachment.mimeType.startsWith('text/') || TEXT_TYPES.includes(attachment.mimeType);
+}
+
+export function attachmentText(attachment) {
+  const text = Buffer.from(stripDataUrl(attachment.data), 'base64').toString('utf8');
+  return `File ${attachment.name}:\n\`\`\`\n${text}\n\`\`\``;
+}
+
+// Message text with its text attachments prepended
+export function withTextAttachments(content, attachments = []) {
+  const files = attachments.filter(isTextAttachment).map(attachmentText);
+  return [...files, content].filter(Boolean).join('\n\n');
+}
+
+export function unsupportedAttachment(providerName, attachment) {
+  const error = new Error(`${providerName} does not accept ${attachment.mimeType} attachments (${attachment.name})`);
+  error.status = 400;
+  return error;
+}
+
+// Validate client attachments; throws with .status 400.
+// Binary files may instead reference an upload ({ name, mimeType, fileUri, keyId }, see uploadFile)
+export function normalizeAttachments(raw, field) {
+  if (raw === undefined || raw === null) return [];
+  const fail = message => {
+    const error = new Error(`${field}: ${message}`);
+    error.status = 400;
+    throw error;
+  };
+  if (!Array.isArray(raw)) fail('expected an array');
+  return raw.map((attachment, i) => {
+    const name = typeof attachment?.name === 'string' && attachment.name ? attachment.name : `file-${i + 1}`;
+    if (typeof attachment?.fileUri === 'string' && attachment.fileUri) {
+      if (typeof attachment.mimeType !== 'string' || !attachment.mimeType) fail(`item ${i} needs a mimeType`);
+      if (isTextAttachment(attachment)) fail(`item ${i}: text files must be sent as data`);
+      if (typeof attachment.keyId !== 'string') fail(`item ${i} needs the keyId of its upload`);
+      return { name, mimeType: attachment.mimeType, fileUri: attachment.fileUri, keyId: attachment.keyId };
+    }
+    const match = typeof attachment?.data === 'string' && attachment.data.match(/^data:([^;,]+);base64,/);
+    if (!match) fail(`item ${i} must have a base64 data URL`);
+    return {
+      name,
+      mimeType: typeof attachment.mimeType === 'string' && attachment.mimeType ? attachment.mimeType : match[1],
+      data: attachment.data
+    };
+  });
+}
+
+// History and new message of a chat request with validated attachments; throws with .status 400
+export function normalizeChatInput({ messages, newMessage }) {
+  return {
+    messages: (messages || []).map((msg, i) => ({
+      ...msg,
+      attachments: normalizeAttachments(msg.attachments, `messages[${i}].attachments`)
+    })),
+    newMessage: { ...newMessage, attachments: normalizeAttachments(newMessage.attachments, 'newMessage.attachments') }
+  };
+}
+
+// History sent to /api/summarize and /api/title: [{ role: 'user' | 'model', content }]; throws with .status 400
+export function validateTranscript(messages) {
+  const fail = message => {
+    const error = new Error(message);
+    error.status = 400;
+    throw error;
+  };
+  if (!Array.isArray(messages) || !messages.length) fail('messages must be a non-empty array');
+  messages.forEach((msg, i) => {
+    if (msg?.role !== 'user' && msg?.role !== 'model') fail(`messages[${i}].role must be "user" or "model"`);
+    if (typeof msg.content !== 'string') fail(`messages[${i}].content must be a string`);
+  });
+}
+
+// Uploaded files belong to the project of the key that uploaded them; the client only sees this id
+export function keyFingerprint(apiKey) {
+  return createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+}
+
+// keyId of the first uploaded file in a raw chat request body, if any
+export function uploadedFilesKeyId({ messages, newMessage } = {}) {
+  const lists = [...(Array.isArray(messages) ? messages : []).map(msg => msg?.attachments), newMessage?.attachments];
+  for (const list of lists) {
+    const file = Array.isArray(list) && list.find(attachment => attachment?.fileUri && typeof attachment.keyId === 'string');
+    if (file) return file.keyId;
+  }
+  return undefined;
+}
+
+// Uploaded files must be readable by this provider and key; throws with .status and .code
+export function checkUploadedFiles(provider, apiKey, { messages, newMessage }) {
+  const files = [...messages.flatMap(msg => msg.attachments), ...newMessage.attachments]
+    .filter(attachment => attachment.fileUri);
+  if (!files.length) return;
+  if (!provider.uploadFile) {
+    const error = new Error(`${provider.name} does not accept uploaded files`);
+    error.status = 400;
+    throw error;
+  }
+  const keyId = keyFingerprint(apiKey);
+  if (files.some(file => file.keyId !== keyId)) throw fileUnavailable('Uploaded files belong to another API key');
+}
+
+// The client re-uploads its files and retries on this error
+export function fileUnavailable(message) {
+  const error = new Error(message);
+  error.status = 409;
+  error.code = 'file_unavailable';
+  return error;
+}
+
+// Validate client sampling parameters; returns a clean object (or undefined) or throws with .status 400
+export function normalizeGenerationConfig(raw) {
+  if (raw === undefined || raw === null) return undefined;
+  const fail = message => {
+    const error = new Error(`generationConfig: ${message}`);
+    error.status = 400;
+    throw error;
+  };
+  if (typeof raw !== 'object' || Array.isArray(raw)) fail('expected an object');
+
+  const config = {};
+  const number = (key, min, max, integer = false) => {
+    const value = raw[key];
+    if (value === undefined || value === null) return;
+    if (typeof value !== 'number' || Number.isNaN(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+      fail(`${key} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max}`);
+    }
+    config[key] = value;
+  };
+  number('temperature', 0, 2);
+  number('topP', 0, 1);
+  number('topK', 1, 1000, true);
+  number('maxOutputTokens', 1, 1_000_000, true);
+
+  if (raw.stopSequences !== undefined) {
+    if (!Array.isArray(raw.stopSequences) || raw.stopSequences.some(s => typeof s !== 'string')) {
+      fail('stopSequences must be an array of strings');
+    }
+    const stops = raw.stopSequences.filter(Boolean);
+    if (stops.length > 5) fail('at most 5 stopSequences');
+    if (stops.length) config.stopSequences = stops;
+  }
+
+  return Object.keys(config).length ? config : undefined;
+}
+
+const HARM_CATEGORIES = [
+  'HARM_CATEGORY_HARASSMENT',
+  'HARM_CATEGORY_HATE_SPEECH',
+  'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+  'HARM_CATEGORY_DANGEROUS_CONTENT',
+  'HARM_CATEGORY_CIVIC_INTEGRITY'
+];
+const SAFETY_THRESHOLDS = [
+  'BLOCK_NONE',
+  'BLOCK_ONLY_HIGH',
+  'BLOCK_MEDIUM_AND_ABOVE',
+  'BLOCK_LOW_AND_ABOVE',
+  'OFF'
+];
+
+// { CATEGORY: THRESHOLD } from the client -> Gemini safetySettings array (or undefined); throws with .status 400
+export function normalizeSafetySettings(raw) {
+  if (raw === undefined || raw === null) return undefined;
+  const fail = message => {
+    const error = new Error(`safetySettings: ${message}`);
+    error.status = 400;
+    throw error;
+  };
+  if (typeof raw !== 'object' || Array.isArray(raw)) fail('expected an object of category -> threshold');
+
+  const settings = [];
+  for (const [category, threshold] of Object.entries(raw)) {
+    if (!HARM_CATEGORIES.includes(category)) fail(`unknown category ${category}`);
+    if (!SAFETY_THRESHOLDS.includes(threshold)) fail(`unknown threshold ${threshold}`);
+    settings.push({ category, threshold });
+  }
+  return settings.length ? settings : undefined;
+}
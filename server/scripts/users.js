@@ -0,0 +1,41 @@
+// Manage hosted-mode accounts from the command line:
+//   node scripts/users.js add <username> <password> [--admin]
+//   node scripts/users.js invite [--admin] [--days 7]
+//   node scripts/users.js list
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import dotenv from 'dotenv';
+import { createUserStore } from '../hosted/users.js';
+import { dataDir } from '../hosted/index.js';
+
+const baseDir = join(dirname(fileURLToPath(import.meta.url)), '..');
+dotenv.config({ path: join(baseDir, '.env') });
+
+const [command, ...args] = process.argv.slice(2);
+const flags = new Set(args.filter(a => a.startsWith('--')));
+const positional = args.filter(a => !a.startsWith('--'));
+const role = flags.has('--admin') ? 'admin' : 'user';
+const store = createUserStore(join(dataDir(baseDir), 'users.json'));
+
+try {
+  if (command === 'add') {
+    const [username, password] = positional;
+    const user = await store.addUser({ username, password, role });
+    console.log(`Created ${user.role} "${user.username}" (${user.id})`);
+  } else if (command === 'invite') {
+    const daysIndex = args.indexOf('--days');
+    const expiresInDays = daysIndex >= 0 ? Number(args[daysIndex + 1]) : 7;
+    const invite = store.createInvite({ role, expiresInDays });
+    console.log(`Invite for a ${invite.role}, valid until ${invite.expiresAt}:\n${invite.token}`);
+  } else if (command === 'list') {
+    for (const user of store.listUsers()) {
+      console.log(`${user.username}\t${user.role}${user.disabled ? '\tdisabled' : ''}\t${user.id}`);
+    }
+  } else {
+    console.log('Usage: node scripts/users.js add <username> <password> [--admin] | invite [--admin] [--days N] | list');
+    process.exitCode = 1;
+  }
+} catch (error) {
+  console.error(error.message);
+  process.exitCode = 1;
+}
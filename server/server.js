@@ -1,9 +1,24 @@
 import express from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
 import cors from 'cors';
 import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { dirname, join, resolve } from 'path';
 import dotenv from 'dotenv';
+import { createProviders, resolveModel, DEFAULT_PROVIDER } from './providers/index.js';
+import { createCatalog } from './catalog.js';
+import { createOpenAIRouter } from './openai-compat.js';
+import { createHostedMode, dataDir } from './hosted/index.js';
+import { createGenerationStore } from './generations.js';
+import { createSyncStore, isSyncEnabled } from './sync.js';
+import {
+  normalizeGenerationConfig,
+  normalizeSafetySettings,
+  normalizeChatInput,
+  validateTranscript,
+  checkUploadedFiles,
+  uploadedFilesKeyId,
+  keyFingerprint
+} from './providers/util.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -13,6 +28,23 @@ dotenv.config({ path: join(__dirname, '.env') });
 
 const app = express();
 const PORT = process.env.PORT || 3001;
+const TITLE_EXCERPT_CHARS = 2000;
+const TITLE_MAX_CHARS = 80;
+const SERVER_ACCESS_TOKEN = process.env.SERVER_ACCESS_TOKEN || '';
+const providers = createProviders(__dirname);
+const catalog = createCatalog(providers, {
+  ttlMs: process.env.MODELS_CACHE_TTL ? Number(process.env.MODELS_CACHE_TTL) * 1000 : undefined
+});
+const hosted = createHostedMode(__dirname);
+const generations = createGenerationStore();
+const sync = isSyncEnabled() ? createSyncStore(
+  process.env.SYNC_DATA_DIR ? resolve(__dirname, process.env.SYNC_DATA_DIR) : join(dataDir(__dirname), 'sync'),
+  {
+    maxBytes: Number(process.env.SYNC_MAX_MB ?? 1024) * 1024 * 1024,
+    maxRecords: Number(process.env.SYNC_MAX_RECORDS ?? 200000),
+    maxSpaces: Number(process.env.SYNC_MAX_SPACES ?? 100)
+  }
+) : null;
 
 // Middleware
 app.use(cors({
@@ -43,8 +75,12 @@ if (process.env.HTTPS_PROXY) {
   console.log('✅ Proxy configured for Google API');
 }
 
-// Get API key from request header
-function getApiKey(req) {
+// Get API key from request header. In hosted mode the header carries a session token
+// and requests use the server's own key(s), the one that uploaded keyId's files when given
+function getApiKey(req, keyId) {
+  if (hosted) {
+    return req.user ? hosted.getServerKey(keyId) : null;
+  }
   const auth = req.headers.authorization;
   if (auth?.startsWith('Bearer ')) {
     return auth.slice(7);
@@ -52,6 +88,58 @@ function getApiKey(req) {
   return null;
 }
 
+// Providers with requiresUserKey: false (OpenAI-compatible, Ollama) run on the server's own keys: only for
+// logged-in users in hosted mode, otherwise for requests whose X-Access-Token matches SERVER_ACCESS_TOKEN
+function mayUseServerKeys(req) {
+  if (hosted) return !!req.user;
+  const token = req.headers['x-access-token'];
+  if (!SERVER_ACCESS_TOKEN || typeof token !== 'string') return false;
+  const digest = value => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(token), digest(SERVER_ACCESS_TOKEN));
+}
+
+// Sends 403 and returns false when the request may not use this provider
+function checkProviderAccess(req, res, provider) {
+  if (provider.requiresUserKey || mayUseServerKeys(req)) return true;
+  res.status(403).json({ error: `${provider.name} runs on the server's keys: send the server access token (X-Access-Token)` });
+  return false;
+}
+
+// Who may resume a generation: the user in hosted mode (keys rotate), otherwise the key
+function generationOwner(req, apiKey) {
+  return req.user ? `user:${req.user.id}` : keyFingerprint(apiKey);
+}
+
+// Sync stores data on this server, so like the server's keys it needs a session or the access token
+function checkSyncAccess(req, res) {
+  if (mayUseServerKeys(req)) return true;
+  res.status(403).json({ error: 'Sync needs the server access token (X-Access-Token)' });
+  return false;
+}
+
+// Sync space of the X-Sync-Token header, which the client derives from its sync passphrase
+function syncSpace(req) {
+  return sync.spaceId(req.headers['x-sync-token'], req.user ? `user:${req.user.id}` : '');
+}
+
+// Public endpoints, available without login in hosted mode
+app.get('/api/config', (req, res) => {
+  res.json({ hosted: !!hosted, sync: !!sync && (!!hosted || !!SERVER_ACCESS_TOKEN), accessToken: !hosted && !!SERVER_ACCESS_TOKEN });
+});
+
+app.get('/api/health', (req, res) => {
+  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+if (hosted) {
+  // /api/auth/* and /api/admin/*, then everything else requires a session
+  app.use('/api', hosted.router);
+  app.use(['/api', '/v1'], hosted.authenticate);
+  app.post(['/api/chat', '/api/summarize', '/api/title', '/v1/chat/completions'], hosted.limit);
+  app.post(['/api/count-tokens', '/api/models/probe'], hosted.limitAuxiliary);
+  app.post('/api/files', hosted.limitUpload);
+}
+
 // Test API key + return models in one call
 app.post('/api/test-key', async (req, res) => {
   const apiKey = getApiKey(req);
@@ -60,313 +148,402 @@ app.post('/api/test-key', async (req, res) => {
   }
   
   try {
-    const { ProxyAgent, fetch: undiciFetch } = await import('undici');
-    const fetchOptions = {};
-    
-    if (process.env.HTTPS_PROXY) {
-      fetchOptions.dispatcher = new ProxyAgent(process.env.HTTPS_PROXY);
-    }
-    
     // Just fetch models list — free call, no quota used
-    const response = await undiciFetch(
-      `https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`,
-      fetchOptions
-    );
+    const { models, errors } = await catalog.getModels(apiKey, { refresh: true, serverKeys: mayUseServerKeys(req) });
     
-    if (!response.ok) {
-      const err = await response.json().catch(() => ({}));
-      const msg = err?.error?.message || `HTTP ${response.status}`;
-      return res.json({ valid: false, error: msg });
+    if (errors[DEFAULT_PROVIDER]) {
+      return res.json({ valid: false, error: errors[DEFAULT_PROVIDER] });
     }
-    
-    const data = await response.json();
-    
-    if (!data.models || data.models.length === 0) {
+    if (!models.some(m => m.provider === DEFAULT_PROVIDER)) {
       return res.json({ valid: false, error: 'No models available for this key' });
     }
     
-    // Key works — return models immediately
-    const models = data.models
-      .filter(m => m.supportedGenerationMethods?.includes('generateContent'))
-      .filter(m => !m.name.includes('embedding'))
-      .filter(m => !m.name.includes('aqa'))
-      .filter(m => !m.name.includes('imagen'))
-      .filter(m => !m.name.includes('robotics'))
-      .filter(m => !m.name.includes('tts'))
-      .map(m => ({
-        value: m.name.replace('models/', ''),
-        label: m.displayName || m.name.replace('models/', ''),
-        description: m.description?.substring(0, 100) || '',
-        inputTokens: m.inputTokenLimit,
-        outputTokens: m.outputTokenLimit
-      }));
-    
-    const modelsFromApi = data.models
-      .filter(m => m.supportedGenerationMethods?.includes("generateContent"))
-      .filter(m => !m.name.includes("embedding"))
-      .filter(m => !m.name.includes("aqa"))
-      .filter(m => !m.name.includes("imagen"))
-      .filter(m => !m.name.includes("robotics"))
-      .filter(m => !m.name.includes("tts"))
-      .map(m => ({
-        value: m.name.replace("models/", ""),
-        label: m.displayName || m.name.replace("models/", ""),
-        description: m.description?.substring(0, 100) || "",
-        inputTokens: m.inputTokenLimit,
-        outputTokens: m.outputTokenLimit
-      }));
-    
-    const uniqueModelsMap = new Map();
-    modelsFromApi.forEach(model => uniqueModelsMap.set(model.value, model));
-    const uniqueModels = Array.from(uniqueModelsMap.values());
-
-    uniqueModels.sort((a, b) => {
-        if (a.value.includes("2.5") && !b.value.includes("2.5")) return -1;
-        if (!a.value.includes("2.5") && b.value.includes("2.5")) return 1;
-        if (a.value.includes("2.0") && !b.value.includes("2.0")) return -1;
-        if (!a.value.includes("2.0") && b.value.includes("2.0")) return 1;
-        return a.label.localeCompare(b.label);
-      });
-
-    res.json({ valid: true, models: uniqueModels });
+    res.json({ valid: true, models });
   } catch (error) {
     res.json({ valid: false, error: error.message });
   }
 });
 
-// Get raw models from Google
-app.get("/api/models-raw", async (req, res) => {
+// Model catalog of all providers (cached per key). ?refresh=1 bypasses the cache
+app.get("/api/models", async (req, res) => {
   const apiKey = getApiKey(req);
   if (!apiKey) {
     return res.status(401).json({ error: "No API key provided" });
   }
   
   try {
-    const { ProxyAgent, fetch: undiciFetch } = await import("undici");
-    const fetchOptions = {};
-    if (process.env.HTTPS_PROXY) {
-      fetchOptions.dispatcher = new ProxyAgent(process.env.HTTPS_PROXY);
+    const { models, errors } = await catalog.getModels(apiKey, { refresh: req.query.refresh === '1', serverKeys: mayUseServerKeys(req) });
+    if (models.length === 0 && Object.keys(errors).length > 0) {
+      return res.status(500).json({ error: "Failed to fetch models", errors });
     }
-    
-    const response = await undiciFetch(
-      `https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`,
-      fetchOptions
-    );
-    
-    const data = await response.json();
-    res.json(data);
+    res.json({ models, errors });
   } catch (error) {
-    res.status(500).json({ error: error.message });
+    console.error("Models error:", error.message);
+    res.status(500).json({ error: "Failed to fetch models" });
   }
 });
 
-// Probe a single model
-app.post("/api/probe-model", async (req, res) => {
+// Check availability of models on demand (all, or the given values); returns the whole catalog
+app.post("/api/models/probe", async (req, res) => {
   const apiKey = getApiKey(req);
-  const { model } = req.body;
-  if (!apiKey) return res.status(401).json({ error: "No API key provided" });
-  if (!model) return res.status(400).json({ error: "No model provided" });
+  if (!apiKey) {
+    return res.status(401).json({ error: "No API key provided" });
+  }
+  
+  try {
+    const { models, errors } = await catalog.probe(apiKey, req.body?.models, { serverKeys: mayUseServerKeys(req) });
+    res.json({ models, errors });
+  } catch (error) {
+    console.error("Probe error:", error.message);
+    res.status(500).json({ error: error.message });
+  }
+});
 
+// Chat endpoint with streaming
+app.post('/api/chat', async (req, res) => {
+  const apiKey = getApiKey(req, uploadedFilesKeyId(req.body));
+  if (!apiKey) {
+    return res.status(401).json({ error: 'No API key provided' });
+  }
+  
+  const { model: modelName, provider: providerId, systemPrompt } = req.body;
+  
+  if (!modelName || !req.body.newMessage) {
+    return res.status(400).json({ error: 'Missing model or message' });
+  }
+  
+  const resolved = resolveModel(providers, modelName, providerId);
+  if (!resolved) {
+    return res.status(400).json({ error: `Unknown provider: ${providerId}` });
+  }
+  if (!checkProviderAccess(req, res, resolved.provider)) return;
+  
+  let generationConfig;
+  let safetySettings;
+  let messages;
+  let newMessage;
   try {
-    const { ProxyAgent, fetch: undiciFetch } = await import("undici");
-    const fetchOptions = {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ contents: [{ parts: [{ text: "hi" }] }] })
-    };
-    if (process.env.HTTPS_PROXY) {
-      fetchOptions.dispatcher = new ProxyAgent(process.env.HTTPS_PROXY);
+    generationConfig = normalizeGenerationConfig(req.body.generationConfig);
+    safetySettings = normalizeSafetySettings(req.body.safetySettings);
+    ({ messages, newMessage } = normalizeChatInput(req.body));
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+  
+  try {
+    checkUploadedFiles(resolved.provider, apiKey, { messages, newMessage });
+  } catch (error) {
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+  
+  // Runs to the end even if this connection drops; the client can resume from the buffer
+  const owner = generationOwner(req, apiKey);
+  const generation = generations.start(owner, resolved.provider.streamChat(apiKey, {
+    model: resolved.model,
+    messages,
+    newMessage,
+    systemPrompt,
+    generationConfig,
+    safetySettings
+  }), {
+    // Failed requests that produced nothing are not counted against the budget
+    onEnd: ({ output, usage }) => {
+      if (output || usage) req.recordUsage?.(modelName, req.body, output, usage);
     }
+  });
+  // Nobody can resume a generation whose id never reached the client
+  const cancelUnseen = () => generations.cancel(generation.id, owner);
+  res.on('close', cancelUnseen);
+  await generation.ready;
+  res.off('close', cancelUnseen);
+  
+  // Errors before any output keep their HTTP status (429 rotates keys, 409 re-uploads files)
+  if (generation.failure) {
+    generations.discard(generation.id);
+    const { status, message, code } = generation.failure;
+    return res.status(status || 500).json({ error: message, code });
+  }
+  
+  // Events: { generation } first, then numbered { text } while generating, { finish: { reason, blockReason?,
+  // safetyRatings? } } and { usage: { promptTokens, candidatesTokens, thinkingTokens } } when reported
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.write(`data: ${JSON.stringify({ generation: generation.id })}\n\n`);
+  generations.attach(generation, res);
+});
 
-    const response = await undiciFetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-      fetchOptions
-    );
+// Resume a generation after a dropped connection: events after Last-Event-ID, then live ones
+app.get('/api/generations/:id', (req, res) => {
+  const apiKey = getApiKey(req);
+  if (!apiKey) {
+    return res.status(401).json({ error: 'No API key provided' });
+  }
+  
+  const generation = generations.get(req.params.id, generationOwner(req, apiKey));
+  if (!generation) {
+    return res.status(404).json({ error: 'Generation not found or expired' });
+  }
+  
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  generations.attach(generation, res, Number(req.headers['last-event-id']) || 0);
+});
 
-    if (response.ok) {
-      return res.json({ ok: true });
-    }
+// Stop a generation (the client's stop button); the part produced so far stays resumable
+app.delete('/api/generations/:id', (req, res) => {
+  const apiKey = getApiKey(req);
+  if (!apiKey) {
+    return res.status(401).json({ error: 'No API key provided' });
+  }
+  
+  if (!generations.cancel(req.params.id, generationOwner(req, apiKey))) {
+    return res.status(404).json({ error: 'Generation not found or expired' });
+  }
+  res.json({ cancelled: true });
+});
 
-    const data = await response.json().catch(() => ({}));
-    const errorMsg = data.error?.message || `HTTP ${response.status}`;
-    res.status(response.status).json({ error: errorMsg });
+// Count tokens of a chat request (same body as /api/chat), no generation quota used
+app.post('/api/count-tokens', async (req, res) => {
+  const apiKey = getApiKey(req, uploadedFilesKeyId(req.body));
+  if (!apiKey) {
+    return res.status(401).json({ error: 'No API key provided' });
+  }
+  
+  const { model: modelName, provider: providerId, systemPrompt } = req.body;
+  
+  if (!modelName || !req.body.newMessage) {
+    return res.status(400).json({ error: 'Missing model or message' });
+  }
+  
+  let messages;
+  let newMessage;
+  try {
+    ({ messages, newMessage } = normalizeChatInput(req.body));
   } catch (error) {
-    res.status(500).json({ error: error.message });
+    return res.status(400).json({ error: error.message });
+  }
+  
+  const resolved = resolveModel(providers, modelName, providerId);
+  if (!resolved) {
+    return res.status(400).json({ error: `Unknown provider: ${providerId}` });
+  }
+  if (!checkProviderAccess(req, res, resolved.provider)) return;
+  if (!resolved.provider.countTokens) {
+    return res.status(501).json({ error: `Token counting is not supported by ${resolved.provider.name}` });
+  }
+  
+  try {
+    checkUploadedFiles(resolved.provider, apiKey, { messages, newMessage });
+    const totalTokens = await resolved.provider.countTokens(apiKey, {
+      model: resolved.model,
+      messages,
+      newMessage,
+      systemPrompt
+    });
+    res.json({ totalTokens });
+  } catch (error) {
+    console.error('Count tokens error:', error.message);
+    res.status(error.status || 500).json({ error: error.message, code: error.code });
   }
 });
 
-// Get available models
-app.get("/api/models", async (req, res) => {
+// Upload an attachment once to the provider's file storage; the body is the raw file,
+// Content-Type its MIME type. Returns { uri, expiresAt, keyId } to reference it in later chat requests
+app.post('/api/files', express.raw({ type: () => true, limit: '50mb' }), async (req, res) => {
   const apiKey = getApiKey(req);
   if (!apiKey) {
-    return res.status(401).json({ error: "No API key provided" });
+    return res.status(401).json({ error: 'No API key provided' });
+  }
+  
+  const provider = providers.get(req.query.provider || DEFAULT_PROVIDER);
+  if (!provider) {
+    return res.status(400).json({ error: `Unknown provider: ${req.query.provider}` });
+  }
+  if (!checkProviderAccess(req, res, provider)) return;
+  if (!provider.uploadFile) {
+    return res.status(501).json({ error: `File uploads are not supported by ${provider.name}` });
+  }
+  const mimeType = req.headers['content-type'];
+  if (!Buffer.isBuffer(req.body) || !req.body.length || !mimeType) {
+    return res.status(400).json({ error: 'Missing file body or Content-Type' });
   }
   
   try {
-    const { ProxyAgent, fetch: undiciFetch } = await import("undici");
-    const fetchOptions = {};
-    
-    if (process.env.HTTPS_PROXY) {
-      fetchOptions.dispatcher = new ProxyAgent(process.env.HTTPS_PROXY);
+    const name = decodeURIComponent(req.headers['x-file-name'] || 'file');
+    const { uri, expiresAt } = await provider.uploadFile(apiKey, { name, mimeType, data: req.body });
+    req.recordUpload?.(req.body.length);
+    res.json({ uri, expiresAt, keyId: keyFingerprint(apiKey) });
+  } catch (error) {
+    console.error('Upload error:', error.message);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+if (sync) {
+  // Encrypted records changed after ?since=<seq>, a page at a time
+  app.get('/api/sync', (req, res) => {
+    if (!getApiKey(req)) {
+      return res.status(401).json({ error: 'No API key provided' });
     }
-    
-    const response = await undiciFetch(
-      `https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`,
-      fetchOptions
-    );
-    
-    const data = await response.json();
-    
-    if (!data.models) {
-      return res.json({ models: [] });
+    if (!checkSyncAccess(req, res)) return;
+    const space = syncSpace(req);
+    if (!space) {
+      return res.status(400).json({ error: 'Missing or malformed X-Sync-Token' });
     }
     
-    const textModels = data.models
-      .filter(m => m.supportedGenerationMethods?.includes("generateContent"))
-      .filter(m => !m.name.includes("embedding"))
-      .filter(m => !m.name.includes("aqa"))
-      .filter(m => !m.name.includes("imagen"))
-      .filter(m => !m.name.includes("robotics"))
-      .filter(m => !m.name.includes("tts"))
-      .map(m => ({
-        value: m.name.replace("models/", ""),
-        label: m.displayName || m.name.replace("models/", ""),
-        description: m.description?.substring(0, 100) || "",
-        inputTokens: m.inputTokenLimit,
-        outputTokens: m.outputTokenLimit
-      }));
+    try {
+      res.json(sync.changes(space, Number(req.query.since) || 0));
+    } catch (error) {
+      console.error('Sync pull error:', error.message);
+      res.status(500).json({ error: 'Failed to read sync data' });
+    }
+  });
+  
+  // Push { changes: [{ id, updatedAt, data }] }; changes older than what is stored are ignored
+  app.post('/api/sync', (req, res) => {
+    if (!getApiKey(req)) {
+      return res.status(401).json({ error: 'No API key provided' });
+    }
+    if (!checkSyncAccess(req, res)) return;
+    const space = syncSpace(req);
+    if (!space) {
+      return res.status(400).json({ error: 'Missing or malformed X-Sync-Token' });
+    }
     
-    // Удаляем дубликаты моделей на основе их 'value'
-    const uniqueModelsMap = new Map();
-    textModels.forEach(model => uniqueModelsMap.set(model.value, model));
-    const uniqueModels = Array.from(uniqueModelsMap.values());
-
-    console.log('Unique models count:', uniqueModels.length);
-
-    uniqueModels.sort((a, b) => {
-        // Sort newer models first
-        if (a.value.includes("2.5") && !b.value.includes("2.5")) return -1;
-        if (!a.value.includes("2.5") && b.value.includes("2.5")) return 1;
-        if (a.value.includes("2.0") && !b.value.includes("2.0")) return -1;
-        if (!a.value.includes("2.0") && b.value.includes("2.0")) return 1;
-        return a.label.localeCompare(b.label);
-      });
-
-    res.json({ models: uniqueModels });
-  } catch (error) {
-    console.error("Models error:", error.message);
-    res.status(500).json({ error: "Failed to fetch models" });
-  }
-});
+    try {
+      res.json(sync.push(space, req.body?.changes));
+    } catch (error) {
+      if (!error.status) console.error('Sync push error:', error.message);
+      res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to save sync data' });
+    }
+  });
+}
 
-// Chat endpoint with streaming
-app.post('/api/chat', async (req, res) => {
+// Summarize older history so it can replace those turns in later requests
+app.post('/api/summarize', async (req, res) => {
   const apiKey = getApiKey(req);
   if (!apiKey) {
     return res.status(401).json({ error: 'No API key provided' });
   }
   
-  const { model: modelName, messages, newMessage, systemPrompt } = req.body;
+  const { model: modelName, provider: providerId, messages, previousSummary } = req.body;
   
-  if (!modelName || !newMessage) {
-    return res.status(400).json({ error: 'Missing model or message' });
+  if (!modelName) {
+    return res.status(400).json({ error: 'Missing model' });
+  }
+  try {
+    validateTranscript(messages);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+  if (previousSummary !== undefined && previousSummary !== null && typeof previousSummary !== 'string') {
+    return res.status(400).json({ error: 'previousSummary must be a string' });
   }
   
+  const resolved = resolveModel(providers, modelName, providerId);
+  if (!resolved) {
+    return res.status(400).json({ error: `Unknown provider: ${providerId}` });
+  }
+  if (!checkProviderAccess(req, res, resolved.provider)) return;
+  
   try {
-    const genAI = new GoogleGenerativeAI(apiKey);
+    const transcript = messages
+      .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
+      .join('\n\n');
+    const prompt = previousSummary
+      ? `Summary of the earlier part:\n${previousSummary}\n\nContinuation:\n${transcript}`
+      : transcript;
     
-    const modelConfig = {};
-    if (systemPrompt) {
-      modelConfig.systemInstruction = systemPrompt;
+    let summary = '';
+    const stream = resolved.provider.streamChat(apiKey, {
+      model: resolved.model,
+      messages: [],
+      newMessage: { text: prompt },
+      systemPrompt: 'You compress chat history. Write a concise summary of the conversation below: ' +
+        'facts, decisions, code and open questions that later turns may rely on. ' +
+        'Use the language of the conversation. Output only the summary.'
+    });
+    let usage = null;
+    for await (const { text, usage: reported } of stream) {
+      if (text) summary += text;
+      if (reported) usage = reported;
     }
-    
-    const model = genAI.getGenerativeModel({ 
-      model: modelName,
-      ...modelConfig
+    req.recordUsage?.(modelName, { newMessage: { text: prompt } }, summary, usage);
+    res.json({ summary });
+  } catch (error) {
+    console.error('Summarize error:', error.message);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Short title for a chat from its first exchange. TITLE_MODEL, when set, is used instead of the requested model
+app.post('/api/title', async (req, res) => {
+  const apiKey = getApiKey(req);
+  if (!apiKey) {
+    return res.status(401).json({ error: 'No API key provided' });
+  }
+
+  const modelName = process.env.TITLE_MODEL || req.body.model;
+  // A "provider:" prefix on TITLE_MODEL must name a configured provider instead of falling back to Gemini
+  const providerId = process.env.TITLE_MODEL
+    ? (modelName.includes(':') ? modelName.split(':')[0] : undefined)
+    : req.body.provider;
+  const { messages } = req.body;
+
+  if (!modelName) {
+    return res.status(400).json({ error: 'Missing model' });
+  }
+  try {
+    validateTranscript(messages);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  const resolved = resolveModel(providers, modelName, providerId);
+  if (!resolved) {
+    const error = process.env.TITLE_MODEL
+      ? `TITLE_MODEL "${modelName}" names provider "${providerId}", which is not configured`
+      : `Unknown provider: ${providerId}`;
+    return res.status(400).json({ error });
+  }
+  if (!checkProviderAccess(req, res, resolved.provider)) return;
+
+  try {
+    // The start of each message is enough to tell what the chat is about
+    const transcript = messages
+      .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${String(msg.content).slice(0, TITLE_EXCERPT_CHARS)}`)
+      .join('\n\n');
+
+    let output = '';
+    const stream = resolved.provider.streamChat(apiKey, {
+      model: resolved.model,
+      messages: [],
+      newMessage: { text: transcript },
+      systemPrompt: 'You name chats. Write a title of at most six words for the conversation below, ' +
+        'in the language of the conversation. No quotes, no trailing period. Output only the title.'
     });
-    
-    // Build chat history
-    const history = (messages || []).map(msg => ({
-      role: msg.role === 'user' ? 'user' : 'model',
-      parts: msg.images?.length 
-        ? [
-            ...msg.images.map(img => ({
-              inlineData: {
-                mimeType: 'image/jpeg',
-                data: img.replace(/^data:image\/\w+;base64,/, '')
-              }
-            })),
-            { text: msg.content || ' ' }
-          ]
-        : [{ text: msg.content }]
-    }));
-    
-    // Build new message parts
-    const parts = [];
-    if (newMessage.images?.length) {
-      for (const img of newMessage.images) {
-        parts.push({
-          inlineData: {
-            mimeType: 'image/jpeg',
-            data: img.replace(/^data:image\/\w+;base64,/, '')
-          }
-        });
-      }
+    let usage = null;
+    for await (const { text, usage: reported } of stream) {
+      if (text) output += text;
+      if (reported) usage = reported;
     }
-    parts.push({ text: newMessage.text || ' ' });
-    
-    // Setup streaming response
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    
-    const chat = model.startChat({ history });
-    const result = await chat.sendMessageStream(parts);
-    
-    try {
-      for await (const chunk of result.stream) {
-        try {
-          const text = chunk.text();
-          if (text) {
-            res.write(`data: ${JSON.stringify({ text })}\n\n`);
-            // Flush the response to ensure data is sent immediately
-            if (res.flush) res.flush();
-          }
-        } catch (chunkError) {
-          console.error('Chunk processing error:', chunkError);
-          // Continue processing other chunks
-        }
-      }
-      
-      res.write('data: [DONE]\n\n');
-      res.end();
-    } catch (streamError) {
-      console.error('Stream error:', streamError);
-      if (!res.headersSent) {
-        res.status(500).json({ error: streamError.message });
-      } else {
-        res.write(`data: ${JSON.stringify({ error: streamError.message })}\n\n`);
-        res.end();
-      }
+    req.recordUsage?.(modelName, { newMessage: { text: transcript } }, output, usage);
+
+    const title = output.trim().split('\n')[0].replace(/^["'«“*#\s]+|["'»”*.\s]+$/g, '').slice(0, TITLE_MAX_CHARS);
+    if (!title) {
+      return res.status(502).json({ error: 'The model returned no title' });
     }
-    
+    res.json({ title });
   } catch (error) {
-    console.error('Chat error:', error.message);
-    
-    // If headers already sent (streaming started), send error in stream
-    if (res.headersSent) {
-      res.write(`data: ${JSON.stringify({ error: error.message })}\n\n`);
-      res.end();
-    } else {
-      res.status(500).json({ error: error.message });
-    }
+    console.error('Title error:', error.message);
+    res.status(error.status || 500).json({ error: error.message });
   }
 });
 
-// Health check
-app.get('/api/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
+// OpenAI-compatible API for scripts and editor plugins
+app.use('/v1', createOpenAIRouter({ providers, catalog, getApiKey, mayUseServerKeys }));
 
 // SPA fallback
 if (process.env.NODE_ENV === 'production') {
@@ -381,6 +558,15 @@ app.listen(PORT, () => {
   console.log('═'.repeat(40));
   console.log(`📡 Port: ${PORT}`);
   console.log(`🌐 Proxy: ${process.env.HTTPS_PROXY || 'Not configured'}`);
+  console.log(`🧠 Providers: ${Array.from(providers.keys()).join(', ')}`);
+  const serverKeyProviders = Array.from(providers.values()).filter(p => !p.requiresUserKey).map(p => p.name);
+  if (serverKeyProviders.length && !hosted) {
+    console.log(SERVER_ACCESS_TOKEN
+      ? `🔑 ${serverKeyProviders.join(', ')}: only with the server access token`
+      : `⚠️  ${serverKeyProviders.join(', ')}: disabled, they run on the server's keys. Set SERVER_ACCESS_TOKEN to allow them`);
+  }
+  console.log(`🔐 Hosted: ${hosted ? `yes, ${hosted.userCount()} user(s), ${hosted.keyCount} key(s)` : 'no (bring your own key)'}`);
+  console.log(`🔄 Sync: ${!sync ? 'off' : hosted || SERVER_ACCESS_TOKEN ? 'enabled (end-to-end encrypted)' : 'disabled until SERVER_ACCESS_TOKEN is set'}`);
   console.log(`🔧 Mode: ${process.env.NODE_ENV || 'development'}`);
   console.log('═'.repeat(40));
   console.log('');
@@ -0,0 +1,139 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { readJson, writeJson } from './hosted/users.js';
+
+const PAGE_SIZE = 500; // records per pull
+const PAGE_BYTES = 8 * 1024 * 1024; // ciphertext per pull; a single larger record still goes through
+const MAX_PUSH = 1000;
+const MAX_OPEN_SPACES = 100; // indexes kept in memory, least recently used dropped first
+const HEX_64 = /^[0-9a-f]{64}$/;
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+export function isSyncEnabled() {
+  return ['1', 'true', 'yes'].includes((process.env.SYNC_ENABLED || '').toLowerCase());
+}
+
+function invalidPush(message, status = 400) {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+}
+
+function validateChanges(changes) {
+  if (!Array.isArray(changes) || changes.length === 0) throw invalidPush('changes must be a non-empty array');
+  if (changes.length > MAX_PUSH) throw invalidPush(`At most ${MAX_PUSH} changes per request`);
+  changes.forEach((change, i) => {
+    if (!HEX_64.test(change?.id || '')) throw invalidPush(`changes[${i}].id must be 64 hex characters`);
+    if (!Number.isFinite(change.updatedAt)) throw invalidPush(`changes[${i}].updatedAt must be a number`);
+    if (typeof change.data !== 'string' || !BASE64.test(change.data)) throw invalidPush(`changes[${i}].data must be base64`);
+  });
+}
+
+/**
+ * Storage for end-to-end encrypted sync. Clients encrypt every record, ids included, before pushing,
+ * so the server keeps opaque ids, timestamps and ciphertext only.
+ * A space is addressed by a token the client derives from its passphrase. Each space is a directory
+ * with index.json { seq, records: { <id>: { seq, updatedAt, size } } } and one file per record;
+ * every accepted change gets the next seq, and clients pull what changed after the last seq they saw.
+ */
+export function createSyncStore(dir, { maxBytes = 0, maxRecords = 0, maxSpaces = 0 } = {}) {
+  const spaces = new Map(); // space -> index, read on first use; in use order, oldest first
+  // Spaces on disk. Their number is capped too: anyone can make up a new sync token
+  const created = new Set(existsSync(dir) ? readdirSync(dir, { withFileTypes: true }).filter(e => e.isDirectory()).map(e => e.name) : []);
+
+  // Every change is written to disk right away, so a dropped index is simply read again
+  function open(space) {
+    let index = spaces.get(space);
+    if (index) {
+      spaces.delete(space);
+    } else {
+      index = readJson(join(dir, space, 'index.json'), { seq: 0, records: {} });
+    }
+    spaces.set(space, index);
+    if (spaces.size > MAX_OPEN_SPACES) spaces.delete(spaces.keys().next().value);
+    return index;
+  }
+
+  // Rejects the whole push when the records it would store or replace take the space over a quota
+  function checkQuota(index, changes) {
+    if (!maxBytes && !maxRecords) return;
+    const sizes = new Map();
+    for (const { id, updatedAt, data } of changes) {
+      const current = index.records[id];
+      if (current && current.updatedAt >= updatedAt) continue;
+      sizes.set(id, data.length);
+    }
+    let bytes = 0;
+    let records = 0;
+    for (const [id, record] of Object.entries(index.records)) {
+      bytes += sizes.get(id) ?? record.size;
+      records++;
+    }
+    for (const [id, size] of sizes) {
+      if (index.records[id]) continue;
+      bytes += size;
+      records++;
+    }
+    if (maxRecords && records > maxRecords) {
+      throw invalidPush(`Sync space is limited to ${maxRecords} records`, 413);
+    }
+    if (maxBytes && bytes > maxBytes) {
+      throw invalidPush(`Sync space is limited to ${Math.round(maxBytes / 1024 / 1024)} MB`, 413);
+    }
+  }
+
+  return {
+    // Null for a malformed token. The scope keeps users of a hosted server apart
+    spaceId(token, scope = '') {
+      if (!HEX_64.test(token || '')) return null;
+      return createHash('sha256').update(`${scope}:${token}`).digest('hex');
+    },
+
+    // Records changed after seq, oldest first: { changes: [{ id, seq, updatedAt, data }], seq, more }
+    changes(space, since = 0) {
+      const index = open(space);
+      const changed = Object.entries(index.records)
+        .filter(([, record]) => record.seq > since)
+        .sort(([, a], [, b]) => a.seq - b.seq);
+
+      const changes = [];
+      let bytes = 0;
+      for (const [id, record] of changed) {
+        if (changes.length && (changes.length >= PAGE_SIZE || bytes + record.size > PAGE_BYTES)) break;
+        changes.push({ id, seq: record.seq, updatedAt: record.updatedAt, data: readFileSync(join(dir, space, id), 'utf8') });
+        bytes += record.size;
+      }
+      return {
+        changes,
+        seq: changes.length ? changes[changes.length - 1].seq : index.seq,
+        more: changes.length < changed.length
+      };
+    },
+
+    // Last writer wins: a record is only replaced by a newer updatedAt, older pushes are ignored.
+    // previousSeq lets the client skip pulling its own changes back when nobody pushed in between
+    push(space, changes) {
+      validateChanges(changes);
+      const index = open(space);
+      checkQuota(index, changes);
+      if (!created.has(space)) {
+        if (maxSpaces && created.size >= maxSpaces) throw invalidPush('Sync storage is full: no new sync spaces are accepted', 507);
+        mkdirSync(join(dir, space), { recursive: true });
+        created.add(space);
+      }
+      const previousSeq = index.seq;
+
+      let applied = 0;
+      for (const { id, updatedAt, data } of changes) {
+        const current = index.records[id];
+        if (current && current.updatedAt >= updatedAt) continue;
+        writeFileSync(join(dir, space, id), data);
+        index.records[id] = { seq: ++index.seq, updatedAt, size: data.length };
+        applied++;
+      }
+      if (applied) writeJson(join(dir, space, 'index.json'), index);
+      return { applied, seq: index.seq, previousSeq };
+    }
+  };
+}
@@ -1,24 +1,153 @@
-import { useState, useEffect, useRef, useMemo } from 'react';
+import { Fragment, useState, useEffect, useRef, useMemo } from 'react';
 import { 
   Send, Square, RotateCcw, Pencil, Download, Trash2, Plus, 
-  Settings, Moon, Sun, Image, X, Check, MessageSquare,
+  Settings, Moon, Sun, X, Check, MessageSquare, Paperclip, FileText, FileMusic, FileCode,
   RefreshCw, Menu, AlertCircle, Copy, ExternalLink,
-  Bot, User, ArrowRightLeft
+  Bot, User, ArrowRightLeft, ChevronLeft, ChevronRight, Search, Archive, Eye, Brain, Lock, SlidersHorizontal, ChartColumn,
+  BookOpen, Upload, Sparkles, Pin, PinOff, ArchiveRestore, FolderIcon, FolderPlus, ChevronDown, ListChecks
 } from 'lucide-react';
 import 'highlight.js/styles/github-dark.css';
 import ReactMarkdown from 'react-markdown';
 import rehypeHighlight from 'rehype-highlight';
 import { useTheme } from './hooks/useTheme';
-import { encryptApiKey, decryptApiKey, clearApiKey, hasStoredKey } from './lib/crypto';
+import { useIdleTimer } from './hooks/useIdleTimer';
+import { useBlobUrls, type BlobRef } from './hooks/useBlobUrls';
+import { useLiveQuery } from './hooks/useLiveQuery';
+import {
+  decryptApiKey, clearApiKey, hasStoredKey,
+  getVaultMode, isVaultLocked, unlockVault, lockVault,
+  enableVault, changeVaultPassphrase, disableVault, type VaultMode
+} from './lib/crypto';
+import {
+  createKeyProfile, createKeyRing, parseKeyRing, serializeKeyRing, getActiveProfile, getNextProfile,
+  saveKeyRing, maskKey, type KeyProfile, type KeyRing
+} from './lib/keyProfiles';
+import {
+  isHostedServer, login, register, getAccount, loadSession, saveSession, clearSession,
+  type HostedAccount
+} from './lib/hosted';
 import { 
-  createChat, getAllChats, getChat, updateChat, deleteChat,
-  addMessage, getChatMessages, deleteMessagesAfter, exportChat,
-  type Chat, type ChatMessage, deleteMessage 
+  createChat, getAllChats, getChat, updateChat, renameChat, deleteChat,
+  addMessage, getMessage, getChatMessages, getChatThread, switchBranch, setCurrentLeaf,
+  updateMessage, setMessageFinish, setMessageUsage, getUsageMessages, collectOrphanedBlobs, setDraftBlobs, type Chat, type ChatMessage, deleteMessage,
+  type ChatThread, type PendingGeneration, type PromptTemplate, type Assistant, type Folder
 } from './lib/db';
-import { getViableModels, type Model } from './lib/models';
+import { fetchModels, fromCatalog, type Model } from './lib/models';
+import { searchAll, type SearchResult } from './lib/search';
+import { exportBackup, parseBackup, importBackup, type ImportMode } from './lib/backup';
+import { readExportFiles, importConversations, EXPORT_SOURCE_NAMES, type ExternalConversation } from './lib/importers';
+import {
+  exportChats, loadExportOptions, saveExportOptions, EXPORT_LABELS, type ExportOptions, type ExportFormat, type ExportLanguage
+} from './lib/export';
+import { buildChatPayload, type ChatPayload, type CompactionReport } from './lib/context';
+import {
+  GENERATION_PRESETS, loadGenerationDefaults, saveGenerationDefaults, compactConfig, isEmptyConfig,
+  resolveGenerationConfig, matchPreset, validateGenerationConfig, fitToModel, type GenerationConfig
+} from './lib/generation';
+import {
+  HARM_CATEGORIES, SAFETY_THRESHOLDS, loadSafetyDefaults, saveSafetyDefaults, resolveSafetySettings, describeFinish,
+  type SafetySettings, type SafetyThreshold, type FinishInfo
+} from './lib/safety';
+import {
+  loadPricing, savePricing, buildUsageReport, addUsage, totalTokens, dayKey, formatTokens, formatCost,
+  type Pricing, type TokenUsage
+} from './lib/usage';
+import { readAttachment, attachmentKind, formatSize, ATTACHMENT_ACCEPT, type Attachment } from './lib/attachments';
+import { getBlob, moveInlineAttachments } from './lib/blobs';
+import { forgetRemoteFiles } from './lib/files';
+import {
+  followGeneration, cancelGeneration, mirrorGeneration, getPendingGeneration, getPendingGenerations,
+  withGenerationLock, isGenerating, generationLocksSupported
+} from './lib/generations';
+import {
+  getPrompts, savePrompt, deletePrompt, templateVariables, fillTemplate, parseTags, matchesPrompt,
+  exportPromptLibrary, parsePromptLibrary, importPrompts
+} from './lib/prompts';
+import {
+  getAssistants, saveAssistant, deleteAssistant, startAssistantChat, parseStarters,
+  exportAssistantLibrary, parseAssistantLibrary, importAssistants, DEFAULT_ASSISTANT_ICON
+} from './lib/assistants';
+import {
+  getFolders, folderOptions, folderSubtree, chatTags, saveFolder, deleteFolder, moveChats, setChatsPinned,
+  setChatsArchived, addChatTags, removeChatTag, deleteChats, type FolderDraft
+} from './lib/folders';
+import { loadTitleModel, saveTitleModel, generateChatTitle } from './lib/titles';
+import { isAccessTokenRequired, setAccessToken, takeLegacyAccessToken, accessHeaders } from './lib/access';
+import { isSyncAvailable, getSyncState, enableSync, disableSync, syncNow, SYNC_MIN_PASSPHRASE_LENGTH } from './lib/sync';
 
 const API_BASE = import.meta.env.DEV ? 'http://localhost:3001' : '';
 const GLOBAL_SYSTEM_PROMPT_KEY = 'pollux-global-system-prompt';
+const AUTO_LOCK_KEY = 'pollux-autolock-minutes';
+const AUTO_LOCK_OPTIONS = [5, 15, 30, 60, 0]; // minutes, 0 = never
+const KEY_ROTATION_KEY = 'pollux-key-rotation';
+const SYNC_INTERVAL_MS = 60 * 1000;
+const COLLAPSED_FOLDERS_KEY = 'pollux-collapsed-folders';
+// Options of one reply generation. rotation is set when retrying with the next key after a quota error;
+// continueFrom extends a reply that hit the token limit instead of adding a new one
+interface ResponseOptions {
+  model?: string;
+  rotation?: { profile: KeyProfile; tried: string[] };
+  continueFrom?: ChatMessage;
+  refreshedFiles?: boolean; // uploads were already redone once
+}
+
+const GENERATING_ELSEWHERE = 'В этом чате уже генерируется ответ в другой вкладке';
+const NO_CHATS: Chat[] = [];
+const NO_PENDING_GENERATIONS: PendingGeneration[] = [];
+const NO_PROMPTS: PromptTemplate[] = [];
+const NO_ASSISTANTS: Assistant[] = [];
+const NO_FOLDERS: Folder[] = [];
+const EMPTY_THREAD: ChatThread = { messages: [], siblings: {} };
+// Rows older than this were left by an earlier page load (recovery without Web Locks)
+const PAGE_LOADED_AT = new Date();
+const CONTINUE_PROMPT = 'Continue exactly where your previous answer stopped, in the same language. Do not repeat what was already written.';
+
+type PromptTarget = 'system' | 'message';
+
+// Prompt library editor; tags as typed, comma-separated
+interface PromptForm {
+  id?: string;
+  name: string;
+  tags: string;
+  content: string;
+}
+
+// A template whose {{variables}} are being filled in before use
+interface PromptFill {
+  prompt: PromptTemplate;
+  target: PromptTarget;
+  values: Record<string, string>;
+}
+
+// Assistant editor; starters as typed, one per line
+interface AssistantForm {
+  id?: string;
+  name: string;
+  icon: string;
+  model: string; // '' for the model selected at the time
+  systemPrompt: string;
+  generationConfig?: GenerationConfig;
+  safetySettings?: SafetySettings;
+  starters: string;
+}
+
+function loadCollapsedFolders(): Set<string> {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(COLLAPSED_FOLDERS_KEY) || '[]'));
+  } catch {
+    return new Set();
+  }
+}
+
+function downloadFile(content: BlobPart, filename: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
 
 function getNextUtcMidnight(): number {
   const now = new Date();
@@ -28,19 +157,36 @@ function getNextUtcMidnight(): number {
 function loadQuotaStore(): QuotaStore {
   try {
     const raw = localStorage.getItem(QUOTA_STORAGE_KEY);
-    if (!raw) return { modelQuotas: {} };
+    if (!raw) return { keyQuotas: {} };
     const parsed = JSON.parse(raw) as QuotaStore;
-    if (!parsed?.modelQuotas) return { modelQuotas: {} };
-    const normalized: Record<string, QuotaInfo> = {};
-    Object.entries(parsed.modelQuotas).forEach(([key, value]) => {
-      normalized[key] = normalizeQuota(value);
-    });
-    return { modelQuotas: normalized };
+    // Per-model store of earlier versions is dropped: it is not tied to a key
+    if (!parsed?.keyQuotas) return { keyQuotas: {} };
+    return { keyQuotas: mapQuotas(parsed.keyQuotas, normalizeQuota) };
   } catch {
-    return { modelQuotas: {} };
+    return { keyQuotas: {} };
   }
 }
 
+function mapQuotas(
+  keyQuotas: QuotaStore['keyQuotas'],
+  fn: (quota: QuotaInfo) => QuotaInfo
+): QuotaStore['keyQuotas'] {
+  const mapped: QuotaStore['keyQuotas'] = {};
+  Object.entries(keyQuotas).forEach(([profileId, modelQuotas]) => {
+    mapped[profileId] = {};
+    Object.entries(modelQuotas).forEach(([model, quota]) => {
+      mapped[profileId][model] = fn(quota);
+    });
+  });
+  return mapped;
+}
+
+// Known to be unusable until reset: model not in the plan or the limit is used up
+function isQuotaExhausted(quota: QuotaInfo | undefined): boolean {
+  if (!quota) return false;
+  return quota.limit === 0 || (quota.remaining !== null && quota.remaining <= 0);
+}
+
 function saveQuotaStore(store: QuotaStore) {
   localStorage.setItem(QUOTA_STORAGE_KEY, JSON.stringify(store));
 }
@@ -108,7 +254,8 @@ interface QuotaInfo {
 }
 
 interface QuotaStore {
-  modelQuotas: Record<string, QuotaInfo>;
+  // key profile id -> model value -> quota
+  keyQuotas: Record<string, Record<string, QuotaInfo>>;
 }
 
 const QUOTA_STORAGE_KEY = 'pollux-quotas';
@@ -118,19 +265,60 @@ export default function App() {
   
   // Auth state
   const [apiKey, setApiKey] = useState<string | null>(null);
+  const [keyRing, setKeyRing] = useState<KeyRing | null>(null);
+  const [keyRotation, setKeyRotation] = useState(() => localStorage.getItem(KEY_ROTATION_KEY) !== 'off');
+  const [newProfileName, setNewProfileName] = useState('');
+  const [newProfileKey, setNewProfileKey] = useState('');
+  const [profileStatus, setProfileStatus] = useState('');
+
+  // Hosted mode: the server holds the keys, users log in
+  const [hostedMode, setHostedMode] = useState(false);
+  const [hostedAccount, setHostedAccount] = useState<HostedAccount | null>(null);
+  const [loginForm, setLoginForm] = useState({ username: '', password: '', invite: '' });
+  const [registering, setRegistering] = useState(false);
   const [keyInput, setKeyInput] = useState('');
   const [keyError, setKeyError] = useState('');
   const [checkingKey, setCheckingKey] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [backupStatus, setBackupStatus] = useState('');
+  // Conversations read from another app's export, waiting for the user to pick which to import
+  const [externalImport, setExternalImport] = useState<{ conversations: ExternalConversation[]; selected: Set<string> } | null>(null);
+  const [externalStatus, setExternalStatus] = useState('');
+
+  // Passphrase vault
+  const [vaultMode, setVaultMode] = useState<VaultMode>(() => getVaultMode());
+  const [vaultLocked, setVaultLocked] = useState(false);
+  const [unlockInput, setUnlockInput] = useState('');
+  const [passphraseForm, setPassphraseForm] = useState({ current: '', next: '', confirm: '' });
+  const [vaultStatus, setVaultStatus] = useState('');
+  const [autoLockMinutes, setAutoLockMinutes] = useState(() => {
+    const stored = localStorage.getItem(AUTO_LOCK_KEY);
+    return stored === null ? 15 : Number(stored);
+  });
+
+  // End-to-end encrypted sync; on while its state row exists, in any tab
+  const [syncAvailable, setSyncAvailable] = useState(false);
+  // Server access token for the providers on the server's keys, when the server asks for one
+  const [accessTokenRequired, setAccessTokenRequired] = useState(false);
+  const [accessTokenInput, setAccessTokenInput] = useState('');
+  const syncState = useLiveQuery(getSyncState, []);
+  const syncEnabled = !!syncState;
+  const [syncForm, setSyncForm] = useState({ passphrase: '', confirm: '' });
+  const [syncStatus, setSyncStatus] = useState('');
   
-  // Chat state
-  const [chats, setChats] = useState<Chat[]>([]);
+  // Chat state. Chats, the active thread and replies in progress follow IndexedDB, other tabs' writes included
+  const chats = useLiveQuery(getAllChats, []) ?? NO_CHATS;
   const [currentChatId, setCurrentChatId] = useState<string | null>(null);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const { messages, siblings: branches } = useLiveQuery(
+    () => currentChatId ? getChatThread(currentChatId) : Promise.resolve(EMPTY_THREAD),
+    [currentChatId]
+  ) ?? EMPTY_THREAD;
+  const pendingGenerations = useLiveQuery(getPendingGenerations, []) ?? NO_PENDING_GENERATIONS;
   const [input, setInput] = useState('');
-  const [images, setImages] = useState<string[]>([]);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [streamingText, setStreamingText] = useState('');
+  const [lastCompaction, setLastCompaction] = useState<CompactionReport | null>(null);
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
   const [editingContent, setEditingContent] = useState('');
   
@@ -144,7 +332,7 @@ export default function App() {
   const [autoRetryMessage, setAutoRetryMessage] = useState<{
     chatId: string;
     text: string;
-    images: string[];
+    attachments: Attachment[];
     model: string;
   } | null>(null);
   
@@ -152,23 +340,126 @@ export default function App() {
   const [globalSystemPrompt, setGlobalSystemPrompt] = useState('');
   const [chatSystemPrompt, setChatSystemPrompt] = useState('');
   const [showSystemPrompt, setShowSystemPrompt] = useState(false);
+
+  // Prompt library
+  const prompts = useLiveQuery(getPrompts, []) ?? NO_PROMPTS;
+  const [showPromptLibrary, setShowPromptLibrary] = useState(false);
+  const [promptQuery, setPromptQuery] = useState('');
+  const [promptForm, setPromptForm] = useState<PromptForm | null>(null);
+  const [promptFill, setPromptFill] = useState<PromptFill | null>(null);
+  const [promptStatus, setPromptStatus] = useState('');
+
+  // Assistants, and the one the chat list is filtered by ('' for all chats)
+  const assistants = useLiveQuery(getAssistants, []) ?? NO_ASSISTANTS;
+  const [showAssistants, setShowAssistants] = useState(false);
+  const [assistantForm, setAssistantForm] = useState<AssistantForm | null>(null);
+  const [assistantStatus, setAssistantStatus] = useState('');
+  const [assistantFilter, setAssistantFilter] = useState('');
+
+  // Chat list organization. selectedChats is null outside of selection mode
+  const folders = useLiveQuery(getFolders, []) ?? NO_FOLDERS;
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(() => loadCollapsedFolders());
+  const [folderForm, setFolderForm] = useState<FolderDraft | null>(null);
+  const [folderStatus, setFolderStatus] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [showArchive, setShowArchive] = useState(false);
+  const [selectedChats, setSelectedChats] = useState<Set<string> | null>(null);
+  const [bulkTags, setBulkTags] = useState('');
+  const [renamingChat, setRenamingChat] = useState<{ id: string; title: string } | null>(null);
+  const [titleModel, setTitleModel] = useState(() => loadTitleModel());
+  // Chats being exported (the open one, or a selection) and the options last used
+  const [exportChatIds, setExportChatIds] = useState<string[] | null>(null);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(() => loadExportOptions());
+  const [exportStatus, setExportStatus] = useState('');
+
+  // Generation parameters: global defaults, per-chat overrides and the modal draft
+  const [generationDefaults, setGenerationDefaults] = useState<GenerationConfig>(() => loadGenerationDefaults());
+  const [chatGenerationConfig, setChatGenerationConfig] = useState<GenerationConfig | undefined>(undefined);
+  const [showGenerationSettings, setShowGenerationSettings] = useState(false);
+  const [generationScope, setGenerationScope] = useState<'chat' | 'defaults'>('chat');
+  const [generationDraft, setGenerationDraft] = useState<GenerationConfig>({});
+  const [safetyDefaults, setSafetyDefaults] = useState<SafetySettings>(() => loadSafetyDefaults());
+  const [chatSafetySettings, setChatSafetySettings] = useState<SafetySettings | undefined>(undefined);
+  const [safetyDraft, setSafetyDraft] = useState<SafetySettings>({});
+
+  // Token usage of all replies that reported it, and user-entered prices
+  const [usageMessages, setUsageMessages] = useState<ChatMessage[]>([]);
+  const [pricing, setPricing] = useState<Pricing>(() => loadPricing());
+  const [showUsage, setShowUsage] = useState(false);
   
+  // Search
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [highlightMessageId, setHighlightMessageId] = useState<string | null>(null);
+
   // UI state
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [dragOver, setDragOver] = useState(false);
   const [showModelDropdown, setShowModelDropdown] = useState(false);
   const dragCounter = useRef(0);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const continueTargetRef = useRef<ChatMessage | null>(null); // reply being extended, for handleStop
+  const generationRef = useRef<{ id: string; apiKey: string } | null>(null); // server generation, for handleStop
+  const recoveringRef = useRef(new Set<string>()); // pending generation ids taken care of
+  // Streaming elsewhere: in another tab, or a reply being recovered after a reload
+  const backgroundReply = pendingGenerations.find(g => g.chatId === currentChatId && g.id !== generationRef.current?.id);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const externalInputRef = useRef<HTMLInputElement>(null);
+  const promptsInputRef = useRef<HTMLInputElement>(null);
+  const assistantsInputRef = useRef<HTMLInputElement>(null);
+  const importModeRef = useRef<ImportMode>('merge');
   const modelDropdownRef = useRef<HTMLDivElement>(null);
 
   // Initialize
   useEffect(() => {
     initializeApp();
+    refreshUsage();
   }, []);
 
+  // Replies in progress that no tab may be following any more. Needs the key (or session) to reach the server.
+  // Without Web Locks a live reply in another tab can't be told apart, so only rows from earlier page loads
+  useEffect(() => {
+    if (!apiKey) return;
+    for (const pending of pendingGenerations) {
+      if (recoveringRef.current.has(pending.id)) continue;
+      if (!generationLocksSupported && pending.updatedAt >= PAGE_LOADED_AT) continue;
+      recoveringRef.current.add(pending.id);
+      recoverGeneration(apiKey, pending);
+    }
+  }, [apiKey, pendingGenerations]);
+
+  // Background sync: right away, then every SYNC_INTERVAL_MS and whenever the tab is shown again
+  useEffect(() => {
+    if (!apiKey || !syncEnabled) return;
+    const run = () => runSync(apiKey);
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') run();
+    };
+    run();
+    const timer = window.setInterval(run, SYNC_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [apiKey, syncEnabled]);
+
+  // The open chat was deleted in another tab (or on another device)
+  useEffect(() => {
+    if (!currentChatId || chats.some(c => c.id === currentChatId)) return;
+    getChat(currentChatId).then(chat => {
+      if (chat) return; // created here, not listed yet
+      if (chats.length > 0) {
+        selectChat(chats[0].id);
+      } else {
+        setCurrentChatId(null);
+      }
+    });
+  }, [chats, currentChatId]);
+
   useEffect(() => {
     const stored = localStorage.getItem(GLOBAL_SYSTEM_PROMPT_KEY);
     if (stored) {
@@ -184,11 +475,7 @@ export default function App() {
     const nextReset = getNextUtcMidnight();
     const timeout = window.setTimeout(() => {
       setQuotaStore(prev => {
-        const updated: Record<string, QuotaInfo> = {};
-        Object.entries(prev.modelQuotas).forEach(([key, value]) => {
-          updated[key] = normalizeQuota({ ...value, resetAt: nextReset });
-        });
-        return { modelQuotas: updated };
+        return { keyQuotas: mapQuotas(prev.keyQuotas, quota => normalizeQuota({ ...quota, resetAt: nextReset })) };
       });
     }, Math.max(0, nextReset - Date.now()));
     return () => window.clearTimeout(timeout);
@@ -208,7 +495,7 @@ export default function App() {
         }
         setRetryAt(null);
         setAutoRetryMessage(null);
-        sendMessage(payload.text, payload.images, payload.model);
+        sendMessage(payload.text, payload.attachments, payload.model);
       } else {
         setErrorBanner(`⏱️ Повторите через ${Math.max(1, Math.ceil((retryAt - Date.now()) / 1000))} секунд`);
       }
@@ -238,19 +525,168 @@ export default function App() {
   }, [showModelDropdown]);
 
   async function initializeApp() {
+    try {
+      await moveInlineAttachments();
+      await collectOrphanedBlobs();
+    } catch (error) {
+      console.warn('Attachment storage maintenance failed:', error);
+    }
+    isSyncAvailable(API_BASE).then(setSyncAvailable);
+    isAccessTokenRequired(API_BASE).then(setAccessTokenRequired);
+
+    if (await isHostedServer(API_BASE)) {
+      setHostedMode(true);
+      const token = loadSession();
+      const account = token ? await getAccount(API_BASE, token).catch(() => null) : null;
+      if (token && account) {
+        startHostedSession(token, account);
+      } else {
+        clearSession();
+      }
+      return;
+    }
+
     if (hasStoredKey()) {
-      const key = await decryptApiKey();
-      if (key) {
-        setApiKey(key);
-        loadChats();
-        loadModels(key);
+      if (isVaultLocked()) {
+        setVaultLocked(true);
+        return;
+      }
+      const secret = await decryptApiKey();
+      if (secret) {
+        const ring = parseKeyRing(secret);
+        await restoreKeyRing(ring);
+        selectLatestChat();
+        loadModels(getActiveProfile(ring).key);
+      }
+    }
+  }
+
+  // The session token is sent where the API key would be
+  function startHostedSession(token: string, account: HostedAccount) {
+    setHostedAccount(account);
+    setApiKey(token);
+    selectLatestChat();
+    loadModels(token);
+  }
+
+  async function handleLogin() {
+    const { username, password, invite } = loginForm;
+    if (!username.trim() || !password) return;
+
+    setCheckingKey(true);
+    setKeyError('');
+    try {
+      const session = registering
+        ? await register(API_BASE, invite.trim(), username.trim(), password)
+        : await login(API_BASE, username.trim(), password);
+      saveSession(session.token);
+      setLoginForm({ username: '', password: '', invite: '' });
+      startHostedSession(session.token, session);
+    } catch (e) {
+      setKeyError(e instanceof Error ? e.message : 'Connection error. Check your network.');
+    } finally {
+      setCheckingKey(false);
+    }
+  }
+
+  function applyKeyRing(ring: KeyRing) {
+    setKeyRing(ring);
+    setApiKey(getActiveProfile(ring).key);
+    setAccessToken(ring.accessToken ?? '');
+    setAccessTokenInput(ring.accessToken ?? '');
+  }
+
+  // A ring read from the vault; a plain-text access token left by earlier versions moves into it
+  async function restoreKeyRing(ring: KeyRing) {
+    const legacyToken = takeLegacyAccessToken();
+    if (legacyToken && !ring.accessToken) {
+      await persistKeyRing({ ...ring, accessToken: legacyToken });
+    } else {
+      applyKeyRing(ring);
+    }
+  }
+
+  // Apply in memory first so a failed save still leaves the session usable
+  async function persistKeyRing(ring: KeyRing) {
+    applyKeyRing(ring);
+    try {
+      await saveKeyRing(ring);
+    } catch (e) {
+      console.error('Key ring encryption failed:', e);
+      setProfileStatus('⚠️ Профили не сохранены: шифрование недоступно (нужен HTTPS)');
+    }
+  }
+
+  async function switchProfile(profileId: string) {
+    if (!keyRing || profileId === keyRing.activeId) return;
+    const ring = { ...keyRing, activeId: profileId };
+    await persistKeyRing(ring);
+    loadModels(getActiveProfile(ring).key);
+  }
+
+  async function handleAddProfile() {
+    const key = newProfileKey.trim();
+    if (!key || !keyRing) return;
+    if (keyRing.profiles.some(p => p.key === key)) {
+      setProfileStatus('❌ Этот ключ уже добавлен');
+      return;
+    }
+
+    setProfileStatus('⏳ Проверяем ключ...');
+    try {
+      const res = await fetch(`${API_BASE}/api/test-key`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${key}` }
+      });
+      const data = await res.json();
+      if (!data.valid) {
+        setProfileStatus(`❌ ${data.error || 'Invalid API key'}`);
+        return;
       }
+    } catch {
+      setProfileStatus('❌ Connection error. Check your network.');
+      return;
     }
+
+    const profile = createKeyProfile(newProfileName, key);
+    setNewProfileName('');
+    setNewProfileKey('');
+    setProfileStatus(`✅ Профиль «${profile.name}» добавлен`);
+    await persistKeyRing({ ...keyRing, profiles: [...keyRing.profiles, profile] });
+  }
+
+  async function handleRemoveProfile(profileId: string) {
+    if (!keyRing || keyRing.profiles.length < 2) return;
+    const profiles = keyRing.profiles.filter(p => p.id !== profileId);
+    const ring = {
+      profiles,
+      activeId: keyRing.activeId === profileId ? profiles[0].id : keyRing.activeId
+    };
+    await persistKeyRing(ring);
+    if (ring.activeId !== keyRing.activeId) loadModels(getActiveProfile(ring).key);
+
+    setQuotaStore(prev => {
+      const keyQuotas = { ...prev.keyQuotas };
+      delete keyQuotas[profileId];
+      return { keyQuotas };
+    });
+  }
+
+  // Empty input forgets the token
+  async function handleSaveAccessToken() {
+    if (!keyRing) return;
+    await persistKeyRing({ ...keyRing, accessToken: accessTokenInput.trim() || undefined });
+    if (apiKey) loadModels(apiKey, { refresh: true });
+  }
+
+  function handleKeyRotationChange(enabled: boolean) {
+    setKeyRotation(enabled);
+    localStorage.setItem(KEY_ROTATION_KEY, enabled ? 'on' : 'off');
   }
 
-  function updateQuota(modelValue: string, update: Partial<QuotaInfo>) {
+  function updateQuota(profileId: string, modelValue: string, update: Partial<QuotaInfo>) {
     setQuotaStore(prev => {
-      const existing = prev.modelQuotas[modelValue];
+      const existing = prev.keyQuotas[profileId]?.[modelValue];
       const next: QuotaInfo = normalizeQuota({
         limit: update.limit ?? existing?.limit ?? null,
         used: update.used ?? existing?.used ?? null,
@@ -260,45 +696,46 @@ export default function App() {
       });
       return {
         ...prev,
-        modelQuotas: {
-          ...prev.modelQuotas,
-          [modelValue]: next
+        keyQuotas: {
+          ...prev.keyQuotas,
+          [profileId]: {
+            ...prev.keyQuotas[profileId],
+            [modelValue]: next
+          }
         }
       };
     });
   }
 
-  function getQuota(modelValue: string): QuotaInfo | undefined {
-    const quota = quotaStore.modelQuotas[modelValue];
+  // Quota of the model for a key profile, the active one by default
+  function getQuota(modelValue: string, profileId = keyRing?.activeId ?? ''): QuotaInfo | undefined {
+    const quota = quotaStore.keyQuotas[profileId]?.[modelValue];
     return quota ? normalizeQuota(quota) : undefined;
   }
 
-  function selectFallbackModel(current: string) {
-    const fallback = models.find(model => {
-      if (model.value === current) return false;
-      const quota = getQuota(model.value);
-      if (quota?.limit === 0) return false;
-      if (quota?.remaining !== null && quota.remaining <= 0) return false;
-      return true;
-    });
-    if (fallback) {
-      setSelectedModel(fallback.value);
-      setErrorBanner(`Переключено на ${fallback.label} (осталось ${getQuota(fallback.value)?.remaining ?? '—'} запросов)`);
-    }
+  function selectFallbackModel(current: string): boolean {
+    const fallback = models.find(model => model.value !== current && !isQuotaExhausted(getQuota(model.value)));
+    if (!fallback) return false;
+    setSelectedModel(fallback.value);
+    setErrorBanner(`Переключено на ${fallback.label} (осталось ${getQuota(fallback.value)?.remaining ?? '—'} запросов)`);
+    return true;
   }
 
   function getModelLabel(value: string) {
     return models.find(model => model.value === value)?.label ?? value;
   }
 
+  // Returns the key profile to retry the same request with, if rotation applies
   function handleQuotaError(
     errorText: string,
     modelValue: string,
-    retryPayload: { text: string; images: string[] }
-  ) {
+    profileId: string,
+    retryPayload: { text: string; attachments: Attachment[] },
+    triedProfiles: string[] = []
+  ): KeyProfile | null {
     const quotaInfo = parseQuotaError(errorText);
     if (quotaInfo.limit !== null || quotaInfo.used !== null || quotaInfo.retryAfter !== null) {
-      updateQuota(modelValue, {
+      updateQuota(profileId, modelValue, {
         limit: quotaInfo.limit,
         used: quotaInfo.used,
         remaining: quotaInfo.remaining,
@@ -314,15 +751,31 @@ export default function App() {
       if (selectedModel === modelValue) {
         setSelectedModel("");
       }
-      return;
+      return null;
     }
 
     if (quotaInfo.remaining === 0) {
-      const quota = getQuota(modelValue);
+      // Дневной лимит ключа исчерпан: сначала другой ключ, потом другая модель
+      if (quotaInfo.period === 'day' && keyRotation && keyRing) {
+        // State updates are not visible within this send, so keys already tried are skipped explicitly
+        const nextProfile = getNextProfile(keyRing, profileId, profile =>
+          !triedProfiles.includes(profile.id) && !isQuotaExhausted(getQuota(modelValue, profile.id))
+        );
+        if (nextProfile) {
+          const exhausted = keyRing.profiles.find(p => p.id === profileId);
+          setErrorBanner(`🔑 Лимит ключа «${exhausted?.name ?? '—'}» исчерпан, повторяем с ключом «${nextProfile.name}»`);
+          return nextProfile;
+        }
+      }
+      if (quotaInfo.period === 'day' && selectFallbackModel(modelValue)) {
+        return null;
+      }
+
+      const quota = getQuota(modelValue, profileId);
       const resetAtValue = quota?.resetAt || quotaInfo.retryAfter;
       const resetTimeText = resetAtValue ? ` (сброс ${formatResetTime(resetAtValue)})` : ". Попробуйте позже.";
       setErrorBanner(`⏳ Лимит исчерпан (0/${quotaInfo.limit ?? "—"})${resetTimeText}`);
-      return;
+      return null;
     }
 
     if (quotaInfo.retryAfter) {
@@ -331,17 +784,18 @@ export default function App() {
         setAutoRetryMessage({
           chatId: currentChatId,
           text: retryPayload.text,
-          images: retryPayload.images,
+          attachments: retryPayload.attachments,
           model: modelValue
         });
       }
       setErrorBanner(`⏱️ Повторите через ${Math.max(1, Math.ceil((quotaInfo.retryAfter - Date.now()) / 1000))} секунд`);
-      return;
+      return null;
     }
 
     if (errorText) {
       setErrorBanner("⚠️ Превышен лимит. Попробуйте позже или другую модель.");
     }
+    return null;
   }
 
   const quotaWarningMessage = useMemo(() => {
@@ -354,21 +808,19 @@ export default function App() {
       return `⚠️ Осталось ${quota.remaining} запрос(ов) на сегодня`;
     }
     return "";
-  }, [quotaStore, selectedModel]);
+  }, [quotaStore, selectedModel, keyRing]);
 
-  async function loadChats() {
-    const allChats = await getAllChats();
-    setChats(allChats);
-    
-    if (allChats.length > 0 && !currentChatId) {
-      selectChat(allChats[0].id);
+  // Open the most recent chat when none is selected
+  async function selectLatestChat() {
+    const latest = (await getAllChats()).find(chat => chat.archivedAt === undefined);
+    if (latest && !currentChatId) {
+      selectChat(latest.id);
     }
   }
 
   async function selectChat(chatId: string) {
     setCurrentChatId(chatId);
-    const chatMessages = await getChatMessages(chatId);
-    setMessages(chatMessages);
+    setLastCompaction(null);
     
     const chat = await getChat(chatId);
     if (chat?.systemPrompt) {
@@ -376,21 +828,44 @@ export default function App() {
     } else {
       setChatSystemPrompt('');
     }
+    setChatGenerationConfig(chat?.generationConfig);
+    setChatSafetySettings(chat?.safetySettings);
+    if (chat?.model) applyChatModel(chat.model);
   }
 
-  async function handleNewChat() {
-    const chat = await createChat(undefined);
-    setChats(prev => [chat, ...prev]);
+  async function handleNewChat(assistant?: Assistant) {
+    const chat = assistant ? await startAssistantChat(assistant) : await createChat();
     setCurrentChatId(chat.id);
-    setMessages([]);
+    setShowArchive(false);
     setInput('');
-    setImages([]);
-    setChatSystemPrompt('');
+    setAttachments([]);
+    setChatSystemPrompt(chat.systemPrompt ?? '');
+    setChatGenerationConfig(chat.generationConfig);
+    setChatSafetySettings(chat.safetySettings);
+    if (chat.model) applyChatModel(chat.model);
+  }
+
+  // A chat's pinned model becomes the selection, unless the provider no longer offers it
+  function applyChatModel(model: string) {
+    if (models.length === 0 || models.some(m => m.value === model)) {
+      setSelectedModel(model);
+    } else {
+      setErrorBanner(`Модель ${model} недоступна, ответит выбранная модель`);
+    }
+  }
+
+  // In a chat with a pinned model the choice is saved to it; other chats reply with whatever is selected
+  async function selectModel(model: string) {
+    setSelectedModel(model);
+    setShowModelDropdown(false);
+    if (currentChatId && chats.find(c => c.id === currentChatId)?.model) {
+      await updateChat(currentChatId, { model });
+    }
   }
 
   async function handleDeleteChat(chatId: string) {
     await deleteChat(chatId);
-    setChats(prev => prev.filter(c => c.id !== chatId));
+    refreshUsage();
     
     if (currentChatId === chatId) {
       const remaining = chats.filter(c => c.id !== chatId);
@@ -398,20 +873,18 @@ export default function App() {
         selectChat(remaining[0].id);
       } else {
         setCurrentChatId(null);
-        setMessages([]);
       }
     }
   }
 
-  async function loadModels(key: string) {
+  async function loadModels(key: string, options: { refresh?: boolean; probe?: boolean } = {}) {
     setLoadingModels(true);
     try {
-      const viableModels = await getViableModels(key, API_BASE);
+      const viableModels = await fetchModels(key, API_BASE, options);
       if (viableModels.length > 0) {
         setModels(viableModels);
-        if (!selectedModel && viableModels[0]) {
-          setSelectedModel(viableModels[0].value);
-        }
+        // A chat opened meanwhile may have selected its model already
+        setSelectedModel(prev => prev || viableModels[0].value);
       }
     } catch (e) {
       console.error('Failed to load models:', e);
@@ -429,18 +902,24 @@ export default function App() {
     try {
       const res = await fetch(`${API_BASE}/api/test-key`, {
         method: 'POST',
-        headers: { Authorization: `Bearer ${keyInput}` }
+        headers: { Authorization: `Bearer ${keyInput}`, ...accessHeaders() }
       });
       
       const data = await res.json();
       
       if (data.valid) {
-        await encryptApiKey(keyInput);
-        setApiKey(keyInput);
-        loadChats();
+        const ring = createKeyRing(createKeyProfile('Основной', keyInput));
+        try {
+          await saveKeyRing(ring);
+        } catch (e) {
+          console.error('Key encryption failed:', e);
+          setErrorBanner('⚠️ Ключ не сохранён: шифрование недоступно (нужен HTTPS). Он будет действовать до перезагрузки страницы.');
+        }
+        applyKeyRing(ring);
+        selectLatestChat();
         
-        // Always reload models using the new logic for probing
-        loadModels(keyInput);
+        // test-key already returns the catalog
+        setModels(fromCatalog(data.models || []));
       } else {
         setKeyError(data.error || 'Invalid API key');
       }
@@ -452,21 +931,196 @@ export default function App() {
   }
 
   async function handleLogout() {
+    if (hostedMode) {
+      clearSession();
+      setHostedAccount(null);
+    }
     await clearApiKey();
+    // Sync keys are secrets as well
+    await disableSync();
+    setSyncStatus('');
     setApiKey(null);
+    setKeyRing(null);
+    setAccessToken('');
+    setAccessTokenInput('');
+    setProfileStatus('');
+    setVaultMode('device');
+    setVaultLocked(false);
+    setUnlockInput('');
+    setKeyError('');
     setKeyInput('');
-    setChats([]);
-    setMessages([]);
     setCurrentChatId(null);
     setShowSettings(false);
     setModels([]);
     setSelectedModel('');
   }
 
+  // Forget the key in memory; chats stay, the passphrase brings the key back
+  function handleLock() {
+    if (isLoading) handleStop();
+    lockVault();
+    setApiKey(null);
+    setKeyRing(null);
+    setAccessToken('');
+    setAccessTokenInput('');
+    setVaultLocked(true);
+    setShowSettings(false);
+    setKeyError('');
+  }
+
+  useIdleTimer(
+    apiKey && vaultMode === 'passphrase' && autoLockMinutes > 0 ? autoLockMinutes * 60 * 1000 : null,
+    handleLock
+  );
+
+  // Thumbnails of images and players for audio in the thread and the draft
+  const blobUrls = useBlobUrls(
+    [...messages.flatMap(m => m.attachments ?? []), ...attachments].flatMap((attachment): BlobRef[] => {
+      const kind = attachmentKind(attachment.mimeType, attachment.name);
+      if (kind === 'image') return [{ hash: attachment.hash, thumbnail: true }];
+      if (kind === 'audio') return [{ hash: attachment.hash, thumbnail: false }];
+      return [];
+    })
+  );
+
+  async function handleUnlock() {
+    if (!unlockInput) return;
+
+    setCheckingKey(true);
+    setKeyError('');
+    try {
+      const ring = parseKeyRing(await unlockVault(unlockInput));
+      setUnlockInput('');
+      setVaultLocked(false);
+      await restoreKeyRing(ring);
+      selectLatestChat();
+      if (models.length === 0) loadModels(getActiveProfile(ring).key);
+    } catch (e) {
+      setKeyError(e instanceof Error ? e.message : 'Не удалось разблокировать');
+    } finally {
+      setCheckingKey(false);
+    }
+  }
+
+  // Enable the vault, or change its passphrase when it is already on
+  async function handleSavePassphrase() {
+    const { current, next, confirm } = passphraseForm;
+    if (next.length < 8) {
+      setVaultStatus('❌ Пароль должен быть не короче 8 символов');
+      return;
+    }
+    if (next !== confirm) {
+      setVaultStatus('❌ Пароли не совпадают');
+      return;
+    }
+
+    setVaultStatus('⏳ Шифруем ключ...');
+    try {
+      if (vaultMode === 'passphrase') {
+        await changeVaultPassphrase(current, next);
+      } else if (keyRing) {
+        await enableVault(next, serializeKeyRing(keyRing));
+      }
+      setVaultMode('passphrase');
+      setPassphraseForm({ current: '', next: '', confirm: '' });
+      setVaultStatus('✅ Пароль сохранён');
+    } catch (e) {
+      setVaultStatus(`❌ ${e instanceof Error ? e.message : 'Не удалось сохранить пароль'}`);
+    }
+  }
+
+  async function handleDisableVault() {
+    setVaultStatus('⏳ Расшифровываем ключ...');
+    try {
+      await disableVault(passphraseForm.current);
+      setVaultMode('device');
+      setPassphraseForm({ current: '', next: '', confirm: '' });
+      setVaultStatus('✅ Пароль отключён, ключ привязан к этому устройству');
+    } catch (e) {
+      setVaultStatus(`❌ ${e instanceof Error ? e.message : 'Не удалось отключить пароль'}`);
+    }
+  }
+
+  // Manual runs report in the settings panel; background runs only report failures
+  async function runSync(key: string, manual = false) {
+    if (manual) setSyncStatus('⏳ Синхронизация...');
+    try {
+      const result = await syncNow(API_BASE, key);
+      if (manual) {
+        setSyncStatus(result
+          ? `✅ Получено изменений: ${result.pulled}, отправлено: ${result.pushed}`
+          : '⏳ Синхронизация уже выполняется в другой вкладке');
+      } else if (result) {
+        setSyncStatus('');
+      }
+    } catch (e) {
+      console.warn('Sync failed:', e);
+      setSyncStatus(`❌ Синхронизация не удалась: ${e instanceof Error ? e.message : 'ошибка сети'}`);
+    }
+  }
+
+  async function handleEnableSync() {
+    if (syncForm.passphrase !== syncForm.confirm) {
+      setSyncStatus('❌ Пароли не совпадают');
+      return;
+    }
+    setSyncStatus('⏳ Вычисляем ключи...');
+    try {
+      await enableSync(syncForm.passphrase, hostedAccount?.user.id);
+      setSyncForm({ passphrase: '', confirm: '' });
+      setSyncStatus('✅ Синхронизация включена');
+    } catch (e) {
+      setSyncStatus(`❌ ${e instanceof Error ? e.message : 'Не удалось включить синхронизацию'}`);
+    }
+  }
+
+  async function handleDisableSync() {
+    await disableSync();
+    setSyncStatus('✅ Синхронизация отключена, чаты на этом устройстве сохранены');
+  }
+
+  function handleAutoLockChange(minutes: number) {
+    setAutoLockMinutes(minutes);
+    localStorage.setItem(AUTO_LOCK_KEY, String(minutes));
+  }
+
+  // Fresh usage numbers for the settings panel
+  useEffect(() => {
+    if (!showSettings || !hostedMode || !apiKey) return;
+    getAccount(API_BASE, apiKey).then(account => {
+      if (account) setHostedAccount(account);
+    }).catch(() => {});
+  }, [showSettings, hostedMode, apiKey]);
+
   // Scroll to bottom
   useEffect(() => {
+    if (highlightMessageId) return;
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, streamingText]);
+  }, [messages, streamingText, backgroundReply?.content]);
+
+  // Scroll to a message opened from search results
+  useEffect(() => {
+    if (!highlightMessageId) return;
+    document.getElementById(`message-${highlightMessageId}`)?.scrollIntoView({ block: 'center' });
+    const timeout = window.setTimeout(() => setHighlightMessageId(null), 2000);
+    return () => window.clearTimeout(timeout);
+  }, [highlightMessageId, messages]);
+
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults([]);
+      return;
+    }
+    let cancelled = false;
+    const timeout = window.setTimeout(async () => {
+      const results = await searchAll(searchQuery);
+      if (!cancelled) setSearchResults(results);
+    }, 200);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeout);
+    };
+  }, [searchQuery]);
 
   // Auto-resize textarea
   useEffect(() => {
@@ -482,20 +1136,22 @@ export default function App() {
     }
   }, [models, selectedModel]);
 
-  // File handling
-  function handleFiles(files: FileList | File[]) {
-    const fileArray = Array.from(files);
-    fileArray.forEach(file => {
-      if (file.type.startsWith('image/')) {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          if (e.target?.result) {
-            setImages(prev => [...prev, e.target!.result as string]);
-          }
-        };
-        reader.readAsDataURL(file);
+  // Keeps blob clean-up (message deletion, sync) away from the draft's files
+  useEffect(() => {
+    setDraftBlobs(attachments.map(a => a.hash));
+  }, [attachments]);
+
+  // File handling: type and size are checked before a file is read
+  async function handleFiles(files: FileList | File[]) {
+    let attached = attachments;
+    for (const file of Array.from(files)) {
+      try {
+        attached = [...attached, await readAttachment(file, attached)];
+      } catch (error: any) {
+        setErrorBanner(error.message);
       }
-    });
+    }
+    setAttachments(attached);
   }
 
   function handleDragEnter(e: React.DragEvent) {
@@ -523,193 +1179,337 @@ export default function App() {
 
   function handlePaste(e: React.ClipboardEvent) {
     const items = e.clipboardData.items;
+    const files: File[] = [];
     for (const item of items) {
-      if (item.type.startsWith('image/')) {
+      if (item.kind === 'file') {
         const file = item.getAsFile();
-        if (file) handleFiles([file]);
+        if (file) files.push(file);
       }
     }
+    if (files.length) handleFiles(files);
   }
 
-  // Send message
-  async function sendMessage(text: string, attachedImages: string[], modelOverride?: string) {
-    if ((!text.trim() && attachedImages.length === 0) || isLoading || !apiKey) return;
+  // Send message. parentId places it as an alternative branch (edit) instead of continuing the active one
+  async function sendMessage(text: string, attachedFiles: Attachment[], modelOverride?: string, parentId?: string | null) {
+    if ((!text.trim() && attachedFiles.length === 0) || isLoading || !apiKey) return;
     if (!modelOverride && !selectedModel) return;
 
     let chatId = currentChatId;
+    if (chatId && await isGenerating(chatId)) {
+      setErrorBanner(GENERATING_ELSEWHERE);
+      return;
+    }
 
     if (!chatId) {
-      const chat = await createChat(chatSystemPrompt || undefined);
-      setChats(prev => [chat, ...prev]);
+      const chat = await createChat({ systemPrompt: chatSystemPrompt || undefined });
       chatId = chat.id;
       setCurrentChatId(chatId);
     }
 
     const userMessage = await addMessage({
       chatId,
+      parentId,
       role: 'user',
       content: text.trim(),
-      images: attachedImages.length > 0 ? [...attachedImages] : undefined
+      attachments: attachedFiles.length > 0 ? [...attachedFiles] : undefined
     });
 
-    setMessages(prev => [...prev, userMessage]);
     setInput('');
-    setImages([]);
+    setAttachments([]);
+
+    await generateResponse(chatId, userMessage, { model: modelOverride });
+  }
+
+  // Stores a finished reply: a new child of the user message, or text appended to the reply being continued
+  async function saveReply({ chatId, parentId, continueFrom, model, text, finish, usage }: {
+    chatId: string;
+    parentId: string;
+    continueFrom?: ChatMessage;
+    model: string;
+    text: string;
+    finish?: FinishInfo;
+    usage?: TokenUsage;
+  }) {
+    // Only abnormal stops are kept, so the UI can explain them
+    const stoppedEarly = finish && finish.reason !== 'STOP' ? finish : undefined;
+    if (continueFrom) {
+      if (text) await updateMessage(continueFrom.id, continueFrom.content + text);
+      await setMessageFinish(continueFrom.id, stoppedEarly);
+      if (usage) await setMessageUsage(continueFrom.id, addUsage(continueFrom.usage, usage));
+    } else if (text || stoppedEarly) {
+      await addMessage({
+        chatId,
+        parentId,
+        role: 'model',
+        content: text,
+        model,
+        ...(stoppedEarly ? { finish: stoppedEarly } : {}),
+        ...(usage ? { usage } : {})
+      });
+      if (text) autoTitle(chatId, model);
+    }
+    if (usage) refreshUsage();
+  }
+
+  // Background, best effort: on failure the cut-off first message stays the title
+  function autoTitle(chatId: string, replyModel: string) {
+    if (titleModel === 'off' || !apiKey) return;
+    const model = titleModel === 'chat' ? replyModel : titleModel;
+    generateChatTitle(chatId, { apiKey, apiBase: API_BASE, model, provider: models.find(m => m.value === model)?.provider })
+      .catch(error => console.warn('Title generation failed:', error));
+  }
+
+  function handleTitleModelChange(setting: string) {
+    setTitleModel(setting);
+    saveTitleModel(setting);
+  }
+
+  async function commitRename() {
+    if (!renamingChat) return;
+    const { id, title } = renamingChat;
+    setRenamingChat(null);
+    if (title.trim() && title.trim() !== chats.find(c => c.id === id)?.title) await renameChat(id, title);
+  }
+
+  // Takes over a reply left unfinished by a reload or a closed tab: resumes it from the server's buffer,
+  // or keeps what had arrived as an interrupted reply. Waits until no tab generates in that chat;
+  // a tab that finishes removes its row before releasing the lock, so nothing is left to do then
+  async function recoverGeneration(key: string, { id, chatId }: PendingGeneration) {
+    await withGenerationLock(chatId, async () => {
+      const pending = await getPendingGeneration(id);
+      if (!pending) return;
+
+      const mirror = mirrorGeneration(pending);
+      let text = pending.content;
+      let finish: FinishInfo | undefined;
+      let usage: TokenUsage | undefined;
+      try {
+        await followGeneration(null, {
+          apiKey: key,
+          apiBase: API_BASE,
+          generationId: pending.id,
+          lastEventId: pending.lastEventId,
+          onEvent: (event, eventId) => {
+            if (event.error) throw new Error(event.error);
+            if (event.text) text += event.text;
+            if (event.finish) finish = event.finish;
+            if (event.usage) usage = event.usage;
+            if (eventId) mirror.update(text, eventId);
+          }
+        });
+      } catch (error) {
+        console.warn('Reply could not be resumed:', error);
+        finish = { reason: 'INTERRUPTED' };
+      }
+
+      // The chat or the continued reply may have been deleted in the meantime
+      const chat = await getChat(pending.chatId);
+      const continueFrom = pending.continueFromId ? await getMessage(pending.continueFromId) : undefined;
+      if (chat && (!pending.continueFromId || continueFrom)) {
+        await saveReply({ ...pending, continueFrom, text, finish, usage });
+      }
+      await mirror.remove();
+    }, { wait: true });
+  }
+
+  // One generation per chat across tabs
+  async function generateResponse(chatId: string, userMessage: ChatMessage, options: ResponseOptions = {}) {
+    const started = await withGenerationLock(chatId, () => streamResponse(chatId, userMessage, options));
+    if (!started) setErrorBanner(GENERATING_ELSEWHERE);
+  }
+
+  // Stream a model reply to userMessage; the reply becomes a new child of it
+  async function streamResponse(chatId: string, userMessage: ChatMessage, options: ResponseOptions = {}) {
+    const { model: modelOverride, rotation, continueFrom, refreshedFiles } = options;
+    if (isLoading || !apiKey) return;
+    if (!modelOverride && !selectedModel) return;
+
+    const text = continueFrom ? CONTINUE_PROMPT : userMessage.content;
+    const attachedFiles = continueFrom ? [] : userMessage.attachments || [];
+    const profile = rotation?.profile ?? (keyRing ? getActiveProfile(keyRing) : null);
+    const keyToUse = profile?.key ?? apiKey;
+    const tried = [...(rotation?.tried ?? []), profile?.id ?? ''];
+    const modelToUse = modelOverride || selectedModel;
+    let rotateTo: KeyProfile | null = null;
+    let reuploadFiles = false;
+    let fullText = '';
+    let finish: FinishInfo | undefined;
+    let usage: TokenUsage | undefined;
+    let mirror: ReturnType<typeof mirrorGeneration> | undefined;
+
     setIsLoading(true);
     setStreamingText('');
-    setErrorBanner('');
-
-    loadChats();
+    if (!rotation) setErrorBanner('');
 
     abortControllerRef.current = new AbortController();
+    continueTargetRef.current = continueFrom ?? null;
 
     try {
       const chat = await getChat(chatId);
-      const historyMessages = await getChatMessages(chatId);
-      const modelToUse = modelOverride || selectedModel;
+      const branch = await getChatMessages(chatId);
+      // A continuation sends the cut-off reply as the last model turn
+      const historyEnd = continueFrom
+        ? branch.findIndex(m => m.id === continueFrom.id) + 1
+        : branch.findIndex(m => m.id === userMessage.id);
+      const historyMessages = historyEnd > 0 ? branch.slice(0, historyEnd) : historyEnd === 0 ? [] : branch;
       const chatPrompt = chat?.systemPrompt ?? chatSystemPrompt;
       const combinedPrompt = [globalSystemPrompt, chatPrompt]
         .map(prompt => prompt?.trim() ?? '')
         .filter(Boolean)
         .join('\n\n');
 
+      const contextOptions = {
+        apiKey: keyToUse,
+        apiBase: API_BASE,
+        model: modelToUse,
+        provider: models.find(m => m.value === modelToUse)?.provider,
+        inputTokens: models.find(m => m.value === modelToUse)?.inputTokens,
+        history: historyMessages,
+        newMessage: { text: text.trim(), attachments: attachedFiles },
+        systemPrompt: combinedPrompt,
+        generationConfig: fitToModel(
+          resolveGenerationConfig(generationDefaults, chat?.generationConfig),
+          models.find(m => m.value === modelToUse)
+        ),
+        safetySettings: resolveSafetySettings(safetyDefaults, chat?.safetySettings),
+        // Only Gemini keeps uploaded files
+        uploadFiles: (models.find(m => m.value === modelToUse)?.provider ?? 'gemini') === 'gemini'
+      };
+      let payload: ChatPayload;
+      try {
+        const fitted = await buildChatPayload(contextOptions);
+        payload = fitted.payload;
+        setLastCompaction(fitted.report);
+      } catch (e) {
+        console.warn('Token budgeting failed, sending full history:', e);
+        payload = (await buildChatPayload({ ...contextOptions, inputTokens: undefined })).payload;
+      }
+
       const res = await fetch(`${API_BASE}/api/chat`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${apiKey}`
+          Authorization: `Bearer ${keyToUse}`,
+          ...accessHeaders()
         },
-        body: JSON.stringify({
-          model: modelToUse,
-          messages: historyMessages.map(m => ({
-            role: m.role,
-            content: m.content,
-            images: m.images
-          })),
-          newMessage: {
-            text: text.trim(),
-            images: attachedImages
-          },
-          systemPrompt: combinedPrompt || undefined
-        }),
+        body: JSON.stringify(payload),
         signal: abortControllerRef.current.signal
       });
 
       if (!res.ok) {
         const errorText = await res.text();
         if (res.status === 429) {
-          handleQuotaError(errorText, modelToUse, { text: text.trim(), images: attachedImages });
+          rotateTo = handleQuotaError(errorText, modelToUse, profile?.id ?? '', { text: text.trim(), attachments: attachedFiles }, tried);
           throw new Error('quota_error');
         }
+        if (res.status === 401 && hostedMode) {
+          await handleLogout();
+          setKeyError('Сессия истекла, войдите снова');
+          throw new Error('session_expired');
+        }
+        // Cached uploads expired early or belong to another key: upload again and repeat once
+        if (res.status === 409 && !refreshedFiles && errorText.includes('file_unavailable')) {
+          const files = [...historyMessages.flatMap(m => m.attachments ?? []), ...attachedFiles];
+          await forgetRemoteFiles(files.map(file => file.hash));
+          reuploadFiles = true;
+          throw new Error('file_retry');
+        }
         throw new Error(errorText);
       }
 
-      const reader = res.body?.getReader();
-      const decoder = new TextDecoder();
-      let fullText = '';
-      let buffer = ''; // Buffer for incomplete lines
-
-      while (reader) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        // Decode chunk and add to buffer
-        const chunk = decoder.decode(value, { stream: true });
-        buffer += chunk;
-        
-        // Split by newlines but keep the last incomplete line in buffer
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || ''; // Keep last incomplete line
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6).trim();
-            if (data === '[DONE]') break;
-            if (!data) continue; // Skip empty data
-
-            try {
-              const parsed = JSON.parse(data);
-              if (parsed.error) {
-                if (parsed.error.includes('429') || parsed.error.includes('Quota')) {
-                  handleQuotaError(parsed.error, modelToUse, { text: text.trim(), images: attachedImages });
-                  throw new Error('quota_error');
-                }
-                throw new Error(parsed.error);
-              }
-              if (parsed.text) {
-                fullText += parsed.text;
-                setStreamingText(fullText);
-              }
-            } catch (parseError) {
-              // Only log if it's not a simple parse error
-              if (parseError instanceof Error && parseError.message !== 'quota_error') {
-                console.warn('Parse error for line:', line, parseError);
-              } else if (parseError instanceof Error && parseError.message === 'quota_error') {
-                throw parseError;
-              }
-            }
+      await followGeneration(res, {
+        apiKey: keyToUse,
+        apiBase: API_BASE,
+        signal: abortControllerRef.current.signal,
+        onEvent: (event, eventId) => {
+          if (event.generation) {
+            generationRef.current = { id: event.generation, apiKey: keyToUse };
+            mirror = mirrorGeneration({
+              id: event.generation,
+              chatId,
+              parentId: userMessage.id,
+              continueFromId: continueFrom?.id,
+              model: modelToUse
+            });
+            mirror.update('', '0');
+            return;
           }
-        }
-      }
-      
-      // Process any remaining data in buffer
-      if (buffer.trim()) {
-        const line = buffer.trim();
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6).trim();
-          if (data && data !== '[DONE]') {
-            try {
-              const parsed = JSON.parse(data);
-              if (parsed.text) {
-                fullText += parsed.text;
-                setStreamingText(fullText);
-              }
-            } catch {
-              // Ignore final parse errors
+          if (event.error) {
+            if (event.error.includes('429') || event.error.includes('Quota')) {
+              rotateTo = handleQuotaError(event.error, modelToUse, profile?.id ?? '', { text: text.trim(), attachments: attachedFiles }, tried);
+              throw new Error('quota_error');
             }
+            throw new Error(event.error);
           }
+          if (event.text) {
+            fullText += event.text;
+            setStreamingText(fullText);
+          }
+          if (event.finish) finish = event.finish;
+          if (event.usage) usage = event.usage;
+          if (eventId) mirror?.update(fullText, eventId);
         }
-      }
+      });
 
-      if (fullText) {
-        const assistantMessage = await addMessage({
-          chatId,
-          role: 'model',
-          content: fullText
-        });
-        setMessages(prev => [...prev, assistantMessage]);
-      }
+      await saveReply({ chatId, parentId: userMessage.id, continueFrom, model: modelToUse, text: fullText, finish, usage });
     } catch (error: any) {
-      if (error.name !== 'AbortError' && error.message !== 'quota_error') {
-        const errorMessage = await addMessage({
+      const handled = error.name === 'AbortError' || ['quota_error', 'session_expired', 'file_retry'].includes(error.message);
+      if (handled) {
+        // Stopped by the user (handleStop saves the text) or retried below
+      } else if (fullText) {
+        // Keep what arrived; an interrupted reply can be continued
+        await saveReply({
+          chatId, parentId: userMessage.id, continueFrom, model: modelToUse, text: fullText, finish: { reason: 'INTERRUPTED' }, usage
+        });
+        setErrorBanner(`Ошибка: ${error.message}`);
+      } else if (continueFrom) {
+        setErrorBanner(`Ошибка: ${error.message}`);
+      } else {
+        await addMessage({
           chatId,
+          parentId: userMessage.id,
           role: 'model',
           content: `Ошибка: ${error.message}`
         });
-        setMessages(prev => [...prev, errorMessage]);
       }
     } finally {
+      await mirror?.remove();
       setIsLoading(false);
       setStreamingText('');
       abortControllerRef.current = null;
+      continueTargetRef.current = null;
+      generationRef.current = null;
     }
-  }
 
-  async function handleSend() {
-    await sendMessage(input.trim(), images);
-  }
+    if (reuploadFiles) {
+      await streamResponse(chatId, userMessage, { ...options, model: modelToUse, refreshedFiles: true });
+      return;
+    }
+    if (rotateTo && keyRing) {
+      await persistKeyRing({ ...keyRing, activeId: rotateTo.id });
+      await streamResponse(chatId, userMessage, { model: modelToUse, rotation: { profile: rotateTo, tried }, continueFrom });
+    }
+  }
+
+  async function handleSend() {
+    await sendMessage(input.trim(), attachments);
+  }
 
   function handleStop() {
     abortControllerRef.current?.abort();
+    if (generationRef.current) cancelGeneration(generationRef.current.apiKey, API_BASE, generationRef.current.id);
     setIsLoading(false);
     if (streamingText.trim() && currentChatId) {
-      addMessage({
-        chatId: currentChatId,
-        role: 'model',
-        content: streamingText
-      }).then(message => {
-        setMessages(prev => [...prev, message]);
-      });
+      const target = continueTargetRef.current;
+      if (target) {
+        updateMessage(target.id, target.content + streamingText);
+      } else {
+        addMessage({
+          chatId: currentChatId,
+          role: 'model',
+          content: streamingText
+        });
+      }
     }
     setStreamingText('');
   }
@@ -721,54 +1521,183 @@ export default function App() {
 
   async function handleSaveEdit() {
     if (!editingMessageId || !currentChatId) return;
-    
-    // Find the message and delete everything after it
-    await deleteMessagesAfter(currentChatId, editingMessageId);
-    
-    // Reload and resend with edited content
-    const updatedMessages = await getChatMessages(currentChatId);
-    setMessages(updatedMessages.slice(0, -1)); // Remove the edited message too
+    const original = messages.find(m => m.id === editingMessageId);
+    if (!original) return;
 
-    await sendMessage(editingContent, []);
     setEditingMessageId(null);
     setEditingContent('');
+
+    // The edited text becomes a sibling branch of the original message
+    await sendMessage(editingContent, original.attachments || [], undefined, original.parentId ?? null);
   }
 
   async function handleRetryMessage(messageId: string) {
     if (!currentChatId) return;
-    const currentMessages = await getChatMessages(currentChatId);
-    const targetIndex = currentMessages.findIndex(m => m.id === messageId);
+    const targetIndex = messages.findIndex(m => m.id === messageId);
     if (targetIndex <= 0) return;
-    const previousUser = [...currentMessages]
+    const previousUser = messages
       .slice(0, targetIndex)
       .reverse()
       .find(m => m.role === 'user');
     if (!previousUser) return;
 
-    await deleteMessagesAfter(currentChatId, previousUser.id);
-    const refreshed = await getChatMessages(currentChatId);
-    setMessages(refreshed);
-    await sendMessage(previousUser.content, previousUser.images || []);
+    // Keep the old answer as a branch: cut the active branch at the question and answer it again
+    await setCurrentLeaf(currentChatId, previousUser.id);
+    await generateResponse(currentChatId, previousUser);
+  }
+
+  async function refreshUsage() {
+    setUsageMessages(await getUsageMessages());
+  }
+
+  function handlePriceChange(model: string, field: 'input' | 'output', value: string) {
+    const next = { ...pricing };
+    const price = { input: next[model]?.input ?? 0, output: next[model]?.output ?? 0, [field]: Number(value) || 0 };
+    if (price.input || price.output) next[model] = price;
+    else delete next[model];
+    setPricing(next);
+    savePricing(next);
+  }
+
+  async function handleContinueMessage(message: ChatMessage) {
+    if (!currentChatId || !message.parentId) return;
+    const userMessage = messages.find(m => m.id === message.parentId);
+    if (!userMessage) return;
+    await generateResponse(currentChatId, userMessage, { continueFrom: message });
+  }
+
+  async function handleSwitchBranch(messageId: string, offset: number) {
+    if (!currentChatId || isLoading) return;
+    const siblingIds = branches[messageId] || [];
+    const targetId = siblingIds[siblingIds.indexOf(messageId) + offset];
+    if (!targetId) return;
+    await switchBranch(currentChatId, targetId);
+  }
+
+  async function openSearchResult(result: SearchResult) {
+    if (result.messageId) {
+      // The message may live on an inactive branch
+      await switchBranch(result.chatId, result.messageId);
+      setHighlightMessageId(result.messageId);
+    }
+    await selectChat(result.chatId);
   }
 
   async function handleDeleteMessage(messageId: string) {
     if (!currentChatId) return;
     await deleteMessage(messageId);
-    const refreshed = await getChatMessages(currentChatId);
-    setMessages(refreshed);
   }
 
-  async function handleExport() {
-    if (!currentChatId) return;
-    
-    const markdown = await exportChat(currentChatId);
-    const blob = new Blob([markdown], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `chat-${currentChatId.slice(0, 8)}.md`;
-    a.click();
-    URL.revokeObjectURL(url);
+  function handleExport() {
+    if (currentChatId) setExportChatIds([currentChatId]);
+  }
+
+  async function handleDownloadExport() {
+    if (!exportChatIds) return;
+    saveExportOptions(exportOptions);
+    setExportStatus('Подготовка файла…');
+    try {
+      const { blob, filename } = await exportChats(exportChatIds, exportOptions);
+      downloadFile(blob, filename, blob.type);
+      setExportChatIds(null);
+      setExportStatus('');
+    } catch (e: any) {
+      setExportStatus(`Ошибка экспорта: ${e.message}`);
+    }
+  }
+
+  async function handleExportBackup() {
+    const backup = await exportBackup(globalSystemPrompt.trim());
+    downloadFile(JSON.stringify(backup), `pollux-backup-${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
+    setBackupStatus(
+      `Сохранено: ${backup.chats.length} чатов, ${backup.messages.length} сообщений, ${backup.prompts.length} шаблонов, ` +
+      `${backup.assistants.length} ассистентов, ${backup.folders.length} папок`
+    );
+  }
+
+  function pickBackupFile(mode: ImportMode) {
+    importModeRef.current = mode;
+    backupInputRef.current?.click();
+  }
+
+  async function handleImportBackup(file: File) {
+    const mode = importModeRef.current;
+    try {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(await file.text());
+      } catch {
+        throw new Error('Файл не является корректным JSON');
+      }
+      const backup = await parseBackup(raw);
+      if (mode === 'replace' && !window.confirm('Все текущие чаты будут удалены и заменены чатами из резервной копии. Продолжить?')) {
+        return;
+      }
+
+      const summary = await importBackup(backup, mode);
+      if (summary.globalSystemPrompt && (mode === 'replace' || !globalSystemPrompt.trim())) {
+        setGlobalSystemPrompt(summary.globalSystemPrompt);
+        localStorage.setItem(GLOBAL_SYSTEM_PROMPT_KEY, summary.globalSystemPrompt);
+      }
+
+      const skipped = summary.chatsSkipped + summary.messagesSkipped;
+      setBackupStatus(
+        `Импортировано: ${summary.chatsAdded} чатов, ${summary.messagesAdded} сообщений, ${summary.promptsAdded} шаблонов, ` +
+        `${summary.assistantsAdded} ассистентов, ${summary.foldersAdded} папок` +
+        (skipped ? ` (пропущено дубликатов: ${skipped})` : '')
+      );
+
+      const allChats = await getAllChats();
+      if (!allChats.some(c => c.id === currentChatId)) {
+        if (allChats.length > 0) {
+          await selectChat(allChats[0].id);
+        } else {
+          setCurrentChatId(null);
+        }
+      }
+    } catch (e: any) {
+      setBackupStatus(`Ошибка импорта: ${e.message}`);
+    }
+  }
+
+  async function handleReadExport(files: File[]) {
+    setExternalStatus('Чтение файлов…');
+    try {
+      const conversations = await readExportFiles(files);
+      if (!conversations.length) {
+        setExternalStatus('В файлах нет переписок');
+        return;
+      }
+      setExternalStatus('');
+      setExternalImport({ conversations, selected: new Set(conversations.filter(c => !c.imported).map(c => c.id)) });
+    } catch (e: any) {
+      setExternalStatus(`Ошибка импорта: ${e.message}`);
+    }
+  }
+
+  function toggleExternalSelection(ids: string[], selected: boolean) {
+    if (!externalImport) return;
+    const next = new Set(externalImport.selected);
+    for (const id of ids) {
+      if (selected) next.add(id); else next.delete(id);
+    }
+    setExternalImport({ ...externalImport, selected: next });
+  }
+
+  async function handleImportConversations() {
+    if (!externalImport) return;
+    const picked = externalImport.conversations.filter(c => externalImport.selected.has(c.id));
+    setExternalImport(null);
+    setExternalStatus('Импорт…');
+    try {
+      const summary = await importConversations(picked);
+      setExternalStatus(
+        `Импортировано: ${summary.chats} чатов, ${summary.messages} сообщений, ${summary.files} файлов` +
+        (summary.filesSkipped ? ` (не поддерживается или слишком велико: ${summary.filesSkipped})` : '')
+      );
+    } catch (e: any) {
+      setExternalStatus(`Ошибка импорта: ${e.message}`);
+    }
   }
 
   async function handleSaveSystemPrompt() {
@@ -783,47 +1712,1614 @@ export default function App() {
     setShowSystemPrompt(false);
   }
 
-  function copyToClipboard(text: string) {
-    navigator.clipboard.writeText(text);
-  }
+  function closePromptLibrary() {
+    setShowPromptLibrary(false);
+    setPromptForm(null);
+    setPromptFill(null);
+    setPromptStatus('');
+  }
+
+  // Templates with variables go through the form first
+  function handleUsePrompt(prompt: PromptTemplate, target: PromptTarget) {
+    const variables = templateVariables(prompt.content);
+    if (variables.length === 0) {
+      applyPrompt(prompt.content, target);
+      return;
+    }
+    setPromptFill({ prompt, target, values: Object.fromEntries(variables.map(name => [name, ''])) });
+  }
+
+  // A system prompt opens in its editor to be saved for the chat; a message lands in the input
+  function applyPrompt(text: string, target: PromptTarget) {
+    closePromptLibrary();
+    if (target === 'system') {
+      setChatSystemPrompt(text);
+      setShowSystemPrompt(true);
+    } else {
+      setInput(prev => (prev.trim() ? `${prev}\n\n${text}` : text));
+      textareaRef.current?.focus();
+    }
+  }
+
+  async function handleSavePrompt() {
+    if (!promptForm) return;
+    try {
+      await savePrompt({
+        id: promptForm.id,
+        name: promptForm.name,
+        content: promptForm.content,
+        tags: parseTags(promptForm.tags)
+      });
+      setPromptForm(null);
+      setPromptStatus('');
+    } catch (e) {
+      setPromptStatus(`❌ ${e instanceof Error ? e.message : 'Не удалось сохранить шаблон'}`);
+    }
+  }
+
+  async function handleDeletePrompt(prompt: PromptTemplate) {
+    if (!window.confirm(`Удалить шаблон «${prompt.name}»?`)) return;
+    await deletePrompt(prompt.id);
+  }
+
+  async function handleExportPrompts() {
+    const library = await exportPromptLibrary();
+    downloadFile(JSON.stringify(library, null, 2), `pollux-prompts-${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
+    setPromptStatus(`Сохранено шаблонов: ${library.prompts.length}`);
+  }
+
+  async function handleImportPrompts(file: File) {
+    try {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(await file.text());
+      } catch {
+        throw new Error('Файл не является корректным JSON');
+      }
+      const summary = await importPrompts(parsePromptLibrary(raw));
+      setPromptStatus(
+        `Импортировано: ${summary.added} новых, ${summary.updated} обновлено` +
+        (summary.skipped ? ` (пропущено: ${summary.skipped})` : '')
+      );
+    } catch (e) {
+      setPromptStatus(`Ошибка импорта: ${e instanceof Error ? e.message : 'неизвестная ошибка'}`);
+    }
+  }
+
+  function toggleFolder(id: string) {
+    const next = new Set(collapsedFolders);
+    if (!next.delete(id)) next.add(id);
+    setCollapsedFolders(next);
+    localStorage.setItem(COLLAPSED_FOLDERS_KEY, JSON.stringify([...next]));
+  }
+
+  async function handleSaveFolder() {
+    if (!folderForm) return;
+    try {
+      await saveFolder(folderForm);
+      setFolderForm(null);
+      setFolderStatus('');
+    } catch (e) {
+      setFolderStatus(`❌ ${e instanceof Error ? e.message : 'Не удалось сохранить папку'}`);
+    }
+  }
+
+  async function handleDeleteFolder(folder: Folder) {
+    if (!window.confirm(`Удалить папку «${folder.name}»? Чаты и вложенные папки переместятся на уровень выше`)) return;
+    await deleteFolder(folder.id);
+  }
+
+  function toggleChatSelection(chatId: string) {
+    if (!selectedChats) return;
+    const next = new Set(selectedChats);
+    if (!next.delete(chatId)) next.add(chatId);
+    setSelectedChats(next);
+  }
+
+  function exitSelection() {
+    setSelectedChats(null);
+    setBulkTags('');
+  }
+
+  async function handleAddSelectedTags() {
+    if (!selectedChats || !bulkTags.trim()) return;
+    await addChatTags([...selectedChats], bulkTags);
+    setBulkTags('');
+  }
+
+  function handleExportSelected() {
+    if (!selectedChats?.size) return;
+    // In list order rather than the order they were picked
+    setExportChatIds(chats.filter(chat => selectedChats.has(chat.id)).map(chat => chat.id));
+  }
+
+  // The open chat, if among them, is replaced by the effect that watches for deleted chats
+  async function handleDeleteSelected() {
+    if (!selectedChats?.size) return;
+    if (!window.confirm(`Удалить выбранные чаты (${selectedChats.size})? Это действие нельзя отменить`)) return;
+    await deleteChats([...selectedChats]);
+    refreshUsage();
+    exitSelection();
+  }
+
+  function closeAssistants() {
+    setShowAssistants(false);
+    setAssistantForm(null);
+    setAssistantStatus('');
+  }
+
+  function editAssistant(assistant: Assistant) {
+    setAssistantForm({
+      id: assistant.id,
+      name: assistant.name,
+      icon: assistant.icon,
+      model: assistant.model ?? '',
+      systemPrompt: assistant.systemPrompt ?? '',
+      generationConfig: assistant.generationConfig,
+      safetySettings: assistant.safetySettings,
+      starters: assistant.starters.join('\n')
+    });
+  }
+
+  // The open chat's setup, to save it as an assistant or start one from it
+  function currentChatSetup(): Pick<AssistantForm, 'model' | 'systemPrompt' | 'generationConfig' | 'safetySettings'> {
+    return {
+      model: selectedModel,
+      systemPrompt: chatSystemPrompt,
+      generationConfig: chatGenerationConfig,
+      safetySettings: chatSafetySettings
+    };
+  }
+
+  async function handleSaveAssistant() {
+    if (!assistantForm) return;
+    try {
+      await saveAssistant({ ...assistantForm, starters: parseStarters(assistantForm.starters) });
+      setAssistantForm(null);
+      setAssistantStatus('');
+    } catch (e) {
+      setAssistantStatus(`❌ ${e instanceof Error ? e.message : 'Не удалось сохранить ассистента'}`);
+    }
+  }
+
+  async function handleDeleteAssistant(assistant: Assistant) {
+    if (!window.confirm(`Удалить ассистента «${assistant.name}»? Начатые с ним чаты сохранят его настройки`)) return;
+    await deleteAssistant(assistant.id);
+    if (assistantFilter === assistant.id) setAssistantFilter('');
+  }
+
+  async function handleStartAssistantChat(assistant: Assistant) {
+    closeAssistants();
+    await handleNewChat(assistant);
+  }
+
+  async function handleExportAssistants() {
+    const library = await exportAssistantLibrary();
+    downloadFile(JSON.stringify(library, null, 2), `pollux-assistants-${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
+    setAssistantStatus(`Сохранено ассистентов: ${library.assistants.length}`);
+  }
+
+  async function handleImportAssistants(file: File) {
+    try {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(await file.text());
+      } catch {
+        throw new Error('Файл не является корректным JSON');
+      }
+      const summary = await importAssistants(parseAssistantLibrary(raw));
+      setAssistantStatus(
+        `Импортировано: ${summary.added} новых, ${summary.updated} обновлено` +
+        (summary.skipped ? ` (пропущено: ${summary.skipped})` : '')
+      );
+    } catch (e) {
+      setAssistantStatus(`Ошибка импорта: ${e instanceof Error ? e.message : 'неизвестная ошибка'}`);
+    }
+  }
+
+  function openGenerationSettings() {
+    const scope = currentChatId ? 'chat' : 'defaults';
+    changeGenerationScope(scope);
+    setShowGenerationSettings(true);
+  }
+
+  function changeGenerationScope(scope: 'chat' | 'defaults') {
+    setGenerationScope(scope);
+    setGenerationDraft(scope === 'chat' ? chatGenerationConfig ?? {} : generationDefaults);
+    setSafetyDraft(scope === 'chat' ? chatSafetySettings ?? {} : safetyDefaults);
+  }
+
+  async function handleSaveGenerationSettings() {
+    const config = compactConfig(generationDraft);
+    const model = models.find(m => m.value === selectedModel) || models[0];
+    if (validateGenerationConfig(config, model).length) return;
+
+    if (generationScope === 'chat' && currentChatId) {
+      const chatConfig = isEmptyConfig(config) ? undefined : config;
+      const chatSafety = Object.keys(safetyDraft).length ? safetyDraft : undefined;
+      await updateChat(currentChatId, { generationConfig: chatConfig, safetySettings: chatSafety });
+      setChatGenerationConfig(chatConfig);
+      setChatSafetySettings(chatSafety);
+    } else {
+      saveGenerationDefaults(config);
+      setGenerationDefaults(config);
+      saveSafetyDefaults(safetyDraft);
+      setSafetyDefaults(safetyDraft);
+    }
+    setShowGenerationSettings(false);
+  }
+
+  function copyToClipboard(text: string) {
+    navigator.clipboard.writeText(text);
+  }
+
+  function formatResetTime(resetAt: number) {
+    const now = Date.now();
+    const diff = resetAt - now;
+    if (diff <= 0) return 'сейчас';
+    
+    if (diff < 3600000) { // < 1 hour
+      return `через ${Math.ceil(diff / 60000)} мин`;
+    }
+    
+    const date = new Date(resetAt);
+    return `в ${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+  }
+
+  function getQuotaBadge(model: Model) {
+    const quota = getQuota(model.value);
+    if (!quota) {
+      return null;
+    }
+    
+    if (quota.limit === 0) {
+      return { text: 'Недоступна', color: 'bg-zinc-200 text-zinc-500' };
+    }
+    
+    if (quota.remaining === 0) {
+      const resetText = quota.resetAt ? ` (сброс ${formatResetTime(quota.resetAt)})` : '';
+      return { text: `Лимит исчерпан${resetText}`, color: 'bg-red-500 text-white' };
+    }
+
+    if (quota.limit !== null && quota.remaining !== null) {
+      const ratio = quota.remaining / quota.limit;
+      if (ratio <= 0.2) {
+        return { text: `${quota.remaining}/${quota.limit} осталось`, color: 'bg-orange-500 text-white' };
+      }
+      return { text: `${quota.remaining}/${quota.limit}`, color: 'bg-green-500 text-white' };
+    }
+    
+    return null;
+  }
+
+  function getCompactionNote(message: ChatMessage, index: number): string | null {
+    if (index <= lastSummaryIndex) return 'Сжато в краткое содержание';
+    if (lastCompaction?.dropped.includes(message.id)) return 'Не отправлено модели: превышен лимит контекста';
+    if (lastCompaction?.strippedAttachments.includes(message.id)) return 'Вложения не отправлены: превышен лимит контекста';
+    return null;
+  }
+
+  // Modal for sampling parameters of the current chat or the global defaults
+  function renderGenerationSettings() {
+    const draft = compactConfig(generationDraft);
+    const errors = validateGenerationConfig(draft, currentModel);
+    const inherited = generationScope === 'chat' ? generationDefaults : {};
+    const preset = matchPreset(draft);
+    const numberField = (key: 'temperature' | 'topP' | 'topK' | 'maxOutputTokens', label: string, step: number, fallback: string) => (
+      <div>
+        <label className="block text-xs text-zinc-500 mb-1">{label}</label>
+        <input
+          type="number"
+          step={step}
+          min={0}
+          value={generationDraft[key] ?? ''}
+          onChange={(e) => {
+            const value = e.target.value;
+            setGenerationDraft(d => ({ ...d, [key]: value === '' ? undefined : Number(value) }));
+          }}
+          placeholder={inherited[key] !== undefined ? String(inherited[key]) : fallback}
+          className={`w-full rounded-lg px-3 py-2 text-sm ${theme === 'dark' ? 'bg-zinc-700 text-white' : 'bg-zinc-100 text-zinc-900'}`}
+        />
+      </div>
+    );
+    return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+        <div className={`w-full max-w-lg rounded-2xl p-6 ${theme === 'dark' ? 'bg-zinc-800' : 'bg-white'}`}>
+          <h2 className="text-lg font-semibold mb-4">Параметры генерации</h2>
+          <div className="flex gap-2 mb-4">
+            {(['chat', 'defaults'] as const).map(scope => (
+              <button
+                key={scope}
+                onClick={() => changeGenerationScope(scope)}
+                disabled={scope === 'chat' && !currentChatId}
+                className={`flex-1 px-3 py-2 rounded-lg text-sm border disabled:opacity-50 ${
+                  generationScope === scope
+                    ? 'border-blue-500 text-blue-500'
+                    : theme === 'dark' ? 'border-zinc-700 hover:bg-zinc-700' : 'border-zinc-200 hover:bg-zinc-100'
+                }`}
+              >
+                {scope === 'chat' ? 'Этот чат' : 'По умолчанию для всех'}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2 mb-4">
+            {GENERATION_PRESETS.map(p => (
+              <button
+                key={p.id}
+                onClick={() => setGenerationDraft(d => ({ ...d, ...p.config }))}
+                className={`flex-1 px-3 py-1.5 rounded-full text-xs border ${
+                  preset?.id === p.id
+                    ? 'border-blue-500 text-blue-500'
+                    : theme === 'dark' ? 'border-zinc-700 hover:bg-zinc-700' : 'border-zinc-200 hover:bg-zinc-100'
+                }`}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {numberField('temperature', 'Температура (0–2)', 0.1, 'модели')}
+            {numberField('topP', 'Top P (0–1)', 0.05, 'модели')}
+            {numberField('topK', 'Top K', 1, 'модели')}
+            {numberField('maxOutputTokens', 'Максимум токенов ответа', 256, currentModel?.outputTokens ? `до ${currentModel.outputTokens}` : 'модели')}
+          </div>
+          <div className="mt-3">
+            <label className="block text-xs text-zinc-500 mb-1">Стоп-последовательности (по одной в строке, до 5)</label>
+            <textarea
+              value={(generationDraft.stopSequences ?? []).join('\n')}
+              onChange={(e) => setGenerationDraft(d => ({ ...d, stopSequences: e.target.value ? e.target.value.split('\n') : undefined }))}
+              placeholder={inherited.stopSequences?.join(', ') || ''}
+              rows={2}
+              className={`w-full rounded-lg px-3 py-2 text-sm ${theme === 'dark' ? 'bg-zinc-700 text-white' : 'bg-zinc-100 text-zinc-900'} resize-none`}
+            />
+          </div>
+          <div className="mt-4">
+            <div className="text-xs font-medium text-zinc-500 mb-2">Фильтры безопасности (Gemini)</div>
+            <div className="grid grid-cols-2 gap-3">
+              {HARM_CATEGORIES.map(category => (
+                <div key={category.id}>
+                  <label className="block text-xs text-zinc-500 mb-1">{category.label}</label>
+                  <select
+                    value={safetyDraft[category.id] ?? ''}
+                    onChange={(e) => {
+                      const value = e.target.value as SafetyThreshold | '';
+                      setSafetyDraft(d => {
+                        const next = { ...d };
+                        if (value) next[category.id] = value;
+                        else delete next[category.id];
+                        return next;
+                      });
+                    }}
+                    className={`w-full rounded-lg px-3 py-2 text-sm ${theme === 'dark' ? 'bg-zinc-700 text-white' : 'bg-zinc-100 text-zinc-900'}`}
+                  >
+                    <option value="">
+                      {generationScope === 'chat' && safetyDefaults[category.id]
+                        ? `По умолчанию: ${SAFETY_THRESHOLDS.find(t => t.id === safetyDefaults[category.id])?.label}`
+                        : 'Как у модели'}
+                    </option>
+                    {SAFETY_THRESHOLDS.map(threshold => (
+                      <option key={threshold.id} value={threshold.id}>{threshold.label}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+          {generationScope === 'chat' && (
+            <p className="text-xs text-zinc-500 mt-2">Пустые поля берутся из настроек по умолчанию.</p>
+          )}
+          {errors.length > 0 && (
+            <div className="mt-3 space-y-1">
+              {errors.map(error => (
+                <div key={error} className="flex items-center gap-2 text-red-500 text-sm">
+                  <AlertCircle size={14} />
+                  {error}
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-between gap-2 mt-4">
+            <button onClick={() => { setGenerationDraft({}); setSafetyDraft({}); }} className="px-4 py-2 text-zinc-400 hover:text-zinc-600">
+              Сбросить
+            </button>
+            <div className="flex gap-2">
+              <button onClick={() => setShowGenerationSettings(false)} className="px-4 py-2 text-zinc-400 hover:text-zinc-600">
+                Отмена
+              </button>
+              <button
+                onClick={handleSaveGenerationSettings}
+                disabled={errors.length > 0}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg text-white"
+              >
+                Сохранить
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Token totals per chat, day and model; prices are edited next to the models
+  function renderUsageView() {
+    const today = usageReport.byDay[dayKey(new Date())];
+    const days = Object.keys(usageReport.byDay).sort().reverse().slice(0, 14);
+    const modelRows = Object.entries(usageReport.byModel).sort(([, a], [, b]) => totalTokens(b) - totalTokens(a));
+    const chatRows = Object.entries(usageReport.byChat)
+      .sort(([, a], [, b]) => totalTokens(b) - totalTokens(a))
+      .slice(0, 10);
+    const cell = 'px-2 py-1.5 text-right tabular-nums';
+    const inputClass = `w-20 rounded px-2 py-1 text-xs text-right ${theme === 'dark' ? 'bg-zinc-700 text-white' : 'bg-zinc-100 text-zinc-900'}`;
+    const summaries = [
+      { label: 'Этот чат', totals: chatUsage },
+      { label: 'Сегодня', totals: today },
+      { label: 'Всего', totals: usageReport.total }
+    ];
+    return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+        <div className={`w-full max-w-2xl max-h-[85vh] overflow-y-auto rounded-2xl p-6 ${theme === 'dark' ? 'bg-zinc-800' : 'bg-white'}`}>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold">Расход токенов</h2>
+            <button onClick={() => setShowUsage(false)} className="p-1 rounded hover:opacity-70">
+              <X size={18} />
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-3 mb-6">
+            {summaries.map(({ label, totals }) => (
+              <div key={label} className={`rounded-xl p-3 ${theme === 'dark' ? 'bg-zinc-700/50' : 'bg-zinc-100'}`}>
+                <div className="text-xs text-zinc-500">{label}</div>
+                <div className="text-lg font-semibold tabular-nums">{formatTokens(totals ? totalTokens(totals) : 0)}</div>
+                <div className="text-xs text-zinc-500 tabular-nums">{formatCost(totals?.cost ?? null)}</div>
+              </div>
+            ))}
+          </div>
+
+          <h3 className="text-sm font-medium mb-2">По моделям</h3>
+          <p className="text-xs text-zinc-500 mb-2">Цена в $ за миллион токенов; рассуждения считаются как ответ.</p>
+          <table className="w-full text-xs mb-6">
+            <thead className="text-zinc-500">
+              <tr>
+                <th className="px-2 py-1.5 text-left font-normal">Модель</th>
+                <th className={`${cell} font-normal`}>Запрос</th>
+                <th className={`${cell} font-normal`}>Ответ</th>
+                <th className={`${cell} font-normal`}>Рассуждения</th>
+                <th className={`${cell} font-normal`}>$ вход / выход</th>
+                <th className={`${cell} font-normal`}>Стоимость</th>
+              </tr>
+            </thead>
+            <tbody>
+              {modelRows.map(([model, totals]) => (
+                <tr key={model} className={`border-t ${theme === 'dark' ? 'border-zinc-700' : 'border-zinc-100'}`}>
+                  <td className="px-2 py-1.5">{getModelLabel(model)}</td>
+                  <td className={cell}>{formatTokens(totals.promptTokens)}</td>
+                  <td className={cell}>{formatTokens(totals.candidatesTokens)}</td>
+                  <td className={cell}>{formatTokens(totals.thinkingTokens)}</td>
+                  <td className={cell}>
+                    <div className="flex justify-end gap-1">
+                      {(['input', 'output'] as const).map(field => (
+                        <input
+                          key={field}
+                          type="number"
+                          min={0}
+                          step={0.05}
+                          value={pricing[model]?.[field] ?? ''}
+                          onChange={(e) => handlePriceChange(model, field, e.target.value)}
+                          placeholder={field === 'input' ? 'вход' : 'выход'}
+                          className={inputClass}
+                        />
+                      ))}
+                    </div>
+                  </td>
+                  <td className={cell}>{formatCost(totals.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h3 className="text-sm font-medium mb-2">По дням</h3>
+          <table className="w-full text-xs mb-6">
+            <tbody>
+              {days.map(day => (
+                <tr key={day} className={`border-t ${theme === 'dark' ? 'border-zinc-700' : 'border-zinc-100'}`}>
+                  <td className="px-2 py-1.5">{new Date(`${day}T00:00`).toLocaleDateString()}</td>
+                  <td className={cell}>{usageReport.byDay[day].replies} отв.</td>
+                  <td className={cell}>{formatTokens(totalTokens(usageReport.byDay[day]))} ток.</td>
+                  <td className={cell}>{formatCost(usageReport.byDay[day].cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h3 className="text-sm font-medium mb-2">По чатам</h3>
+          <table className="w-full text-xs">
+            <tbody>
+              {chatRows.map(([chatId, totals]) => (
+                <tr key={chatId} className={`border-t ${theme === 'dark' ? 'border-zinc-700' : 'border-zinc-100'}`}>
+                  <td className="px-2 py-1.5 truncate max-w-0 w-1/2">{chats.find(c => c.id === chatId)?.title ?? 'Удалённый чат'}</td>
+                  <td className={cell}>{totals.replies} отв.</td>
+                  <td className={cell}>{formatTokens(totalTokens(totals))} ток.</td>
+                  <td className={cell}>{formatCost(totals.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {usageReport.total.replies === 0 && (
+            <p className="text-sm text-zinc-500 text-center py-4">Пока нет ответов с данными о токенах</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  // Why a reply stopped early, with a way to pick up after the token limit
+  function renderFinishNote(message: ChatMessage, index: number) {
+    const note = describeFinish(message.finish);
+    if (!note) return null;
+    return (
+      <div className="flex items-center gap-2 mt-2 text-xs text-amber-600">
+        <AlertCircle size={14} />
+        <span>{note.text}</span>
+        {note.canContinue && index === messages.length - 1 && !isLoading && (
+          <button onClick={() => handleContinueMessage(message)} className="ml-auto flex items-center gap-1 hover:text-blue-600">
+            <ChevronRight size={14} /> Продолжить
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  // Full file from the blob table: images open in a tab, other files download
+  async function openAttachment(attachment: Attachment) {
+    const blob = await getBlob(attachment.hash);
+    if (!blob) {
+      setErrorBanner(`Файл «${attachment.name}» не найден в хранилище`);
+      return;
+    }
+    const url = URL.createObjectURL(blob);
+    if (attachmentKind(attachment.mimeType, attachment.name) === 'image') {
+      window.open(url, '_blank');
+    } else {
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.name;
+      link.click();
+    }
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  }
+
+  // Thumbnail, or a chip with the file name; in sent messages both open the full file
+  function renderAttachment(attachment: Attachment, place: 'message' | 'draft') {
+    const kind = attachmentKind(attachment.mimeType, attachment.name);
+    if (kind === 'image') {
+      const image = (
+        <img
+          src={blobUrls[`${attachment.hash}:thumb`]}
+          alt={attachment.name}
+          className={`${place === 'message' ? 'max-h-40' : 'h-16'} min-w-16 rounded-lg border border-zinc-200 bg-zinc-100`}
+        />
+      );
+      if (place === 'draft') return image;
+      return <button onClick={() => openAttachment(attachment)} title="Открыть">{image}</button>;
+    }
+    const Icon = kind === 'audio' ? FileMusic : kind === 'text' ? FileCode : FileText;
+    const chip = (
+      <>
+        <Icon size={16} className="flex-shrink-0" />
+        <span className="truncate max-w-[12rem]">{attachment.name}</span>
+        <span className="opacity-60 flex-shrink-0">{formatSize(attachment.size)}</span>
+      </>
+    );
+    const chipClass = `flex items-center gap-2 px-3 py-2 rounded-lg border text-xs ${
+      theme === 'dark' ? 'border-zinc-700 bg-zinc-800 text-zinc-200' : 'border-zinc-200 bg-white text-zinc-700'
+    }`;
+    if (place === 'draft') return <div className={chipClass}>{chip}</div>;
+    return (
+      <div className="flex flex-col gap-1">
+        <button onClick={() => openAttachment(attachment)} className={`${chipClass} hover:border-blue-400`} title="Скачать">
+          {chip}
+        </button>
+        {kind === 'audio' && blobUrls[attachment.hash] && <audio controls src={blobUrls[attachment.hash]} className="h-8 max-w-xs" />}
+      </div>
+    );
+  }
+
+  function renderBranchSwitcher(message: ChatMessage) {
+    const siblingIds = branches[message.id] || [];
+    if (siblingIds.length < 2) return null;
+    const index = siblingIds.indexOf(message.id);
+    return (
+      <div className="flex items-center gap-1 mr-auto select-none">
+        <button
+          onClick={() => handleSwitchBranch(message.id, -1)}
+          disabled={index <= 0 || isLoading}
+          className="p-0.5 rounded disabled:opacity-40"
+          title="Предыдущий вариант"
+        >
+          <ChevronLeft size={14} />
+        </button>
+        <span className="tabular-nums">{index + 1}/{siblingIds.length}</span>
+        <button
+          onClick={() => handleSwitchBranch(message.id, 1)}
+          disabled={index >= siblingIds.length - 1 || isLoading}
+          className="p-0.5 rounded disabled:opacity-40"
+          title="Следующий вариант"
+        >
+          <ChevronRight size={14} />
+        </button>
+      </div>
+    );
+  }
+
+  function renderChatRow(chat: Chat, depth = 0) {
+    const selected = selectedChats?.has(chat.id) ?? currentChatId === chat.id;
+    const icon = assistantIcons.get(chat.assistantId ?? '');
+    return (
+      <div
+        key={chat.id}
+        onClick={() => selectedChats ? toggleChatSelection(chat.id) : selectChat(chat.id)}
+        style={depth ? { paddingLeft: 12 + depth * 16 } : undefined}
+        className={`group flex items-center gap-2 px-3 py-2 rounded-xl cursor-pointer mb-1 ${
+          selected
+            ? theme === 'dark' ? 'bg-zinc-800' : 'bg-white shadow-sm'
+            : theme === 'dark' ? 'hover:bg-zinc-800/60' : 'hover:bg-white'
+        }`}
+      >
+        {selectedChats && (
+          <input type="checkbox" checked={selected} readOnly className="flex-shrink-0 accent-blue-600" />
+        )}
+        {icon
+          ? <span className="w-4 flex-shrink-0 text-center text-sm leading-none">{icon}</span>
+          : <MessageSquare size={16} className="flex-shrink-0 opacity-50" />}
+        <div className="flex-1 min-w-0">
+          {renamingChat?.id === chat.id ? (
+            <input
+              value={renamingChat.title}
+              onChange={(e) => setRenamingChat({ id: chat.id, title: e.target.value })}
+              onClick={(e) => e.stopPropagation()}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setRenamingChat(null);
+              }}
+              onBlur={commitRename}
+              autoFocus
+              className={`w-full rounded px-1 -mx-1 text-sm outline-none ring-1 ring-blue-500 ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white'}`}
+            />
+          ) : (
+            <div
+              onDoubleClick={(e) => { e.stopPropagation(); if (!selectedChats) setRenamingChat({ id: chat.id, title: chat.title }); }}
+              className="truncate text-sm"
+            >
+              {chat.title}
+            </div>
+          )}
+          {chat.tags?.length ? (
+            <div className="truncate text-xs text-zinc-500">{chat.tags.map(tag => `#${tag}`).join(' ')}</div>
+          ) : null}
+        </div>
+        {!selectedChats && renamingChat?.id !== chat.id && (
+          <>
+            <button
+              onClick={(e) => { e.stopPropagation(); setRenamingChat({ id: chat.id, title: chat.title }); }}
+              className="opacity-0 group-hover:opacity-100 p-1 hover:text-blue-500 transition"
+              title="Переименовать"
+            >
+              <Pencil size={14} />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); setChatsPinned([chat.id], chat.pinnedAt === undefined); }}
+              className="opacity-0 group-hover:opacity-100 p-1 hover:text-blue-500 transition"
+              title={chat.pinnedAt === undefined ? 'Закрепить' : 'Открепить'}
+            >
+              {chat.pinnedAt === undefined ? <Pin size={14} /> : <PinOff size={14} />}
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); setChatsArchived([chat.id], chat.archivedAt === undefined); }}
+              className="opacity-0 group-hover:opacity-100 p-1 hover:text-blue-500 transition"
+              title={chat.archivedAt === undefined ? 'В архив' : 'Вернуть из архива'}
+            >
+              {chat.archivedAt === undefined ? <Archive size={14} /> : <ArchiveRestore size={14} />}
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); handleDeleteChat(chat.id); }}
+              className="opacity-0 group-hover:opacity-100 p-1 hover:text-red-400 transition"
+              title="Удалить чат"
+            >
+              <Trash2 size={14} />
+            </button>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  function renderFolder(folder: Folder, depth: number) {
+    const collapsed = collapsedFolders.has(folder.id);
+    const folderChats = chatsInFolder.get(folder.id) ?? [];
+    return (
+      <Fragment key={folder.id}>
+        <div
+          onClick={() => toggleFolder(folder.id)}
+          style={depth ? { paddingLeft: 12 + depth * 16 } : undefined}
+          className={`group flex items-center gap-1.5 px-3 py-1.5 rounded-xl cursor-pointer mb-1 ${theme === 'dark' ? 'hover:bg-zinc-800/60' : 'hover:bg-white'}`}
+        >
+          {collapsed ? <ChevronRight size={14} className="flex-shrink-0 opacity-50" /> : <ChevronDown size={14} className="flex-shrink-0 opacity-50" />}
+          <FolderIcon size={16} className="flex-shrink-0 opacity-50" />
+          <span className="flex-1 truncate text-sm">{folder.name}</span>
+          {folderChats.length > 0 && <span className="text-xs text-zinc-500 group-hover:hidden">{folderChats.length}</span>}
+          <button
+            onClick={(e) => { e.stopPropagation(); setFolderForm({ name: '', parentId: folder.id }); }}
+            className="hidden group-hover:block p-1 hover:text-blue-500"
+            title="Новая вложенная папка"
+          >
+            <FolderPlus size={14} />
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); setFolderForm({ id: folder.id, name: folder.name, parentId: folder.parentId }); }}
+            className="hidden group-hover:block p-1 hover:text-blue-500"
+            title="Переименовать или переместить"
+          >
+            <Pencil size={14} />
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); handleDeleteFolder(folder); }}
+            className="hidden group-hover:block p-1 hover:text-red-400"
+            title="Удалить папку"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+        {!collapsed && (
+          <>
+            {(subfolders.get(folder.id) ?? []).map(child => renderFolder(child, depth + 1))}
+            {folderChats.map(chat => renderChatRow(chat, depth + 1))}
+          </>
+        )}
+      </Fragment>
+    );
+  }
+
+  // Pinned chats first; a flat list while filtering or in the archive, the folder tree otherwise
+  function renderChatList() {
+    const pinned = listedChats.filter(chat => chat.pinnedAt !== undefined).sort((a, b) => b.pinnedAt! - a.pinnedAt!);
+    return (
+      <>
+        {showArchive && (
+          <div className="flex items-center justify-between px-3 mb-2 text-xs text-zinc-500">
+            <span>Архив</span>
+            <button onClick={() => setShowArchive(false)} className="hover:text-blue-500">К чатам</button>
+          </div>
+        )}
+        {listedChats.length === 0 && folders.length === 0 && (
+          <p className="text-xs text-zinc-500 text-center mt-4">{showArchive ? 'В архиве пусто' : filteringChats ? 'Нет подходящих чатов' : 'Чатов пока нет'}</p>
+        )}
+        {filteringChats ? (
+          [...pinned, ...listedChats.filter(chat => chat.pinnedAt === undefined)].map(chat => renderChatRow(chat))
+        ) : (
+          <>
+            {pinned.length > 0 && (
+              <>
+                <p className="px-3 pb-1 text-xs text-zinc-500">Закреплённые</p>
+                {pinned.map(chat => renderChatRow(chat))}
+                <div className={`my-2 border-t ${theme === 'dark' ? 'border-zinc-800' : 'border-zinc-200'}`} />
+              </>
+            )}
+            {(subfolders.get(null) ?? []).map(folder => renderFolder(folder, 0))}
+            {(chatsInFolder.get('') ?? []).map(chat => renderChatRow(chat))}
+          </>
+        )}
+      </>
+    );
+  }
+
+  function renderSelectionBar(selection: Set<string>) {
+    const ids = [...selection];
+    const selected = chats.filter(chat => selection.has(chat.id));
+    const selectedTags = chatTags(selected);
+    const allPinned = selected.length > 0 && selected.every(chat => chat.pinnedAt !== undefined);
+    const controlClass = `w-full min-w-0 px-3 py-1.5 rounded-full text-sm border outline-none disabled:opacity-50 ${theme === 'dark' ? 'bg-zinc-800 border-zinc-700' : 'bg-white border-zinc-200'}`;
+    const buttonClass = `p-2 rounded-full disabled:opacity-40 ${theme === 'dark' ? 'hover:bg-zinc-800' : 'hover:bg-zinc-200/60'}`;
+    return (
+      <div className={`p-3 border-t space-y-2 ${theme === 'dark' ? 'border-zinc-800' : 'border-zinc-200'}`}>
+        <div className="flex items-center justify-between text-xs text-zinc-500">
+          <span>Выбрано: {ids.length}</span>
+          <button onClick={() => setSelectedChats(new Set(listedChats.map(chat => chat.id)))} className="hover:text-blue-500">
+            Выбрать все
+          </button>
+        </div>
+        <select
+          value=""
+          disabled={!ids.length}
+          onChange={(e) => moveChats(ids, e.target.value === 'none' ? null : e.target.value)}
+          className={controlClass}
+        >
+          <option value="" disabled>Переместить в папку…</option>
+          <option value="none">Без папки</option>
+          {folderList.map(({ folder, depth }) => (
+            <option key={folder.id} value={folder.id}>{'\u00a0\u00a0'.repeat(depth)}{folder.name}</option>
+          ))}
+        </select>
+        <div className="flex gap-1">
+          <input
+            value={bulkTags}
+            onChange={(e) => setBulkTags(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddSelectedTags()}
+            placeholder="Теги через запятую"
+            className={controlClass}
+          />
+          <button onClick={handleAddSelectedTags} disabled={!ids.length || !bulkTags.trim()} className={buttonClass} title="Добавить теги">
+            <Plus size={16} />
+          </button>
+        </div>
+        {selectedTags.length > 0 && (
+          <select value="" onChange={(e) => removeChatTag(ids, e.target.value)} className={controlClass}>
+            <option value="" disabled>Снять тег…</option>
+            {selectedTags.map(tag => (
+              <option key={tag} value={tag}>#{tag}</option>
+            ))}
+          </select>
+        )}
+        <div className="flex items-center justify-between">
+          <button onClick={() => setChatsPinned(ids, !allPinned)} disabled={!ids.length} className={buttonClass} title={allPinned ? 'Открепить' : 'Закрепить'}>
+            {allPinned ? <PinOff size={16} /> : <Pin size={16} />}
+          </button>
+          <button
+            onClick={() => { setChatsArchived(ids, !showArchive); exitSelection(); }}
+            disabled={!ids.length}
+            className={buttonClass}
+            title={showArchive ? 'Вернуть из архива' : 'В архив'}
+          >
+            {showArchive ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+          </button>
+          <button onClick={handleExportSelected} disabled={!ids.length} className={buttonClass} title="Экспорт">
+            <Download size={16} />
+          </button>
+          <button onClick={handleDeleteSelected} disabled={!ids.length} className={`${buttonClass} hover:text-red-400`} title="Удалить">
+            <Trash2 size={16} />
+          </button>
+          <button onClick={exitSelection} className={buttonClass} title="Готово">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  function renderFolderDialog(form: FolderDraft) {
+    const inputClass = `w-full rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 border ${theme === 'dark' ? 'bg-zinc-900 border-zinc-700' : 'bg-zinc-100 border-zinc-200'}`;
+    // A folder can't move into itself or below itself
+    const excluded = form.id ? folderSubtree(folders, form.id) : new Set<string>();
+    const close = () => { setFolderForm(null); setFolderStatus(''); };
+    return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+        <div className={`w-full max-w-md rounded-2xl p-6 ${theme === 'dark' ? 'bg-zinc-800' : 'bg-white'}`}>
+          <h2 className="text-lg font-semibold mb-4">{form.id ? 'Папка' : 'Новая папка'}</h2>
+          <div className="space-y-3">
+            <input
+              value={form.name}
+              onChange={(e) => setFolderForm({ ...form, name: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && handleSaveFolder()}
+              placeholder="Название"
+              autoFocus
+              className={inputClass}
+            />
+            <div>
+              <label className="block text-xs text-zinc-500 mb-1">Внутри папки</label>
+              <select
+                value={form.parentId ?? ''}
+                onChange={(e) => setFolderForm({ ...form, parentId: e.target.value || null })}
+                className={inputClass}
+              >
+                <option value="">— верхний уровень —</option>
+                {folderList.filter(({ folder }) => !excluded.has(folder.id)).map(({ folder, depth }) => (
+                  <option key={folder.id} value={folder.id}>{'\u00a0\u00a0'.repeat(depth)}{folder.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {folderStatus && (
+            <p className="text-xs text-zinc-500 mt-3">{folderStatus}</p>
+          )}
+          <div className="flex justify-end gap-2 mt-4">
+            <button onClick={close} className="px-4 py-2 text-zinc-400 hover:text-zinc-600">
+              Отмена
+            </button>
+            <button onClick={handleSaveFolder} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white">
+              Сохранить
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  function renderExportDialog(ids: string[]) {
+    const inputClass = `w-full rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 border ${theme === 'dark' ? 'bg-zinc-900 border-zinc-700' : 'bg-zinc-100 border-zinc-200'}`;
+    const formats: { id: ExportFormat; label: string; hint: string }[] = [
+      { id: 'markdown', label: 'Markdown', hint: 'С вложениями или несколькими чатами — ZIP-архив с файлами' },
+      { id: 'html', label: 'HTML', hint: 'Одна страница: изображения встроены, код подсвечен' },
+      { id: 'json', label: 'JSON', hint: 'Структурированные данные, вложения внутри файла' }
+    ];
+    const close = () => { setExportChatIds(null); setExportStatus(''); };
+    return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+        <div className={`w-full max-w-md rounded-2xl p-6 ${theme === 'dark' ? 'bg-zinc-800' : 'bg-white'}`}>
+          <h2 className="text-lg font-semibold mb-4">
+            {ids.length === 1 ? 'Экспорт чата' : `Экспорт чатов: ${ids.length}`}
+          </h2>
+          <div className="space-y-2">
+            {formats.map(format => (
+              <label key={format.id} className="flex items-start gap-2 text-sm cursor-pointer">
+                <input
+                  type="radio"
+                  className="mt-1"
+                  checked={exportOptions.format === format.id}
+                  onChange={() => setExportOptions({ ...exportOptions, format: format.id })}
+                />
+                <span>
+                  {format.label}
+                  <span className="block text-xs text-zinc-500">{format.hint}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <div className="space-y-2 mt-4">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={exportOptions.systemPrompts}
+                onChange={(e) => setExportOptions({ ...exportOptions, systemPrompts: e.target.checked })}
+              />
+              Системные промпты
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={exportOptions.timestamps}
+                onChange={(e) => setExportOptions({ ...exportOptions, timestamps: e.target.checked })}
+              />
+              Дата и время сообщений
+            </label>
+            <div>
+              <label className="block text-xs text-zinc-500 mb-1">Язык подписей</label>
+              <select
+                value={exportOptions.language}
+                onChange={(e) => setExportOptions({ ...exportOptions, language: e.target.value as ExportLanguage })}
+                className={inputClass}
+              >
+                {(Object.keys(EXPORT_LABELS) as ExportLanguage[]).map(language => (
+                  <option key={language} value={language}>{EXPORT_LABELS[language].name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {exportStatus && (
+            <p className="text-xs text-zinc-500 mt-3">{exportStatus}</p>
+          )}
+          <div className="flex justify-end gap-2 mt-4">
+            <button onClick={close} className="px-4 py-2 text-zinc-400 hover:text-zinc-600">
+              Отмена
+            </button>
+            <button onClick={handleDownloadExport} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white">
+              Скачать
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  function renderExternalImport(conversations: ExternalConversation[], selected: Set<string>) {
+    const available = conversations.filter(c => !c.imported);
+    const missing = conversations.filter(c => selected.has(c.id)).reduce((sum, c) => sum + c.missingFiles.length, 0);
+    return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+        <div className={`w-full max-w-lg rounded-2xl p-6 flex flex-col max-h-[85vh] ${theme === 'dark' ? 'bg-zinc-800' : 'bg-white'}`}>
+          <h2 className="text-lg font-semibold mb-1">Импорт переписок</h2>
+          <div className="flex items-center justify-between text-xs text-zinc-500 mb-3">
+            <span>Найдено: {conversations.length}, выбрано: {selected.size}</span>
+            <span className="flex gap-3">
+              <button onClick={() => toggleExternalSelection(available.map(c => c.id), true)} className="hover:text-blue-500">
+                Выбрать все
+              </button>
+              <button onClick={() => toggleExternalSelection(available.map(c => c.id), false)} className="hover:text-blue-500">
+                Снять выбор
+              </button>
+            </span>
+          </div>
+          <div className={`flex-1 overflow-y-auto rounded-lg border ${theme === 'dark' ? 'border-zinc-700' : 'border-zinc-200'}`}>
+            {conversations.map(conversation => {
+              const files = conversation.messages.reduce((sum, m) => sum + m.files.length, 0);
+              return (
+                <label
+                  key={conversation.id}
+                  className={`flex items-start gap-2 px-3 py-2 text-sm border-b last:border-b-0 ${theme === 'dark' ? 'border-zinc-700' : 'border-zinc-100'} ${conversation.imported ? 'opacity-50' : 'cursor-pointer'}`}
+                >
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={selected.has(conversation.id)}
+                    disabled={conversation.imported}
+                    onChange={(e) => toggleExternalSelection([conversation.id], e.target.checked)}
+                  />
+                  <span className="flex-1 min-w-0">
+                    <span className="block truncate">{conversation.title}</span>
+                    <span className="block text-xs text-zinc-500">
+                      {EXPORT_SOURCE_NAMES[conversation.source]} · {conversation.updatedAt.toLocaleDateString()} · {conversation.messages.length} сообщ.
+                      {files > 0 && ` · ${files} файл.`}
+                      {conversation.missingFiles.length > 0 && ` · не найдено файлов: ${conversation.missingFiles.length}`}
+                      {conversation.imported && ' · уже импортирован'}
+                    </span>
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+          {missing > 0 && (
+            <p className="text-xs text-zinc-500 mt-3">
+              Не найдено файлов: {missing}. Сообщения будут импортированы без них; чтобы перенести файлы, выберите их вместе с JSON
+            </p>
+          )}
+          <div className="flex justify-end gap-2 mt-4">
+            <button onClick={() => setExternalImport(null)} className="px-4 py-2 text-zinc-400 hover:text-zinc-600">
+              Отмена
+            </button>
+            <button
+              onClick={handleImportConversations}
+              disabled={!selected.size}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg text-white"
+            >
+              Импортировать ({selected.size})
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  function renderAssistantForm(form: AssistantForm) {
+    const inputClass = `w-full rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 border ${theme === 'dark' ? 'bg-zinc-900 border-zinc-700' : 'bg-zinc-100 border-zinc-200'}`;
+    const preset = form.generationConfig && !isEmptyConfig(form.generationConfig) ? matchPreset(form.generationConfig)?.id ?? 'custom' : '';
+    const safetyCount = Object.keys(form.safetySettings ?? {}).length;
+    return (
+      <div className="space-y-3">
+        <div className="flex gap-2">
+          <input
+            value={form.icon}
+            onChange={(e) => setAssistantForm({ ...form, icon: e.target.value })}
+            placeholder={DEFAULT_ASSISTANT_ICON}
+            maxLength={8}
+            className={`${inputClass} w-16 text-center`}
+            title="Значок (эмодзи)"
+          />
+          <input
+            value={form.name}
+            onChange={(e) => setAssistantForm({ ...form, name: e.target.value })}
+            placeholder="Название, например «Переводчик»"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-zinc-500 mb-1">Модель</label>
+          <select
+            value={form.model}
+            onChange={(e) => setAssistantForm({ ...form, model: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">Выбранная на момент ответа</option>
+            {form.model && !models.some(m => m.value === form.model) && (
+              <option value={form.model}>{form.model} (недоступна)</option>
+            )}
+            {models.map(model => (
+              <option key={model.value} value={model.value}>{model.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-zinc-500 mb-1">Системный промпт</label>
+          <textarea
+            value={form.systemPrompt}
+            onChange={(e) => setAssistantForm({ ...form, systemPrompt: e.target.value })}
+            placeholder="Ты — переводчик. Переводи всё, что тебе пишут, на английский..."
+            rows={6}
+            className={`${inputClass} resize-y`}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-zinc-500 mb-1">Параметры генерации</label>
+          <select
+            value={preset}
+            onChange={(e) => setAssistantForm({
+              ...form,
+              generationConfig: GENERATION_PRESETS.find(p => p.id === e.target.value)?.config
+            })}
+            className={inputClass}
+          >
+            <option value="">По умолчанию</option>
+            {GENERATION_PRESETS.map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+            {preset === 'custom' && <option value="custom">Свои (из чата)</option>}
+          </select>
+          <p className="text-xs text-zinc-500 mt-1">
+            Фильтры безопасности: {safetyCount ? `заданы для ${safetyCount} категорий` : 'по умолчанию'}
+          </p>
+        </div>
+        <div>
+          <label className="block text-xs text-zinc-500 mb-1">Стартовые сообщения, по одному в строке</label>
+          <textarea
+            value={form.starters}
+            onChange={(e) => setAssistantForm({ ...form, starters: e.target.value })}
+            placeholder="Переведи этот абзац&#10;Как сказать это вежливее?"
+            rows={3}
+            className={`${inputClass} resize-y`}
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => setAssistantForm({ ...form, ...currentChatSetup() })}
+            className="mr-auto px-4 py-2 text-zinc-400 hover:text-zinc-600"
+            title="Модель, системный промпт, параметры и фильтры открытого чата"
+          >
+            Взять из текущего чата
+          </button>
+          <button onClick={() => { setAssistantForm(null); setAssistantStatus(''); }} className="px-4 py-2 text-zinc-400 hover:text-zinc-600">
+            Отмена
+          </button>
+          <button onClick={handleSaveAssistant} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white">
+            Сохранить
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  function renderAssistantList() {
+    const buttonClass = `flex items-center gap-1 px-3 py-1.5 rounded-lg border text-sm ${theme === 'dark' ? 'border-zinc-700 hover:bg-zinc-700' : 'border-zinc-200 hover:bg-zinc-100'}`;
+    return (
+      <>
+        <div className="flex gap-2 mb-3">
+          <button
+            onClick={() => setAssistantForm({ name: '', icon: DEFAULT_ASSISTANT_ICON, model: '', systemPrompt: '', starters: '' })}
+            className={`${buttonClass} flex-1 justify-center`}
+          >
+            <Plus size={16} />
+            Новый ассистент
+          </button>
+          <button onClick={handleExportAssistants} disabled={!assistants.length} className={`${buttonClass} disabled:opacity-50`} title="Экспорт в JSON">
+            <Download size={16} />
+          </button>
+          <button onClick={() => assistantsInputRef.current?.click()} className={buttonClass} title="Импорт из JSON">
+            <Upload size={16} />
+          </button>
+          <input
+            type="file"
+            ref={assistantsInputRef}
+            onChange={(e) => { if (e.target.files?.[0]) handleImportAssistants(e.target.files[0]); e.target.value = ''; }}
+            accept="application/json,.json"
+            className="hidden"
+          />
+        </div>
+        {assistants.length === 0 && (
+          <p className="text-sm text-zinc-500 text-center py-8">
+            Ассистент хранит модель, системный промпт и параметры. Чаты, начатые с ним, получают их копию
+          </p>
+        )}
+        <div className="space-y-2">
+          {assistants.map(assistant => (
+            <div key={assistant.id} className={`rounded-xl border p-3 ${theme === 'dark' ? 'border-zinc-700' : 'border-zinc-200'}`}>
+              <div className="flex items-center gap-2">
+                <span className="text-xl">{assistant.icon}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-sm truncate">{assistant.name}</p>
+                  <p className="text-xs text-zinc-500 truncate">
+                    {assistant.model ? models.find(m => m.value === assistant.model)?.label ?? assistant.model : 'Выбранная модель'}
+                    {assistant.starters.length > 0 && ` · стартовых сообщений: ${assistant.starters.length}`}
+                  </p>
+                </div>
+                <button onClick={() => editAssistant(assistant)} className="p-1 text-zinc-400 hover:text-zinc-600" title="Изменить">
+                  <Pencil size={14} />
+                </button>
+                <button onClick={() => handleDeleteAssistant(assistant)} className="p-1 text-zinc-400 hover:text-red-500" title="Удалить">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              {assistant.systemPrompt && (
+                <p className="text-xs text-zinc-500 mt-1 line-clamp-2 whitespace-pre-wrap">{assistant.systemPrompt}</p>
+              )}
+              <button onClick={() => handleStartAssistantChat(assistant)} className={`${buttonClass} mt-2`}>
+                <Plus size={14} />
+                Начать чат
+              </button>
+            </div>
+          ))}
+        </div>
+      </>
+    );
+  }
+
+  function renderAssistants() {
+    return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+        <div className={`w-full max-w-2xl max-h-[85vh] overflow-y-auto rounded-2xl p-6 ${theme === 'dark' ? 'bg-zinc-800' : 'bg-white'}`}>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold">
+              {assistantForm ? (assistantForm.id ? 'Изменить ассистента' : 'Новый ассистент') : 'Ассистенты'}
+            </h2>
+            <button onClick={closeAssistants} className="p-1 rounded hover:opacity-70">
+              <X size={18} />
+            </button>
+          </div>
+          {assistantForm ? renderAssistantForm(assistantForm) : renderAssistantList()}
+          {assistantStatus && (
+            <p className="text-xs text-zinc-500 mt-3">{assistantStatus}</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  function renderPromptFill(fill: PromptFill) {
+    const inputClass = `w-full rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 border ${theme === 'dark' ? 'bg-zinc-900 border-zinc-700' : 'bg-zinc-100 border-zinc-200'}`;
+    const result = fillTemplate(fill.prompt.content, fill.values);
+    const complete = Object.values(fill.values).every(value => value.trim());
+    return (
+      <div className="space-y-3">
+        <p className="text-sm font-medium">{fill.prompt.name}</p>
+        {Object.keys(fill.values).map(name => (
+          <div key={name}>
+            <label className="block text-xs text-zinc-500 mb-1">{name}</label>
+            <textarea
+              value={fill.values[name]}
+              onChange={(e) => setPromptFill({ ...fill, values: { ...fill.values, [name]: e.target.value } })}
+              rows={2}
+              className={`${inputClass} resize-y`}
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-xs text-zinc-500 mb-1">Результат</label>
+          <p className={`text-sm whitespace-pre-wrap rounded-lg p-3 max-h-48 overflow-y-auto ${theme === 'dark' ? 'bg-zinc-700/50' : 'bg-zinc-100'}`}>{result}</p>
+        </div>
+        <div className="flex justify-end gap-2">
+          <button onClick={() => setPromptFill(null)} className="px-4 py-2 text-zinc-400 hover:text-zinc-600">
+            Назад
+          </button>
+          <button
+            onClick={() => applyPrompt(result, fill.target)}
+            disabled={!complete}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white disabled:opacity-50"
+          >
+            {fill.target === 'system' ? 'Использовать как системный промпт' : 'Вставить в сообщение'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  function renderPromptForm(form: PromptForm) {
+    const inputClass = `w-full rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 border ${theme === 'dark' ? 'bg-zinc-900 border-zinc-700' : 'bg-zinc-100 border-zinc-200'}`;
+    const variables = templateVariables(form.content);
+    return (
+      <div className="space-y-3">
+        <input
+          value={form.name}
+          onChange={(e) => setPromptForm({ ...form, name: e.target.value })}
+          placeholder="Название, например «Ревьюер кода»"
+          className={inputClass}
+        />
+        <input
+          value={form.tags}
+          onChange={(e) => setPromptForm({ ...form, tags: e.target.value })}
+          placeholder="Теги через запятую"
+          className={inputClass}
+        />
+        <textarea
+          value={form.content}
+          onChange={(e) => setPromptForm({ ...form, content: e.target.value })}
+          placeholder="Текст шаблона. Переменные: {{язык}}, {{код}}"
+          rows={8}
+          className={`${inputClass} resize-y font-mono`}
+        />
+        <p className="text-xs text-zinc-500">
+          {variables.length
+            ? `Переменные: ${variables.join(', ')} — их спросит форма перед вставкой`
+            : 'Переменные в двойных фигурных скобках заполняются через форму перед вставкой'}
+        </p>
+        <div className="flex justify-end gap-2">
+          <button onClick={() => { setPromptForm(null); setPromptStatus(''); }} className="px-4 py-2 text-zinc-400 hover:text-zinc-600">
+            Отмена
+          </button>
+          <button onClick={handleSavePrompt} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white">
+            Сохранить
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  function renderPromptList() {
+    const buttonClass = `flex items-center gap-1 px-3 py-1.5 rounded-lg border text-sm ${theme === 'dark' ? 'border-zinc-700 hover:bg-zinc-700' : 'border-zinc-200 hover:bg-zinc-100'}`;
+    const visible = prompts.filter(prompt => matchesPrompt(prompt, promptQuery));
+    const tags = [...new Set(prompts.flatMap(prompt => prompt.tags))].sort();
+    return (
+      <>
+        <div className="flex gap-2 mb-3">
+          <input
+            value={promptQuery}
+            onChange={(e) => setPromptQuery(e.target.value)}
+            placeholder="Поиск по названию, тегу или тексту"
+            className={`flex-1 min-w-0 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 border ${theme === 'dark' ? 'bg-zinc-900 border-zinc-700' : 'bg-zinc-100 border-zinc-200'}`}
+          />
+          <button onClick={() => setPromptForm({ name: '', tags: '', content: '' })} className={buttonClass} title="Новый шаблон">
+            <Plus size={16} />
+          </button>
+          <button onClick={handleExportPrompts} disabled={!prompts.length} className={`${buttonClass} disabled:opacity-50`} title="Экспорт в JSON">
+            <Download size={16} />
+          </button>
+          <button onClick={() => promptsInputRef.current?.click()} className={buttonClass} title="Импорт из JSON">
+            <Upload size={16} />
+          </button>
+          <input
+            type="file"
+            ref={promptsInputRef}
+            onChange={(e) => { if (e.target.files?.[0]) handleImportPrompts(e.target.files[0]); e.target.value = ''; }}
+            accept="application/json,.json"
+            className="hidden"
+          />
+        </div>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-3">
+            {tags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => setPromptQuery(promptQuery === `#${tag}` ? '' : `#${tag}`)}
+                className={`px-2 py-0.5 rounded-full text-xs ${promptQuery === `#${tag}` ? 'bg-blue-600 text-white' : theme === 'dark' ? 'bg-zinc-700' : 'bg-zinc-100'}`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+        {prompts.length === 0 && (
+          <p className="text-sm text-zinc-500 text-center py-8">Шаблонов пока нет. Создайте первый или импортируйте библиотеку из JSON</p>
+        )}
+        <div className="space-y-2">
+          {visible.map(prompt => {
+            const variables = templateVariables(prompt.content);
+            return (
+              <div key={prompt.id} className={`rounded-xl border p-3 ${theme === 'dark' ? 'border-zinc-700' : 'border-zinc-200'}`}>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm flex-1 truncate">{prompt.name}</span>
+                  {prompt.tags.map(tag => (
+                    <span key={tag} className="text-xs text-zinc-500">#{tag}</span>
+                  ))}
+                  <button
+                    onClick={() => setPromptForm({ id: prompt.id, name: prompt.name, tags: prompt.tags.join(', '), content: prompt.content })}
+                    className="p-1 text-zinc-400 hover:text-zinc-600"
+                    title="Изменить"
+                  >
+                    <Pencil size={14} />
+                  </button>
+                  <button onClick={() => handleDeletePrompt(prompt)} className="p-1 text-zinc-400 hover:text-red-500" title="Удалить">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                <p className="text-xs text-zinc-500 mt-1 line-clamp-2 whitespace-pre-wrap">{prompt.content}</p>
+                {variables.length > 0 && (
+                  <p className="text-xs text-zinc-400 mt-1">Переменные: {variables.join(', ')}</p>
+                )}
+                <div className="flex gap-2 mt-2">
+                  <button onClick={() => handleUsePrompt(prompt, 'message')} className={buttonClass}>
+                    В сообщение
+                  </button>
+                  <button onClick={() => handleUsePrompt(prompt, 'system')} className={buttonClass}>
+                    Как системный промпт
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </>
+    );
+  }
+
+  function renderPromptLibrary() {
+    return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+        <div className={`w-full max-w-2xl max-h-[85vh] overflow-y-auto rounded-2xl p-6 ${theme === 'dark' ? 'bg-zinc-800' : 'bg-white'}`}>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold">
+              {promptFill ? 'Заполните переменные' : promptForm ? (promptForm.id ? 'Изменить шаблон' : 'Новый шаблон') : 'Библиотека промптов'}
+            </h2>
+            <button onClick={closePromptLibrary} className="p-1 rounded hover:opacity-70">
+              <X size={18} />
+            </button>
+          </div>
+          {promptFill ? renderPromptFill(promptFill) : promptForm ? renderPromptForm(promptForm) : renderPromptList()}
+          {promptStatus && (
+            <p className="text-xs text-zinc-500 mt-3">{promptStatus}</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  function renderSyncSettings() {
+    const inputClass = `w-full rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 border ${theme === 'dark' ? 'bg-zinc-900 border-zinc-700' : 'bg-zinc-100 border-zinc-200'}`;
+    const buttonClass = `flex-1 px-3 py-2 rounded-lg border text-sm disabled:opacity-50 ${theme === 'dark' ? 'border-zinc-700 hover:bg-zinc-700' : 'border-zinc-200 hover:bg-zinc-100'}`;
+    return (
+      <div className="mb-4">
+        <label className="block text-xs text-zinc-500 mb-2">
+          {syncState
+            ? `Синхронизация включена${syncState.lastSyncAt ? ` · последняя ${syncState.lastSyncAt.toLocaleString()}` : ''}`
+            : 'Синхронизация между устройствами: чаты шифруются паролем, сервер хранит только шифротекст'}
+        </label>
+        {syncState ? (
+          <div className="flex gap-2">
+            <button onClick={() => apiKey && runSync(apiKey, true)} className={buttonClass}>
+              <RefreshCw size={14} className="inline mr-1" /> Синхронизировать
+            </button>
+            <button onClick={handleDisableSync} className={buttonClass} title="Чаты на этом устройстве и копия на сервере сохранятся">
+              Отключить
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <input
+              type="password"
+              value={syncForm.passphrase}
+              onChange={(e) => setSyncForm(f => ({ ...f, passphrase: e.target.value }))}
+              placeholder={`Пароль синхронизации (не короче ${SYNC_MIN_PASSPHRASE_LENGTH} символов)`}
+              className={inputClass}
+            />
+            <input
+              type="password"
+              value={syncForm.confirm}
+              onChange={(e) => setSyncForm(f => ({ ...f, confirm: e.target.value }))}
+              onKeyDown={(e) => e.key === 'Enter' && handleEnableSync()}
+              placeholder="Повторите пароль"
+              className={inputClass}
+            />
+            <p className="text-xs text-zinc-500">
+              Введите тот же пароль на каждом устройстве. Восстановить его нельзя: без пароля копия на сервере не читается
+            </p>
+            <div className="flex">
+              <button onClick={handleEnableSync} disabled={!syncForm.passphrase} className={buttonClass}>
+                Включить синхронизацию
+              </button>
+            </div>
+          </div>
+        )}
+        {syncStatus && (
+          <p className="text-xs text-zinc-500 mt-2">{syncStatus}</p>
+        )}
+      </div>
+    );
+  }
+
+  // Lock screen for the passphrase vault
+  if (!apiKey && vaultLocked) {
+    return (
+      <div className="min-h-screen bg-zinc-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-3xl p-8 max-w-md w-full shadow-xl border border-zinc-200">
+          <div className="text-center mb-8">
+            <Lock size={32} className="mx-auto mb-3 text-zinc-400" />
+            <h1 className="text-3xl font-bold text-zinc-900 mb-2">Pollux Chat</h1>
+            <p className="text-zinc-500">Ключ защищён паролем. Введите его, чтобы продолжить</p>
+          </div>
+
+          <div className="space-y-4">
+            <input
+              type="password"
+              value={unlockInput}
+              onChange={(e) => setUnlockInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+              placeholder="Пароль"
+              autoFocus
+              className="w-full bg-zinc-100 text-zinc-900 rounded-lg px-4 py-3 outline-none focus:ring-2 focus:ring-blue-500 border border-zinc-200"
+            />
+
+            {keyError && (
+              <div className="flex items-center gap-2 text-red-500 text-sm">
+                <AlertCircle size={16} />
+                {keyError}
+              </div>
+            )}
+
+            <button
+              onClick={handleUnlock}
+              disabled={checkingKey || !unlockInput}
+              className="w-full bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-medium rounded-lg py-3 transition"
+            >
+              {checkingKey ? 'Проверяем...' : 'Разблокировать'}
+            </button>
+
+            <button
+              onClick={() => {
+                if (confirm('Удалить сохранённый ключ? Чаты останутся, ключ нужно будет ввести заново.')) handleLogout();
+              }}
+              className="w-full text-sm text-zinc-500 hover:text-red-500"
+            >
+              Забыли пароль? Ввести ключ заново
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Login for hosted mode
+  if (!apiKey && hostedMode) {
+    const inputClass = "w-full bg-zinc-100 text-zinc-900 rounded-lg px-4 py-3 outline-none focus:ring-2 focus:ring-blue-500 border border-zinc-200";
+    return (
+      <div className="min-h-screen bg-zinc-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-3xl p-8 max-w-md w-full shadow-xl border border-zinc-200">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-zinc-900 mb-2">Pollux Chat</h1>
+            <p className="text-zinc-500">
+              {registering ? 'Создайте аккаунт по приглашению' : 'Войдите, чтобы начать'}
+            </p>
+          </div>
+
+          <div className="space-y-4">
+            {registering && (
+              <input
+                value={loginForm.invite}
+                onChange={(e) => setLoginForm(f => ({ ...f, invite: e.target.value }))}
+                placeholder="Код приглашения"
+                className={inputClass}
+              />
+            )}
+            <input
+              value={loginForm.username}
+              onChange={(e) => setLoginForm(f => ({ ...f, username: e.target.value }))}
+              placeholder="Имя пользователя"
+              autoComplete="username"
+              className={inputClass}
+            />
+            <input
+              type="password"
+              value={loginForm.password}
+              onChange={(e) => setLoginForm(f => ({ ...f, password: e.target.value }))}
+              onKeyDown={(e) => e.key === 'Enter' && handleLogin()}
+              placeholder="Пароль"
+              autoComplete={registering ? 'new-password' : 'current-password'}
+              className={inputClass}
+            />
 
-  function formatResetTime(resetAt: number) {
-    const now = Date.now();
-    const diff = resetAt - now;
-    if (diff <= 0) return 'сейчас';
-    
-    if (diff < 3600000) { // < 1 hour
-      return `через ${Math.ceil(diff / 60000)} мин`;
-    }
-    
-    const date = new Date(resetAt);
-    return `в ${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
-  }
+            {keyError && (
+              <div className="flex items-center gap-2 text-red-500 text-sm">
+                <AlertCircle size={16} />
+                {keyError}
+              </div>
+            )}
 
-  function getQuotaBadge(model: Model) {
-    const quota = getQuota(model.value);
-    if (!quota) {
-      return null;
-    }
-    
-    if (quota.limit === 0) {
-      return { text: 'Недоступна', color: 'bg-zinc-200 text-zinc-500' };
-    }
-    
-    if (quota.remaining === 0) {
-      const resetText = quota.resetAt ? ` (сброс ${formatResetTime(quota.resetAt)})` : '';
-      return { text: `Лимит исчерпан${resetText}`, color: 'bg-red-500 text-white' };
-    }
+            <button
+              onClick={handleLogin}
+              disabled={checkingKey || !loginForm.username.trim() || !loginForm.password || (registering && !loginForm.invite.trim())}
+              className="w-full bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-medium rounded-lg py-3 transition"
+            >
+              {checkingKey ? 'Проверяем...' : registering ? 'Создать аккаунт' : 'Войти'}
+            </button>
 
-    if (quota.limit !== null && quota.remaining !== null) {
-      const ratio = quota.remaining / quota.limit;
-      if (ratio <= 0.2) {
-        return { text: `${quota.remaining}/${quota.limit} осталось`, color: 'bg-orange-500 text-white' };
-      }
-      return { text: `${quota.remaining}/${quota.limit}`, color: 'bg-green-500 text-white' };
-    }
-    
-    return null;
+            <button
+              onClick={() => { setRegistering(!registering); setKeyError(''); }}
+              className="w-full text-sm text-blue-500 hover:text-blue-600"
+            >
+              {registering ? 'Уже есть аккаунт? Войти' : 'Есть приглашение? Зарегистрироваться'}
+            </button>
+          </div>
+
+          <div className="mt-8 p-4 bg-zinc-50 rounded-lg border border-zinc-200">
+            <p className="text-zinc-500 text-xs text-center">
+              Запросы идут через ключи сервера с лимитами на пользователя.
+              Чаты сохраняются локально в этом браузере.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
   }
 
   // API Key modal
@@ -886,6 +3382,36 @@ export default function App() {
   }
 
   const currentModel = models.find(m => m.value === selectedModel) || models[0];
+  const assistantIcons = new Map(assistants.map(a => [a.id, a.icon]));
+  const allChatTags = chatTags(chats);
+  const activeTag = allChatTags.includes(tagFilter) ? tagFilter : '';
+  const filteringChats = showArchive || !!activeTag || assistantIcons.has(assistantFilter);
+  const listedChats = chats.filter(chat =>
+    (chat.archivedAt !== undefined) === showArchive &&
+    (!assistantIcons.has(assistantFilter) || chat.assistantId === assistantFilter) &&
+    (!activeTag || !!chat.tags?.includes(activeTag))
+  );
+  const archivedCount = chats.filter(chat => chat.archivedAt !== undefined).length;
+  // Folder tree; chats and folders whose folder isn't known here sit at the top level ('' and null)
+  const folderList = folderOptions(folders);
+  const folderIds = new Set(folders.map(f => f.id));
+  const subfolders = new Map<string | null, Folder[]>();
+  for (const { folder } of folderList) {
+    const parentId = folder.parentId && folderIds.has(folder.parentId) ? folder.parentId : null;
+    subfolders.set(parentId, [...(subfolders.get(parentId) ?? []), folder]);
+  }
+  const chatsInFolder = new Map<string, Chat[]>();
+  for (const chat of listedChats) {
+    if (chat.pinnedAt !== undefined) continue;
+    const folderId = chat.folderId && folderIds.has(chat.folderId) ? chat.folderId : '';
+    chatsInFolder.set(folderId, [...(chatsInFolder.get(folderId) ?? []), chat]);
+  }
+  const currentAssistantId = chats.find(c => c.id === currentChatId)?.assistantId;
+  const currentAssistant = assistants.find(a => a.id === currentAssistantId);
+  const usageReport = buildUsageReport(usageMessages, pricing);
+  const chatUsage = currentChatId ? usageReport.byChat[currentChatId] : undefined;
+  const hasChatOverrides = !isEmptyConfig(chatGenerationConfig) || Object.keys(chatSafetySettings ?? {}).length > 0;
+  const lastSummaryIndex = messages.map(m => !!m.summary).lastIndexOf(true);
 
   return (
     <div 
@@ -898,52 +3424,148 @@ export default function App() {
       {dragOver && (
         <div className="fixed inset-0 bg-blue-500/20 backdrop-blur-sm z-50 flex items-center justify-center">
           <div className="bg-white rounded-2xl p-8 text-center shadow-xl">
-            <Image size={48} className="mx-auto mb-4 text-blue-500" />
-            <p className="text-zinc-900 text-lg">Перетащите изображения сюда</p>
+            <Paperclip size={48} className="mx-auto mb-4 text-blue-500" />
+            <p className="text-zinc-900 text-lg">Перетащите файлы сюда</p>
+            <p className="text-zinc-500 text-sm mt-1">Изображения, PDF, аудио, текст и код</p>
           </div>
         </div>
       )}
 
       <aside className={`${sidebarOpen ? 'w-72' : 'w-0'} transition-all duration-300 overflow-hidden flex-shrink-0 ${theme === 'dark' ? 'bg-zinc-900 border-zinc-800' : 'bg-zinc-50 border-zinc-200'} border-r flex flex-col`}>
         <div className="p-4">
-          <button
-            onClick={handleNewChat}
-            className={`w-full flex items-center justify-center gap-2 px-4 py-2 rounded-full ${theme === 'dark' ? 'bg-zinc-800 hover:bg-zinc-700' : 'bg-white hover:bg-zinc-100'} border ${theme === 'dark' ? 'border-zinc-700' : 'border-zinc-200'} transition`}
-          >
-            <Plus size={18} />
-            Новый чат
-          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleNewChat()}
+              className={`flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-full ${theme === 'dark' ? 'bg-zinc-800 hover:bg-zinc-700' : 'bg-white hover:bg-zinc-100'} border ${theme === 'dark' ? 'border-zinc-700' : 'border-zinc-200'} transition`}
+            >
+              <Plus size={18} />
+              Новый чат
+            </button>
+            <button
+              onClick={() => setShowAssistants(true)}
+              className={`p-2 rounded-full ${theme === 'dark' ? 'bg-zinc-800 hover:bg-zinc-700' : 'bg-white hover:bg-zinc-100'} border ${theme === 'dark' ? 'border-zinc-700' : 'border-zinc-200'} transition`}
+              title="Ассистенты"
+            >
+              <Sparkles size={18} />
+            </button>
+          </div>
+          {assistants.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-1">
+              {assistants.map(assistant => (
+                <button
+                  key={assistant.id}
+                  onClick={() => handleNewChat(assistant)}
+                  className={`max-w-full truncate px-2 py-1 rounded-full text-xs border ${theme === 'dark' ? 'border-zinc-700 hover:bg-zinc-800' : 'border-zinc-200 hover:bg-white'}`}
+                  title={`Новый чат с ассистентом «${assistant.name}»`}
+                >
+                  {assistant.icon} {assistant.name}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className={`mt-3 flex items-center gap-2 px-3 py-2 rounded-full border ${theme === 'dark' ? 'bg-zinc-800 border-zinc-700' : 'bg-white border-zinc-200'}`}>
+            <Search size={14} className="opacity-50 flex-shrink-0" />
+            <input
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && setSearchQuery('')}
+              placeholder="Поиск по чатам..."
+              className="flex-1 min-w-0 bg-transparent outline-none text-sm"
+            />
+            {searchQuery && (
+              <button onClick={() => setSearchQuery('')} className="opacity-50 hover:opacity-100">
+                <X size={14} />
+              </button>
+            )}
+          </div>
+          {(assistants.length > 0 || allChatTags.length > 0) && !searchQuery.trim() && (
+            <div className="mt-2 flex gap-2">
+              {assistants.length > 0 && (
+                <select
+                  value={assistantFilter}
+                  onChange={(e) => setAssistantFilter(e.target.value)}
+                  className={`flex-1 min-w-0 px-3 py-1.5 rounded-full text-sm border outline-none ${theme === 'dark' ? 'bg-zinc-800 border-zinc-700' : 'bg-white border-zinc-200'}`}
+                  title="Показать чаты ассистента"
+                >
+                  <option value="">Все чаты</option>
+                  {assistants.map(assistant => (
+                    <option key={assistant.id} value={assistant.id}>{assistant.icon} {assistant.name}</option>
+                  ))}
+                </select>
+              )}
+              {allChatTags.length > 0 && (
+                <select
+                  value={activeTag}
+                  onChange={(e) => setTagFilter(e.target.value)}
+                  className={`flex-1 min-w-0 px-3 py-1.5 rounded-full text-sm border outline-none ${theme === 'dark' ? 'bg-zinc-800 border-zinc-700' : 'bg-white border-zinc-200'}`}
+                  title="Показать чаты с тегом"
+                >
+                  <option value="">Все теги</option>
+                  {allChatTags.map(tag => (
+                    <option key={tag} value={tag}>#{tag}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
         </div>
 
         <div className="flex-1 overflow-y-auto px-3 pb-3">
-          {chats.map(chat => (
-            <div
-              key={chat.id}
-              onClick={() => selectChat(chat.id)}
-              className={`group flex items-center gap-2 px-3 py-2 rounded-xl cursor-pointer mb-1 ${
-                currentChatId === chat.id
-                  ? theme === 'dark' ? 'bg-zinc-800' : 'bg-white shadow-sm'
-                  : theme === 'dark' ? 'hover:bg-zinc-800/60' : 'hover:bg-white'
-              }`}
-            >
-              <MessageSquare size={16} className="flex-shrink-0 opacity-50" />
-              <span className="flex-1 truncate text-sm">{chat.title}</span>
+          {searchQuery.trim() ? (
+            searchResults.length === 0 ? (
+              <p className="text-xs text-zinc-500 text-center mt-4">Ничего не найдено</p>
+            ) : searchResults.map(result => (
               <button
-                onClick={(e) => { e.stopPropagation(); handleDeleteChat(chat.id); }}
-                className="opacity-0 group-hover:opacity-100 p-1 hover:text-red-400 transition"
-                title="Удалить чат"
+                key={result.messageId || result.chatId}
+                onClick={() => openSearchResult(result)}
+                className={`w-full text-left px-3 py-2 rounded-xl mb-1 ${theme === 'dark' ? 'hover:bg-zinc-800/60' : 'hover:bg-white'}`}
               >
-                <Trash2 size={14} />
+                <div className="text-xs text-zinc-500 truncate flex items-center gap-1">
+                  {result.messageId
+                    ? result.role === 'user' ? <User size={12} /> : <Bot size={12} />
+                    : <MessageSquare size={12} />}
+                  {result.chatTitle}
+                </div>
+                <div className="text-sm line-clamp-2 break-words">
+                  {result.snippet.map((part, i) => part.match
+                    ? <mark key={i} className="bg-yellow-200 text-zinc-900 rounded px-0.5">{part.text}</mark>
+                    : <span key={i}>{part.text}</span>
+                  )}
+                </div>
               </button>
-            </div>
-          ))}
+            ))
+          ) : renderChatList()}
         </div>
 
-        <div className={`p-3 border-t ${theme === 'dark' ? 'border-zinc-800' : 'border-zinc-200'}`}>
-          <p className="text-xs text-zinc-500 text-center">
-            История хранится локально
-          </p>
-        </div>
+        {selectedChats ? renderSelectionBar(selectedChats) : (
+          <div className={`p-3 border-t flex items-center gap-1 ${theme === 'dark' ? 'border-zinc-800' : 'border-zinc-200'}`}>
+            <button
+              onClick={() => setFolderForm({ name: '', parentId: null })}
+              className={`p-2 rounded-full ${theme === 'dark' ? 'hover:bg-zinc-800' : 'hover:bg-zinc-200/60'}`}
+              title="Новая папка"
+            >
+              <FolderPlus size={16} />
+            </button>
+            <button
+              onClick={() => setSelectedChats(new Set())}
+              className={`p-2 rounded-full ${theme === 'dark' ? 'hover:bg-zinc-800' : 'hover:bg-zinc-200/60'}`}
+              title="Выбрать несколько чатов"
+            >
+              <ListChecks size={16} />
+            </button>
+            <button
+              onClick={() => setShowArchive(!showArchive)}
+              className={`flex items-center gap-1 p-2 rounded-full ${showArchive ? 'text-blue-500' : ''} ${theme === 'dark' ? 'hover:bg-zinc-800' : 'hover:bg-zinc-200/60'}`}
+              title={showArchive ? 'Закрыть архив' : 'Архив'}
+            >
+              <Archive size={16} />
+              {archivedCount > 0 && <span className="text-xs tabular-nums">{archivedCount}</span>}
+            </button>
+            <p className="flex-1 text-xs text-zinc-500 text-right">
+              История хранится локально
+            </p>
+          </div>
+        )}
       </aside>
 
       <main className="flex-1 flex flex-col min-w-0">
@@ -953,8 +3575,30 @@ export default function App() {
           </button>
           <div>
             <h1 className="font-semibold text-lg">Pollux Chat</h1>
+            {chatUsage && (
+              <button onClick={() => setShowUsage(true)} className="block text-xs text-zinc-500 hover:text-blue-500 tabular-nums">
+                Чат: {formatTokens(totalTokens(chatUsage))} ток. · {formatCost(chatUsage.cost)}
+              </button>
+            )}
           </div>
           <div className="flex-1" />
+          {keyRing && keyRing.profiles.length > 1 && (
+            <select
+              value={keyRing.activeId}
+              onChange={(e) => switchProfile(e.target.value)}
+              disabled={isLoading}
+              title="Профиль ключа API"
+              className={`px-3 py-2 rounded-full text-sm border outline-none ${
+                theme === 'dark'
+                  ? 'border-zinc-700 bg-zinc-800 text-zinc-200'
+                  : 'border-zinc-200 bg-white text-zinc-700'
+              }`}
+            >
+              {keyRing.profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>🔑 {profile.name}</option>
+              ))}
+            </select>
+          )}
           <div className="relative" ref={modelDropdownRef}>
             <button
               onClick={() => setShowModelDropdown(prev => !prev)}
@@ -977,8 +3621,9 @@ export default function App() {
                 <div className="p-3 border-b border-zinc-200/70 flex items-center justify-between">
                   <span className="text-xs text-zinc-500">Модели</span>
                   <button
-                    onClick={() => loadModels(apiKey)}
+                    onClick={() => loadModels(apiKey, { refresh: true, probe: true })}
                     className={`p-1 rounded ${theme === 'dark' ? 'hover:bg-zinc-800' : 'hover:bg-zinc-100/60'}`}
+                    title="Обновить список и проверить доступность"
                   >
                     <RefreshCw size={14} className={loadingModels ? 'animate-spin' : ''} />
                   </button>
@@ -993,7 +3638,7 @@ export default function App() {
                     return (
                       <button
                         key={model.value}
-                        onClick={() => { setSelectedModel(model.value); setShowModelDropdown(false); }}
+                        onClick={() => selectModel(model.value)}
                         className={`w-full text-left px-4 py-3 border-b transition-colors relative ${
                           theme === 'dark' ? 'border-zinc-800' : 'border-zinc-100'
                         } ${
@@ -1009,6 +3654,9 @@ export default function App() {
                         <div className="flex items-center justify-between gap-2">
                           <div className={`font-semibold text-sm ${isSelected ? 'text-blue-500' : ''}`}>
                             {model.label}
+                            {model.provider && model.provider !== 'gemini' && (
+                              <span className="ml-2 text-[10px] font-normal uppercase tracking-wide text-zinc-400">{model.provider}</span>
+                            )}
                           </div>
                           {badge && (
                             <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full ${badge.color}`}>
@@ -1019,10 +3667,21 @@ export default function App() {
                         <div className="text-[11px] text-zinc-500 mt-1 line-clamp-2 leading-relaxed">
                           {model.description}
                         </div>
-                        {model.inputTokens && ( 
+                        {(model.inputTokens || model.capabilities?.vision || model.capabilities?.thinking) && (
                           <div className="text-[10px] text-zinc-400 mt-1.5 flex items-center gap-2">
-                            <ArrowRightLeft size={10} />
-                            {(model.inputTokens / 1000).toFixed(0)}K вх / {(model.outputTokens! / 1000).toFixed(0)}K исх
+                            {model.inputTokens && (
+                              <>
+                                <ArrowRightLeft size={10} />
+                                {(model.inputTokens / 1000).toFixed(0)}K вх
+                                {model.outputTokens && <> / {(model.outputTokens / 1000).toFixed(0)}K исх</>}
+                              </>
+                            )}
+                            {model.capabilities?.vision && (
+                              <span className="flex items-center gap-0.5" title="Понимает изображения"><Eye size={10} /> зрение</span>
+                            )}
+                            {model.capabilities?.thinking && (
+                              <span className="flex items-center gap-0.5" title="Модель с рассуждениями"><Brain size={10} /> рассуждения</span>
+                            )}
                           </div>
                         )}
                       </button>
@@ -1034,12 +3693,30 @@ export default function App() {
           <button onClick={() => setShowSystemPrompt(true)} className={`p-2 rounded-full ${theme === 'dark' ? 'hover:bg-zinc-800' : 'hover:bg-zinc-200/60'}`} title="Системный промпт">
             <Settings size={18} />
           </button>
+          <button onClick={() => setShowPromptLibrary(true)} className={`p-2 rounded-full ${theme === 'dark' ? 'hover:bg-zinc-800' : 'hover:bg-zinc-200/60'}`} title="Библиотека промптов">
+            <BookOpen size={18} />
+          </button>
+          <button
+            onClick={openGenerationSettings}
+            className={`p-2 rounded-full ${theme === 'dark' ? 'hover:bg-zinc-800' : 'hover:bg-zinc-200/60'} ${hasChatOverrides ? 'text-blue-500' : ''}`}
+            title={hasChatOverrides ? 'Параметры генерации (настроены для этого чата)' : 'Параметры генерации'}
+          >
+            <SlidersHorizontal size={18} />
+          </button>
+          <button onClick={() => setShowUsage(true)} className={`p-2 rounded-full ${theme === 'dark' ? 'hover:bg-zinc-800' : 'hover:bg-zinc-200/60'}`} title="Расход токенов">
+            <ChartColumn size={18} />
+          </button>
           <button onClick={handleExport} className={`p-2 rounded-full ${theme === 'dark' ? 'hover:bg-zinc-800' : 'hover:bg-zinc-200/60'}`} title="Экспорт">
             <Download size={18} />
           </button>
           <button onClick={toggleTheme} className={`p-2 rounded-full ${theme === 'dark' ? 'hover:bg-zinc-800' : 'hover:bg-zinc-200/60'}`}>
             {theme === 'dark' ? <Sun size={18} /> : <Moon size={18} />}
           </button>
+          {vaultMode === 'passphrase' && (
+            <button onClick={handleLock} className={`p-2 rounded-full ${theme === 'dark' ? 'hover:bg-zinc-800' : 'hover:bg-zinc-200/60'}`} title="Заблокировать">
+              <Lock size={18} />
+            </button>
+          )}
           <button onClick={() => setShowSettings(true)} className={`p-2 rounded-full ${theme === 'dark' ? 'hover:bg-zinc-800 text-red-300' : 'hover:bg-zinc-200/60 text-red-500'}`} title="Выйти">
             <ArrowRightLeft size={18} />
           </button>
@@ -1064,86 +3741,139 @@ export default function App() {
         <div className="flex-1 overflow-y-auto px-6 py-6 space-y-4">
           {messages.length === 0 && !streamingText && (
             <div className="h-full flex items-center justify-center">
-              <div className="text-center">
-                <h2 className="text-2xl font-semibold mb-2">Начните диалог</h2>
-                <p className="text-zinc-500">Напишите сообщение или перетащите изображение</p>
-              </div>
+              {currentAssistant ? (
+                <div className="text-center max-w-xl">
+                  <div className="text-4xl mb-2">{currentAssistant.icon}</div>
+                  <h2 className="text-2xl font-semibold mb-4">{currentAssistant.name}</h2>
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {currentAssistant.starters.map(starter => (
+                      <button
+                        key={starter}
+                        onClick={() => sendMessage(starter, [])}
+                        disabled={!apiKey || isLoading}
+                        className={`px-4 py-2 rounded-xl border text-sm text-left disabled:opacity-50 ${theme === 'dark' ? 'border-zinc-700 hover:bg-zinc-800' : 'border-zinc-200 hover:bg-white'}`}
+                      >
+                        {starter}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <div className="text-center">
+                  <h2 className="text-2xl font-semibold mb-2">Начните диалог</h2>
+                  <p className="text-zinc-500">Напишите сообщение или перетащите изображение</p>
+                </div>
+              )}
             </div>
           )}
 
-          {messages.map(message => (
-            <div key={message.id} className={`flex gap-3 ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-              {message.role === 'model' && (
-                <div className="h-9 w-9 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center flex-shrink-0">
-                  <Bot size={18} />
-                </div>
-              )}
-              <div className={`max-w-[85%] sm:max-w-3xl rounded-2xl px-4 py-3 shadow-sm overflow-hidden break-words ${
-                message.role === 'user'
-                  ? 'bg-blue-600 text-white'
-                  : theme === 'dark' ? 'bg-zinc-800 text-zinc-100' : 'bg-white text-zinc-900'
-              }`}>
-                {message.images && message.images.length > 0 && (
-                  <div className="flex flex-wrap gap-2 mb-3">
-                    {message.images.map((img, i) => (
-                      <img key={i} src={img} alt="" className="max-h-40 rounded-lg border border-zinc-200" />
-                    ))}
+          {messages.map((message, index) => (
+            <Fragment key={message.id}>
+              <div
+                id={`message-${message.id}`}
+                className={`flex gap-3 ${message.role === 'user' ? 'justify-end' : 'justify-start'} ${
+                  highlightMessageId === message.id ? 'rounded-2xl ring-2 ring-yellow-400 ring-offset-4 ring-offset-transparent' : ''
+                }`}
+              >
+                {message.role === 'model' && (
+                  <div className="h-9 w-9 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center flex-shrink-0">
+                    <Bot size={18} />
                   </div>
                 )}
+                <div className={`max-w-[85%] sm:max-w-3xl rounded-2xl px-4 py-3 shadow-sm overflow-hidden break-words ${
+                  message.role === 'user'
+                    ? 'bg-blue-600 text-white'
+                    : theme === 'dark' ? 'bg-zinc-800 text-zinc-100' : 'bg-white text-zinc-900'
+                }`}>
+                  {getCompactionNote(message, index) && (
+                    <div className="flex items-center gap-1 text-[11px] opacity-70 mb-1">
+                      <Archive size={12} /> {getCompactionNote(message, index)}
+                    </div>
+                  )}
+                  {message.attachments && message.attachments.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-3">
+                      {message.attachments.map((attachment, i) => (
+                        <Fragment key={i}>{renderAttachment(attachment, 'message')}</Fragment>
+                      ))}
+                    </div>
+                  )}
 
-                {editingMessageId === message.id ? (
-                  <div>
-                    <textarea
-                      value={editingContent}
-                      onChange={(e) => setEditingContent(e.target.value)}
-                      className="w-full bg-zinc-100 rounded-lg p-2 text-zinc-900 resize-none"
-                      rows={4}
-                    />
-                    <div className="flex gap-2 mt-2">
-                      <button onClick={handleSaveEdit} className="flex items-center gap-1 text-sm text-green-600 hover:text-green-500">
-                        <Check size={14} /> Сохранить и отправить
+                  {editingMessageId === message.id ? (
+                    <div>
+                      <textarea
+                        value={editingContent}
+                        onChange={(e) => setEditingContent(e.target.value)}
+                        className="w-full bg-zinc-100 rounded-lg p-2 text-zinc-900 resize-none"
+                        rows={4}
+                      />
+                      <div className="flex gap-2 mt-2">
+                        <button onClick={handleSaveEdit} className="flex items-center gap-1 text-sm text-green-600 hover:text-green-500">
+                          <Check size={14} /> Сохранить и отправить
+                        </button>
+                        <button onClick={() => setEditingMessageId(null)} className="text-sm text-zinc-400 hover:text-zinc-600">
+                          Отмена
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className={`prose prose-sm max-w-none ${theme === 'dark' || message.role === 'user' ? 'prose-invert' : ''}`}>
+                      <ReactMarkdown rehypePlugins={[rehypeHighlight]}>
+                        {message.content}
+                      </ReactMarkdown>
+                    </div>
+                  )}
+
+                  {message.role === 'model' && renderFinishNote(message, index)}
+
+                  {message.role === 'model' && (
+                    <div className="flex justify-end gap-3 mt-3 text-xs text-zinc-500">
+                      {renderBranchSwitcher(message)}
+                      {message.usage && (
+                        <span
+                          className="tabular-nums opacity-70"
+                          title={`Запрос: ${message.usage.promptTokens} · ответ: ${message.usage.candidatesTokens} · рассуждения: ${message.usage.thinkingTokens}`}
+                        >
+                          {formatTokens(totalTokens(message.usage))} ток.
+                        </span>
+                      )}
+                      <button onClick={() => handleRetryMessage(message.id)} className="flex items-center gap-1 hover:text-blue-600">
+                        <RotateCcw size={14} /> Повторить
+                      </button>
+                      <button onClick={() => copyToClipboard(message.content)} className="flex items-center gap-1 hover:text-blue-600">
+                        <Copy size={14} /> Копировать
                       </button>
-                      <button onClick={() => setEditingMessageId(null)} className="text-sm text-zinc-400 hover:text-zinc-600">
-                        Отмена
+                      <button onClick={() => handleDeleteMessage(message.id)} className="flex items-center gap-1 hover:text-red-500">
+                        <Trash2 size={14} /> Удалить
                       </button>
                     </div>
-                  </div>
-                ) : (
-                  <div className={`prose prose-sm max-w-none ${theme === 'dark' || message.role === 'user' ? 'prose-invert' : ''}`}>
-                    <ReactMarkdown rehypePlugins={[rehypeHighlight]}>
-                      {message.content}
-                    </ReactMarkdown>
-                  </div>
-                )}
-
-                {message.role === 'model' && (
-                  <div className="flex justify-end gap-3 mt-3 text-xs text-zinc-500">
-                    <button onClick={() => handleRetryMessage(message.id)} className="flex items-center gap-1 hover:text-blue-600">
-                      <RotateCcw size={14} /> Повторить
-                    </button>
-                    <button onClick={() => copyToClipboard(message.content)} className="flex items-center gap-1 hover:text-blue-600">
-                      <Copy size={14} /> Копировать
-                    </button>
-                    <button onClick={() => handleDeleteMessage(message.id)} className="flex items-center gap-1 hover:text-red-500">
-                      <Trash2 size={14} /> Удалить
-                    </button>
-                  </div>
-                )}
+                  )}
 
-                {message.role === 'user' && !editingMessageId && (
-                  <div className="flex justify-end mt-2 text-xs text-blue-100">
-                    <button onClick={() => startEdit(message)} className="flex items-center gap-1 hover:text-white">
-                      <Pencil size={12} /> Редактировать
-                    </button>
+                  {message.role === 'user' && !editingMessageId && (
+                    <div className="flex justify-end gap-3 mt-2 text-xs text-blue-100">
+                      {renderBranchSwitcher(message)}
+                      <button onClick={() => startEdit(message)} className="flex items-center gap-1 hover:text-white">
+                        <Pencil size={12} /> Редактировать
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {message.role === 'user' && (
+                  <div className="h-9 w-9 rounded-full bg-zinc-200 text-zinc-700 flex items-center justify-center flex-shrink-0">
+                    <User size={18} />
                   </div>
                 )}
               </div>
-              {message.role === 'user' && (
-                <div className="h-9 w-9 rounded-full bg-zinc-200 text-zinc-700 flex items-center justify-center flex-shrink-0">
-                  <User size={18} />
-                </div>
+              {index === lastSummaryIndex && (
+                <details className={`mx-auto max-w-3xl rounded-xl border px-4 py-2 text-sm ${theme === 'dark' ? 'border-zinc-700 bg-zinc-800/50' : 'border-zinc-200 bg-white'}`}>
+                  <summary className="cursor-pointer flex items-center gap-2 text-zinc-500">
+                    <Archive size={14} /> Сообщения выше сжаты в краткое содержание
+                  </summary>
+                  <div className={`prose prose-sm max-w-none mt-2 ${theme === 'dark' ? 'prose-invert' : ''}`}>
+                    <ReactMarkdown>{message.summary}</ReactMarkdown>
+                  </div>
+                </details>
               )}
-            </div>
+            </Fragment>
           ))}
 
           {streamingText && (
@@ -1161,6 +3891,26 @@ export default function App() {
             </div>
           )}
 
+          {backgroundReply && (
+            <div className="flex gap-3">
+              <div className="h-9 w-9 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center flex-shrink-0">
+                <Bot size={18} />
+              </div>
+              <div className={`max-w-[85%] sm:max-w-3xl rounded-2xl px-4 py-3 shadow-sm overflow-hidden break-words ${theme === 'dark' ? 'bg-zinc-800 text-zinc-100' : 'bg-white text-zinc-900'}`}>
+                {backgroundReply.content && (
+                  <div className={`prose prose-sm max-w-none ${theme === 'dark' ? 'prose-invert' : ''}`}>
+                    <ReactMarkdown rehypePlugins={[rehypeHighlight]}>
+                      {backgroundReply.content}
+                    </ReactMarkdown>
+                  </div>
+                )}
+                <div className={`text-xs ${backgroundReply.content ? 'mt-2' : ''} ${theme === 'dark' ? 'text-zinc-500' : 'text-zinc-400'}`}>
+                  Ответ ещё генерируется…
+                </div>
+              </div>
+            </div>
+          )}
+
           {isLoading && !streamingText && (
             <div className="flex gap-3">
               <div className="h-9 w-9 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center flex-shrink-0">
@@ -1178,13 +3928,13 @@ export default function App() {
         </div>
 
         <div className={`px-6 py-4 border-t ${theme === 'dark' ? 'border-zinc-800' : 'border-zinc-200'}`}>
-          {images.length > 0 && (
+          {attachments.length > 0 && (
             <div className="flex flex-wrap gap-2 mb-3">
-              {images.map((img, i) => (
+              {attachments.map((attachment, i) => (
                 <div key={i} className="relative">
-                  <img src={img} alt="" className="h-16 rounded-lg border border-zinc-200" />
+                  {renderAttachment(attachment, 'draft')}
                   <button
-                    onClick={() => setImages(prev => prev.filter((_, idx) => idx !== i))}
+                    onClick={() => setAttachments(prev => prev.filter((_, idx) => idx !== i))}
                     className="absolute -top-1 -right-1 bg-red-500 rounded-full p-0.5"
                   >
                     <X size={12} className="text-white" />
@@ -1199,15 +3949,16 @@ export default function App() {
               type="file"
               ref={fileInputRef}
               onChange={(e) => { if (e.target.files) handleFiles(e.target.files); e.target.value = ''; }}
-              accept="image/*"
+              accept={ATTACHMENT_ACCEPT}
               multiple
               className="hidden"
             />
             <button
               onClick={() => fileInputRef.current?.click()}
               className={`p-2.5 rounded-full border ${theme === 'dark' ? 'border-zinc-700 bg-zinc-800' : 'border-zinc-200 bg-white'} hover:border-blue-400`}
+              title="Прикрепить файлы"
             >
-              <Image size={20} />
+              <Paperclip size={20} />
             </button>
 
             <textarea
@@ -1239,7 +3990,7 @@ export default function App() {
               <>
                 <button
                   onClick={handleSend}
-                  disabled={!input.trim() && images.length === 0}
+                  disabled={!input.trim() && attachments.length === 0}
                   className="flex items-center gap-2 px-4 py-2 rounded-full bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white"
                 >
                   <Send size={18} />
@@ -1278,6 +4029,14 @@ export default function App() {
               </div>
             </div>
             <div className="flex justify-end gap-2 mt-4">
+              <button
+                onClick={() => { setPromptForm({ name: '', tags: '', content: chatSystemPrompt }); setShowPromptLibrary(true); }}
+                disabled={!chatSystemPrompt.trim()}
+                className="mr-auto px-4 py-2 text-zinc-400 hover:text-zinc-600 disabled:opacity-50"
+                title="Сохранить промпт текущего чата как шаблон"
+              >
+                В библиотеку
+              </button>
               <button onClick={() => setShowSystemPrompt(false)} className="px-4 py-2 text-zinc-400 hover:text-zinc-600">
                 Отмена
               </button>
@@ -1289,18 +4048,285 @@ export default function App() {
         </div>
       )}
 
+      {showGenerationSettings && renderGenerationSettings()}
+      {showUsage && renderUsageView()}
+      {showPromptLibrary && renderPromptLibrary()}
+      {showAssistants && renderAssistants()}
+      {folderForm && renderFolderDialog(folderForm)}
+      {exportChatIds && renderExportDialog(exportChatIds)}
+
       {showSettings && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className={`w-full max-w-sm rounded-2xl p-6 ${theme === 'dark' ? 'bg-zinc-800' : 'bg-white'}`}>
             <h2 className="text-lg font-semibold mb-4">Настройки</h2>
+            {hostedAccount && (
+              <div className="mb-4">
+                <label className="block text-xs text-zinc-500 mb-2">Аккаунт</label>
+                <p className="text-sm">
+                  {hostedAccount.user.username}
+                  {hostedAccount.user.role === 'admin' && <span className="ml-2 text-xs text-zinc-500">администратор</span>}
+                </p>
+                <p className="text-xs text-zinc-500 mt-1">
+                  Сегодня: {hostedAccount.usage.requests} запрос(ов), ~{(hostedAccount.usage.inputTokens + hostedAccount.usage.outputTokens).toLocaleString()}
+                  {hostedAccount.limits.dailyTokens ? ` из ${hostedAccount.limits.dailyTokens.toLocaleString()}` : ''} токенов
+                  {hostedAccount.limits.perMinute ? ` · до ${hostedAccount.limits.perMinute} запросов в минуту` : ''}
+                </p>
+              </div>
+            )}
+            {keyRing && (
+              <div className="mb-4">
+                <label className="block text-xs text-zinc-500 mb-2">Ключи API</label>
+                <div className="space-y-1">
+                  {keyRing.profiles.map(profile => (
+                    <div key={profile.id} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="radio"
+                        checked={profile.id === keyRing.activeId}
+                        onChange={() => switchProfile(profile.id)}
+                        disabled={isLoading}
+                      />
+                      <span className="flex-1 truncate">{profile.name}</span>
+                      <span className="text-xs text-zinc-500 font-mono">{maskKey(profile.key)}</span>
+                      {keyRing.profiles.length > 1 && (
+                        <button
+                          onClick={() => handleRemoveProfile(profile.id)}
+                          className="p-1 text-zinc-400 hover:text-red-500"
+                          title="Удалить профиль"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2 mt-2">
+                  <input
+                    value={newProfileName}
+                    onChange={(e) => setNewProfileName(e.target.value)}
+                    placeholder="Название"
+                    className={`w-28 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 border ${theme === 'dark' ? 'bg-zinc-900 border-zinc-700' : 'bg-zinc-100 border-zinc-200'}`}
+                  />
+                  <input
+                    type="password"
+                    value={newProfileKey}
+                    onChange={(e) => setNewProfileKey(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddProfile()}
+                    placeholder="AIza..."
+                    className={`flex-1 min-w-0 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 border ${theme === 'dark' ? 'bg-zinc-900 border-zinc-700' : 'bg-zinc-100 border-zinc-200'}`}
+                  />
+                  <button
+                    onClick={handleAddProfile}
+                    disabled={!newProfileKey.trim()}
+                    className={`px-3 py-2 rounded-lg border text-sm disabled:opacity-50 ${theme === 'dark' ? 'border-zinc-700 hover:bg-zinc-700' : 'border-zinc-200 hover:bg-zinc-100'}`}
+                    title="Добавить ключ"
+                  >
+                    <Plus size={16} />
+                  </button>
+                </div>
+                {keyRing.profiles.length > 1 && (
+                  <label className="flex items-center gap-2 text-xs text-zinc-500 mt-2">
+                    <input
+                      type="checkbox"
+                      checked={keyRotation}
+                      onChange={(e) => handleKeyRotationChange(e.target.checked)}
+                    />
+                    При исчерпании дневного лимита повторять запрос со следующим ключом
+                  </label>
+                )}
+                {profileStatus && (
+                  <p className="text-xs text-zinc-500 mt-2">{profileStatus}</p>
+                )}
+              </div>
+            )}
+            <div className="mb-4">
+              <label className="block text-xs text-zinc-500 mb-2">Резервная копия (все чаты, изображения и промпты)</label>
+              <button
+                onClick={handleExportBackup}
+                className={`w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg border ${theme === 'dark' ? 'border-zinc-700 hover:bg-zinc-700' : 'border-zinc-200 hover:bg-zinc-100'}`}
+              >
+                <Download size={16} /> Скачать JSON
+              </button>
+              <div className="flex gap-2 mt-2">
+                <button
+                  onClick={() => pickBackupFile('merge')}
+                  className={`flex-1 px-3 py-2 rounded-lg border text-sm ${theme === 'dark' ? 'border-zinc-700 hover:bg-zinc-700' : 'border-zinc-200 hover:bg-zinc-100'}`}
+                  title="Добавить чаты из файла, существующие не изменяются"
+                >
+                  Импорт: объединить
+                </button>
+                <button
+                  onClick={() => pickBackupFile('replace')}
+                  className={`flex-1 px-3 py-2 rounded-lg border text-sm ${theme === 'dark' ? 'border-zinc-700 hover:bg-zinc-700' : 'border-zinc-200 hover:bg-zinc-100'}`}
+                  title="Удалить текущие чаты и загрузить из файла"
+                >
+                  Импорт: заменить
+                </button>
+              </div>
+              <input
+                type="file"
+                ref={backupInputRef}
+                onChange={(e) => { if (e.target.files?.[0]) handleImportBackup(e.target.files[0]); e.target.value = ''; }}
+                accept="application/json,.json"
+                className="hidden"
+              />
+              {backupStatus && (
+                <p className="text-xs text-zinc-500 mt-2">{backupStatus}</p>
+              )}
+            </div>
+            <div className="mb-4">
+              <label className="block text-xs text-zinc-500 mb-2">Импорт из ChatGPT, Claude и Gemini</label>
+              <button
+                onClick={() => externalInputRef.current?.click()}
+                className={`w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg border ${theme === 'dark' ? 'border-zinc-700 hover:bg-zinc-700' : 'border-zinc-200 hover:bg-zinc-100'}`}
+              >
+                <Upload size={16} /> Выбрать файлы экспорта
+              </button>
+              <input
+                type="file"
+                multiple
+                ref={externalInputRef}
+                onChange={(e) => { if (e.target.files?.length) handleReadExport(Array.from(e.target.files)); e.target.value = ''; }}
+                className="hidden"
+              />
+              <p className="text-xs text-zinc-500 mt-2">
+                conversations.json из архива ChatGPT или Claude, MyActivity.json из Google Takeout (формат JSON).
+                Чтобы перенести изображения, выберите их вместе с файлом
+              </p>
+              {externalStatus && (
+                <p className="text-xs text-zinc-500 mt-2">{externalStatus}</p>
+              )}
+            </div>
+            {!hostedMode && (
+              <div className="mb-4">
+                <label className="block text-xs text-zinc-500 mb-2">
+                  {vaultMode === 'passphrase'
+                    ? 'Ключ защищён паролем'
+                    : 'Пароль для ключа (без него ключ привязан только к этому устройству)'}
+                </label>
+                <div className="space-y-2">
+                  {vaultMode === 'passphrase' && (
+                    <input
+                      type="password"
+                      value={passphraseForm.current}
+                      onChange={(e) => setPassphraseForm(f => ({ ...f, current: e.target.value }))}
+                      placeholder="Текущий пароль"
+                      className={`w-full rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 border ${theme === 'dark' ? 'bg-zinc-900 border-zinc-700' : 'bg-zinc-100 border-zinc-200'}`}
+                    />
+                  )}
+                  <input
+                    type="password"
+                    value={passphraseForm.next}
+                    onChange={(e) => setPassphraseForm(f => ({ ...f, next: e.target.value }))}
+                    placeholder={vaultMode === 'passphrase' ? 'Новый пароль' : 'Пароль (не короче 8 символов)'}
+                    className={`w-full rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 border ${theme === 'dark' ? 'bg-zinc-900 border-zinc-700' : 'bg-zinc-100 border-zinc-200'}`}
+                  />
+                  <input
+                    type="password"
+                    value={passphraseForm.confirm}
+                    onChange={(e) => setPassphraseForm(f => ({ ...f, confirm: e.target.value }))}
+                    placeholder="Повторите пароль"
+                    className={`w-full rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 border ${theme === 'dark' ? 'bg-zinc-900 border-zinc-700' : 'bg-zinc-100 border-zinc-200'}`}
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleSavePassphrase}
+                      disabled={!passphraseForm.next || (vaultMode === 'passphrase' && !passphraseForm.current)}
+                      className={`flex-1 px-3 py-2 rounded-lg border text-sm disabled:opacity-50 ${theme === 'dark' ? 'border-zinc-700 hover:bg-zinc-700' : 'border-zinc-200 hover:bg-zinc-100'}`}
+                    >
+                      {vaultMode === 'passphrase' ? 'Сменить пароль' : 'Включить пароль'}
+                    </button>
+                    {vaultMode === 'passphrase' && (
+                      <button
+                        onClick={handleDisableVault}
+                        disabled={!passphraseForm.current}
+                        className={`flex-1 px-3 py-2 rounded-lg border text-sm disabled:opacity-50 ${theme === 'dark' ? 'border-zinc-700 hover:bg-zinc-700' : 'border-zinc-200 hover:bg-zinc-100'}`}
+                        title="Снова шифровать ключ привязкой к устройству"
+                      >
+                        Отключить пароль
+                      </button>
+                    )}
+                  </div>
+                  {vaultMode === 'passphrase' && (
+                    <div className="flex items-center gap-2">
+                      <label className="text-xs text-zinc-500 flex-1">Блокировать после бездействия</label>
+                      <select
+                        value={autoLockMinutes}
+                        onChange={(e) => handleAutoLockChange(Number(e.target.value))}
+                        className={`rounded-lg px-2 py-1 text-sm border ${theme === 'dark' ? 'bg-zinc-900 border-zinc-700' : 'bg-zinc-100 border-zinc-200'}`}
+                      >
+                        {AUTO_LOCK_OPTIONS.map(minutes => (
+                          <option key={minutes} value={minutes}>
+                            {minutes === 0 ? 'Никогда' : `${minutes} мин`}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={handleLock}
+                        className={`flex items-center gap-1 px-3 py-1 rounded-lg border text-sm ${theme === 'dark' ? 'border-zinc-700 hover:bg-zinc-700' : 'border-zinc-200 hover:bg-zinc-100'}`}
+                      >
+                        <Lock size={14} /> Заблокировать сейчас
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {vaultStatus && (
+                  <p className="text-xs text-zinc-500 mt-2">{vaultStatus}</p>
+                )}
+              </div>
+            )}
+            <div className="mb-4">
+              <label className="block text-xs text-zinc-500 mb-2">Названия чатов</label>
+              <select
+                value={titleModel}
+                onChange={(e) => handleTitleModelChange(e.target.value)}
+                className={`w-full rounded-lg px-3 py-2 text-sm border outline-none ${theme === 'dark' ? 'bg-zinc-900 border-zinc-700' : 'bg-zinc-100 border-zinc-200'}`}
+              >
+                <option value="off">Начало первого сообщения</option>
+                <option value="chat">Придумывает модель чата</option>
+                {titleModel !== 'off' && titleModel !== 'chat' && !models.some(m => m.value === titleModel) && (
+                  <option value={titleModel}>Придумывает {titleModel} (недоступна)</option>
+                )}
+                {models.map(model => (
+                  <option key={model.value} value={model.value}>Придумывает {model.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-zinc-500 mt-1">
+                Название появляется после первого ответа; для экономии выберите быструю модель. Переименованные вручную чаты не меняются
+              </p>
+            </div>
+            {accessTokenRequired && (
+              <div className="mb-4">
+                <label className="block text-xs text-zinc-500 mb-2">Токен доступа к серверу (модели OpenAI-совместимых провайдеров и Ollama, синхронизация)</label>
+                <div className="flex gap-2">
+                  <input
+                    type="password"
+                    value={accessTokenInput}
+                    onChange={(e) => setAccessTokenInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSaveAccessToken()}
+                    placeholder="SERVER_ACCESS_TOKEN"
+                    className={`flex-1 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 border ${theme === 'dark' ? 'bg-zinc-900 border-zinc-700' : 'bg-zinc-100 border-zinc-200'}`}
+                  />
+                  <button
+                    onClick={handleSaveAccessToken}
+                    className={`px-3 py-2 rounded-lg border text-sm ${theme === 'dark' ? 'border-zinc-700 hover:bg-zinc-700' : 'border-zinc-200 hover:bg-zinc-100'}`}
+                  >
+                    Сохранить
+                  </button>
+                </div>
+                <p className="text-xs text-zinc-500 mt-1">
+                  Хранится вместе с ключами API и шифруется так же; чтобы забыть токен, сохраните пустое поле
+                </p>
+              </div>
+            )}
+            {syncAvailable && apiKey && renderSyncSettings()}
             <button
               onClick={handleLogout}
               className="w-full px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg text-white"
             >
-              Выйти и очистить ключ API
+              {hostedMode ? 'Выйти' : 'Выйти и удалить ключи API'}
             </button>
             <button
-              onClick={() => setShowSettings(false)}
+              onClick={() => { setShowSettings(false); setBackupStatus(''); setExternalStatus(''); setVaultStatus(''); setProfileStatus(''); setSyncStatus(''); setPassphraseForm({ current: '', next: '', confirm: '' }); setSyncForm({ passphrase: '', confirm: '' }); }}
               className="w-full px-4 py-2 mt-2 text-zinc-400 hover:text-zinc-600"
             >
               Отмена
@@ -1308,6 +4334,8 @@ export default function App() {
           </div>
         </div>
       )}
+
+      {externalImport && renderExternalImport(externalImport.conversations, externalImport.selected)}
     </div>
   );
 }
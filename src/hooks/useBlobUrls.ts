@@ -0,0 +1,50 @@
+import { useEffect, useRef, useState } from 'react';
+import { getBlob, getThumbnail } from '../lib/blobs';
+
+export interface BlobRef {
+  hash: string;
+  thumbnail: boolean;
+}
+
+function refKey({ hash, thumbnail }: BlobRef): string {
+  return thumbnail ? `${hash}:thumb` : hash;
+}
+
+// Object URLs for stored blobs, keyed by hash (":thumb" for thumbnails).
+// URLs no longer in refs are revoked
+export function useBlobUrls(refs: BlobRef[]): Record<string, string> {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const urlsRef = useRef(urls);
+  urlsRef.current = urls;
+  const wanted = [...new Set(refs.map(refKey))].sort().join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    const keys = wanted ? wanted.split(',') : [];
+
+    (async () => {
+      const next: Record<string, string> = {};
+      for (const key of keys) {
+        if (urlsRef.current[key]) {
+          next[key] = urlsRef.current[key];
+          continue;
+        }
+        const [hash, variant] = key.split(':');
+        const blob = variant === 'thumb' ? await getThumbnail(hash) : await getBlob(hash);
+        if (blob) next[key] = URL.createObjectURL(blob);
+      }
+      if (cancelled) {
+        Object.entries(next).forEach(([key, url]) => { if (urlsRef.current[key] !== url) URL.revokeObjectURL(url); });
+        return;
+      }
+      Object.entries(urlsRef.current).forEach(([key, url]) => { if (next[key] !== url) URL.revokeObjectURL(url); });
+      setUrls(next);
+    })();
+
+    return () => { cancelled = true; };
+  }, [wanted]);
+
+  useEffect(() => () => Object.values(urlsRef.current).forEach(url => URL.revokeObjectURL(url)), []);
+
+  return urls;
+}
@@ -0,0 +1,25 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel'] as const;
+
+// Calls onIdle after timeoutMs without user activity; null disables the timer
+export function useIdleTimer(timeoutMs: number | null, onIdle: () => void) {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!timeoutMs) return;
+
+    let timer = window.setTimeout(() => onIdleRef.current(), timeoutMs);
+    const reset = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => onIdleRef.current(), timeoutMs);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, reset, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, reset));
+    };
+  }, [timeoutMs]);
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { liveQuery } from 'dexie';
+
+// Result of an IndexedDB query, re-run whenever the tables it read change, in this tab or another.
+// Undefined until the first result; the previous result stays while deps change
+export function useLiveQuery<T>(query: () => Promise<T>, deps: unknown[]): T | undefined {
+  const [result, setResult] = useState<T>();
+
+  useEffect(() => {
+    const subscription = liveQuery(query).subscribe({
+      next: value => setResult(() => value),
+      error: error => console.error('Live query failed:', error)
+    });
+    return () => subscription.unsubscribe();
+  }, deps);
+
+  return result;
+}
@@ -0,0 +1,37 @@
+/**
+ * Server access token. Outside hosted mode, providers that run on the server's own keys (OpenAI-compatible, Ollama)
+ * and sync answer only requests carrying the SERVER_ACCESS_TOKEN the operator set, in the X-Access-Token header.
+ */
+
+const LEGACY_ACCESS_TOKEN_STORAGE = 'pollux-access-token';
+
+// Kept in the key ring (keyProfiles.ts), so the vault encrypts it with the API keys; here only while unlocked
+let accessToken = '';
+
+// False when the server has no token configured (or is unreachable)
+export async function isAccessTokenRequired(apiBase: string): Promise<boolean> {
+  try {
+    const res = await fetch(`${apiBase}/api/config`);
+    if (!res.ok) return false;
+    const data = await res.json();
+    return data.accessToken === true;
+  } catch {
+    return false;
+  }
+}
+
+export function setAccessToken(token: string): void {
+  accessToken = token;
+}
+
+// Earlier versions stored the token in plain text; returns and removes it
+export function takeLegacyAccessToken(): string {
+  const token = localStorage.getItem(LEGACY_ACCESS_TOKEN_STORAGE) || '';
+  localStorage.removeItem(LEGACY_ACCESS_TOKEN_STORAGE);
+  return token;
+}
+
+// Spread into the headers of requests that may reach those providers
+export function accessHeaders(): Record<string, string> {
+  return accessToken ? { 'X-Access-Token': accessToken } : {};
+}
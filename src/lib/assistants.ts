@@ -0,0 +1,194 @@
+/**
+ * Assistants: a name and icon over a model, system prompt, generation parameters and starter messages.
+ * Starting a chat from one copies its setup onto the chat, so later edits don't change existing chats.
+ * Exported and imported as JSON to share with others.
+ */
+
+import { db, createChat, tombstonesFor, withoutSyncFields, type Assistant, type Chat } from './db';
+import { compactConfig, isEmptyConfig, type GenerationConfig } from './generation';
+import { HARM_CATEGORIES, SAFETY_THRESHOLDS, type SafetySettings } from './safety';
+import { isObject, toDate } from './validate';
+
+export const ASSISTANT_LIBRARY_FORMAT = 'pollux-assistants';
+export const ASSISTANT_LIBRARY_VERSION = 1;
+export const DEFAULT_ASSISTANT_ICON = '🤖';
+
+export interface AssistantLibrary {
+  format: typeof ASSISTANT_LIBRARY_FORMAT;
+  version: number;
+  exportedAt: string;
+  assistants: Assistant[];
+}
+
+export type AssistantDraft = Omit<Assistant, 'id' | 'createdAt' | 'updatedAt' | 'modifiedAt' | 'syncedAt'> & {
+  id?: string; // editing an existing assistant
+};
+
+export interface AssistantImportSummary {
+  added: number;
+  updated: number; // same id, newer in the file
+  skipped: number;
+}
+
+// "Review this\n\n  Explain that " -> ["Review this", "Explain that"]
+export function parseStarters(input: string): string[] {
+  return input.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+export async function getAssistants(): Promise<Assistant[]> {
+  const assistants = await db.assistants.toArray();
+  return assistants.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Throws with a message for the user
+export async function saveAssistant(draft: AssistantDraft): Promise<Assistant> {
+  const name = draft.name.trim();
+  if (!name) throw new Error('Укажите название ассистента');
+
+  const existing = draft.id ? await db.assistants.get(draft.id) : undefined;
+  const fields = {
+    name,
+    icon: draft.icon.trim() || DEFAULT_ASSISTANT_ICON,
+    model: draft.model || undefined,
+    systemPrompt: draft.systemPrompt?.trim() ? draft.systemPrompt : undefined,
+    generationConfig: isEmptyConfig(draft.generationConfig) ? undefined : compactConfig(draft.generationConfig!),
+    safetySettings: draft.safetySettings && Object.keys(draft.safetySettings).length ? draft.safetySettings : undefined,
+    starters: draft.starters,
+    updatedAt: new Date()
+  };
+  if (existing) {
+    await db.assistants.update(existing.id, fields);
+    return { ...existing, ...fields };
+  }
+  const assistant: Assistant = { id: crypto.randomUUID(), ...fields, createdAt: new Date() };
+  await db.assistants.add(assistant);
+  return assistant;
+}
+
+// Chats started from it keep their copy of the setup
+export async function deleteAssistant(id: string): Promise<void> {
+  await db.transaction('rw', [db.assistants, db.tombstones], async () => {
+    const assistant = await db.assistants.get(id);
+    if (assistant?.syncedAt !== undefined) await db.tombstones.bulkPut(tombstonesFor('assistant', [id]));
+    await db.assistants.delete(id);
+  });
+}
+
+export async function startAssistantChat(assistant: Assistant): Promise<Chat> {
+  return createChat({
+    assistantId: assistant.id,
+    model: assistant.model,
+    systemPrompt: assistant.systemPrompt,
+    generationConfig: assistant.generationConfig,
+    safetySettings: assistant.safetySettings
+  });
+}
+
+export async function exportAssistantLibrary(): Promise<AssistantLibrary> {
+  return {
+    format: ASSISTANT_LIBRARY_FORMAT,
+    version: ASSISTANT_LIBRARY_VERSION,
+    exportedAt: new Date().toISOString(),
+    assistants: (await getAssistants()).map(withoutSyncFields)
+  };
+}
+
+function isNumberOrUnset(value: unknown): boolean {
+  return value === undefined || (typeof value === 'number' && Number.isFinite(value));
+}
+
+function parseGenerationConfig(value: unknown, i: number): GenerationConfig | undefined {
+  if (value === undefined) return undefined;
+  if (
+    !isObject(value) ||
+    !['temperature', 'topP', 'topK', 'maxOutputTokens'].every(field => isNumberOrUnset(value[field])) ||
+    !(value.stopSequences === undefined || (Array.isArray(value.stopSequences) && value.stopSequences.every((s: unknown) => typeof s === 'string')))
+  ) {
+    throw new Error(`Некорректные параметры генерации у ассистента #${i + 1}`);
+  }
+  const config = compactConfig(value);
+  return isEmptyConfig(config) ? undefined : config;
+}
+
+function parseSafetySettings(value: unknown, i: number): SafetySettings | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value) || !Object.entries(value).every(([category, threshold]) =>
+    HARM_CATEGORIES.some(c => c.id === category) && SAFETY_THRESHOLDS.some(t => t.id === threshold)
+  )) {
+    throw new Error(`Некорректные фильтры безопасности у ассистента #${i + 1}`);
+  }
+  return Object.keys(value).length ? value as SafetySettings : undefined;
+}
+
+// Assistants from library files and backups; unknown harm categories or thresholds are rejected
+export function parseAssistants(raw: unknown[]): Assistant[] {
+  return raw.map((assistant, i) => {
+    if (!isObject(assistant) || typeof assistant.name !== 'string' || !assistant.name.trim()) {
+      throw new Error(`Некорректный ассистент #${i + 1}`);
+    }
+    for (const field of ['icon', 'model', 'systemPrompt']) {
+      if (assistant[field] !== undefined && typeof assistant[field] !== 'string') {
+        throw new Error(`Некорректное поле ${field} у ассистента #${i + 1}`);
+      }
+    }
+    if (assistant.starters !== undefined && !(Array.isArray(assistant.starters) && assistant.starters.every((s: unknown) => typeof s === 'string'))) {
+      throw new Error(`Некорректные стартовые сообщения у ассистента #${i + 1}`);
+    }
+    return {
+      id: typeof assistant.id === 'string' && assistant.id ? assistant.id : crypto.randomUUID(),
+      name: assistant.name.trim(),
+      icon: assistant.icon?.trim() || DEFAULT_ASSISTANT_ICON,
+      model: assistant.model || undefined,
+      systemPrompt: assistant.systemPrompt || undefined,
+      generationConfig: parseGenerationConfig(assistant.generationConfig, i),
+      safetySettings: parseSafetySettings(assistant.safetySettings, i),
+      starters: parseStarters((assistant.starters ?? []).join('\n')),
+      createdAt: toDate(assistant.createdAt),
+      updatedAt: toDate(assistant.updatedAt)
+    };
+  });
+}
+
+export function parseAssistantLibrary(raw: unknown): Assistant[] {
+  if (!isObject(raw) || raw.format !== ASSISTANT_LIBRARY_FORMAT || !Array.isArray(raw.assistants)) {
+    throw new Error('Файл не является списком ассистентов Pollux');
+  }
+  if (typeof raw.version !== 'number' || raw.version > ASSISTANT_LIBRARY_VERSION) {
+    throw new Error(`Файл создан более новой версией (v${raw.version}), поддерживается до v${ASSISTANT_LIBRARY_VERSION}`);
+  }
+  return parseAssistants(raw.assistants);
+}
+
+// Merge, as with prompts: a known id is replaced only by a newer version;
+// one with the same name and system prompt as a local assistant is a duplicate
+export async function importAssistants(assistants: Assistant[]): Promise<AssistantImportSummary> {
+  return db.transaction('rw', db.assistants, async () => {
+    const local = await db.assistants.toArray();
+    const byId = new Map(local.map(a => [a.id, a]));
+    const signature = (a: Assistant) => `${a.name}\n${a.systemPrompt ?? ''}`;
+    const signatures = new Set(local.map(signature));
+    const summary: AssistantImportSummary = { added: 0, updated: 0, skipped: 0 };
+
+    for (const assistant of assistants) {
+      const existing = byId.get(assistant.id);
+      if (existing) {
+        if (assistant.updatedAt > existing.updatedAt) {
+          const { id, createdAt, ...fields } = assistant;
+          await db.assistants.update(id, fields);
+          byId.set(id, assistant);
+          summary.updated++;
+        } else {
+          summary.skipped++;
+        }
+      } else if (signatures.has(signature(assistant))) {
+        summary.skipped++;
+      } else {
+        await db.assistants.add(assistant);
+        byId.set(assistant.id, assistant); // a file may list the same id twice
+        signatures.add(signature(assistant));
+        summary.added++;
+      }
+    }
+    return summary;
+  });
+}
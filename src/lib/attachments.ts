@@ -0,0 +1,135 @@
+/**
+ * Files attached to a message. Messages keep a reference; the bytes live in the blob table.
+ * Text and code files are sent as text; images, PDFs and audio as inline data, or uploaded once when large.
+ */
+import { putBlob, getBlob, blobToDataUrl } from './blobs';
+
+export interface Attachment {
+  name: string;
+  mimeType: string;
+  size: number; // bytes
+  hash: string; // key in the blob table
+}
+
+// With the bytes as a base64 data URL: request payloads, backups, messages stored before v5
+export interface InlineAttachment extends Omit<Attachment, 'hash'> {
+  data: string;
+}
+
+// Referencing a file uploaded earlier (files.ts): sent instead of the bytes
+export interface RemoteAttachment extends Omit<Attachment, 'hash'> {
+  fileUri: string;
+  keyId: string;
+}
+
+export type PayloadAttachment = InlineAttachment | RemoteAttachment;
+
+export type AttachmentKind = 'image' | 'pdf' | 'audio' | 'text';
+
+const MB = 1024 * 1024;
+
+// Gemini takes at most 20 MB of inline data per request
+export const MAX_MESSAGE_ATTACHMENTS_SIZE = 20 * MB;
+
+export const ATTACHMENT_LIMITS: Record<AttachmentKind, number> = {
+  image: 10 * MB,
+  pdf: 20 * MB,
+  audio: 20 * MB,
+  text: 1 * MB
+};
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+const AUDIO_TYPES = ['audio/wav', 'audio/x-wav', 'audio/mpeg', 'audio/mp3', 'audio/aiff', 'audio/aac', 'audio/ogg', 'audio/flac'];
+const TEXT_TYPES = ['application/json', 'application/xml', 'application/javascript', 'application/x-yaml', 'application/x-sh'];
+
+// Browsers report many code files without a type, or as something else (.ts is "video/mp2t")
+const TEXT_EXTENSIONS = [
+  'txt', 'md', 'csv', 'tsv', 'json', 'jsonl', 'xml', 'yaml', 'yml', 'toml', 'ini', 'log', 'html', 'css', 'scss',
+  'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'swift', 'c', 'h', 'cpp', 'hpp',
+  'cs', 'php', 'sh', 'bash', 'sql', 'vue', 'svelte', 'lua', 'r', 'dart', 'scala', 'ex', 'exs', 'dockerfile'
+];
+
+// Accept attribute for the file picker
+export const ATTACHMENT_ACCEPT = [
+  ...IMAGE_TYPES, 'application/pdf', ...AUDIO_TYPES, 'text/*', ...TEXT_TYPES,
+  ...TEXT_EXTENSIONS.map(ext => `.${ext}`)
+].join(',');
+
+function extension(name: string): string {
+  return name.includes('.') ? name.split('.').pop()!.toLowerCase() : name.toLowerCase();
+}
+
+// Null when the file can't be sent
+export function attachmentKind(mimeType: string, name = ''): AttachmentKind | null {
+  if (TEXT_EXTENSIONS.includes(extension(name))) return 'text';
+  if (IMAGE_TYPES.includes(mimeType)) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (AUDIO_TYPES.includes(mimeType)) return 'audio';
+  if (mimeType.startsWith('text/') || TEXT_TYPES.includes(mimeType)) return 'text';
+  return null;
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes >= MB) return `${(bytes / MB).toFixed(1)} МБ`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} КБ`;
+  return `${bytes} Б`;
+}
+
+// Checks type and size before anything is read, then stores the bytes; throws with a message for the user
+export async function readAttachment(file: File, alreadyAttached: Attachment[] = []): Promise<Attachment> {
+  const kind = attachmentKind(file.type, file.name);
+  if (!kind) {
+    throw new Error(`«${file.name}»: этот тип файла не поддерживается`);
+  }
+  if (file.size > ATTACHMENT_LIMITS[kind]) {
+    throw new Error(`«${file.name}» больше ${formatSize(ATTACHMENT_LIMITS[kind])}`);
+  }
+  const total = alreadyAttached.reduce((sum, a) => sum + a.size, 0) + file.size;
+  if (total > MAX_MESSAGE_ATTACHMENTS_SIZE) {
+    throw new Error(`Вложения одного сообщения не должны превышать ${formatSize(MAX_MESSAGE_ATTACHMENTS_SIZE)}`);
+  }
+
+  // Code files get a text type so every provider reads them as text
+  const mimeType = kind === 'text' && !file.type.startsWith('text/') && !TEXT_TYPES.includes(file.type)
+    ? 'text/plain'
+    : file.type;
+  const hash = await putBlob(mimeType === file.type ? file : new Blob([file], { type: mimeType }));
+  return { name: file.name, mimeType, size: file.size, hash };
+}
+
+// Load the bytes for a request; throws when a blob is missing
+export async function toInlineAttachments(attachments: Attachment[]): Promise<InlineAttachment[]> {
+  return Promise.all(attachments.map(async ({ hash, ...attachment }) => {
+    const blob = await getBlob(hash);
+    if (!blob) throw new Error(`Файл «${attachment.name}» не найден в хранилище`);
+    return { ...attachment, data: await blobToDataUrl(blob) };
+  }));
+}
+
+// Images stored before attachments existed
+export function fromLegacyImages(images: string[]): InlineAttachment[] {
+  return images.map((data, i) => {
+    const mimeType = data.match(/^data:([^;,]+);base64,/)?.[1] ?? 'image/jpeg';
+    const base64Length = data.length - data.indexOf(',') - 1;
+    return {
+      name: `image-${i + 1}.${mimeType.split('/')[1] ?? 'jpg'}`,
+      mimeType,
+      size: Math.floor((base64Length * 3) / 4),
+      data
+    };
+  });
+}
+
+// Rough input cost for context budgeting
+export function estimateAttachmentTokens(attachment: Pick<Attachment, 'name' | 'mimeType' | 'size'>): number {
+  switch (attachmentKind(attachment.mimeType, attachment.name)) {
+    case 'text':
+      return Math.ceil(attachment.size / 4);
+    case 'audio':
+      return Math.ceil(attachment.size / 500); // ~32 tokens per second at 128 kbit/s
+    case 'pdf':
+      return 258 * Math.max(1, Math.ceil(attachment.size / (100 * 1024))); // 258 per page, ~100 KB a page
+    default:
+      return 258;
+  }
+}
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { addMessage, clearAllData, createChat, db } from './db';
+import { putBlob, getBlob } from './blobs';
+import { moveChats, saveFolder } from './folders';
+import { exportBackup, importBackup, parseBackup } from './backup';
+
+beforeEach(async () => {
+  await clearAllData();
+});
+
+describe('backup', () => {
+  it('restores chats, messages, folders and attachments after a JSON round-trip', async () => {
+    await saveFolder({ name: 'Работа', parentId: null });
+    const [folder] = await db.folders.toArray();
+    const chat = await createChat();
+    await moveChats([chat.id], folder.id);
+    const file = new Blob(['print("hi")'], { type: 'text/x-python' });
+    const hash = await putBlob(file);
+    const question = await addMessage({
+      chatId: chat.id,
+      role: 'user',
+      content: 'Что делает этот код?',
+      attachments: [{ name: 'hi.py', mimeType: 'text/x-python', size: file.size, hash }]
+    });
+    await addMessage({ chatId: chat.id, role: 'model', content: 'Печатает hi' });
+
+    const json = JSON.stringify(await exportBackup('Отвечай кратко'));
+    const before = {
+      chats: await db.chats.toArray(),
+      messages: await db.messages.orderBy('timestamp').toArray(),
+      folders: await db.folders.toArray()
+    };
+    await clearAllData();
+
+    const summary = await importBackup(await parseBackup(JSON.parse(json)), 'replace');
+    expect(summary).toMatchObject({ chatsAdded: 1, messagesAdded: 2, foldersAdded: 1, globalSystemPrompt: 'Отвечай кратко' });
+
+    const messages = await db.messages.orderBy('timestamp').toArray();
+    expect(messages.map(m => [m.id, m.parentId, m.content])).toEqual(before.messages.map(m => [m.id, m.parentId, m.content]));
+    expect(messages[0].attachments).toEqual(question.attachments);
+    expect(messages[0].timestamp).toBeInstanceOf(Date);
+    expect((await db.chats.toArray()).map(c => [c.id, c.title, c.folderId, c.currentLeafId]))
+      .toEqual(before.chats.map(c => [c.id, c.title, c.folderId, c.currentLeafId]));
+    expect((await db.folders.toArray()).map(f => f.name)).toEqual(before.folders.map(f => f.name));
+    expect(await (await getBlob(hash))!.text()).toBe('print("hi")');
+  });
+
+  it('skips chats that exist already when merging', async () => {
+    const chat = await createChat();
+    await addMessage({ chatId: chat.id, role: 'user', content: 'Привет' });
+    const backup = await parseBackup(JSON.parse(JSON.stringify(await exportBackup())));
+
+    const summary = await importBackup(backup, 'merge');
+    expect(summary).toMatchObject({ chatsAdded: 0, chatsSkipped: 1, messagesAdded: 0, messagesSkipped: 1 });
+    expect(await db.messages.count()).toBe(1);
+  });
+
+  it('rejects files that are not a backup', async () => {
+    await expect(parseBackup({ format: 'something-else' })).rejects.toThrow();
+    await expect(parseBackup([])).rejects.toThrow();
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Lossless backup of the whole database (chats and their folders, message trees, attachments, prompts, the prompt library
+ * and assistants) as versioned JSON
+ */
+
+import {
+  db, buildSearchTokens, collectOrphanedBlobs, tombstonesFor, withoutSyncFields,
+  type Assistant, type Chat, type ChatMessage, type Folder, type PromptTemplate, type StoredBlob
+} from './db';
+import { fromLegacyImages, type Attachment, type InlineAttachment } from './attachments';
+import { hashBlob, prepareBlob, blobToDataUrl, dataUrlToBlob } from './blobs';
+import { parsePromptTemplates } from './prompts';
+import { parseAssistants } from './assistants';
+import { parseFolders } from './folders';
+import { isObject } from './validate';
+
+export const BACKUP_FORMAT = 'pollux-backup';
+// v2: attachments replace images; v3: attachment bytes are listed once in blobs; v4: prompt library; v5: assistants; v6: folders
+export const BACKUP_VERSION = 6;
+
+export interface BackupBlob {
+  hash: string;
+  data: string; // data URL
+}
+
+export interface PolluxBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  globalSystemPrompt?: string;
+  chats: Chat[];
+  messages: ChatMessage[];
+  blobs: BackupBlob[];
+  prompts: PromptTemplate[];
+  assistants: Assistant[];
+  folders: Folder[];
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportSummary {
+  chatsAdded: number;
+  messagesAdded: number;
+  chatsSkipped: number; // duplicates by id (merge mode)
+  messagesSkipped: number;
+  promptsAdded: number;
+  assistantsAdded: number;
+  foldersAdded: number;
+  globalSystemPrompt?: string;
+}
+
+export async function exportBackup(globalSystemPrompt?: string): Promise<PolluxBackup> {
+  const [chats, messages, prompts, assistants, folders] = await Promise.all([
+    db.chats.toArray(),
+    db.messages.toArray(),
+    db.prompts.toArray(),
+    db.assistants.toArray(),
+    db.folders.toArray()
+  ]);
+  // Only blobs some message refers to; unsent drafts stay out
+  const hashes = [...new Set(messages.flatMap(m => m.attachments?.map(a => a.hash) ?? []))];
+  const stored = await db.blobs.bulkGet(hashes);
+  const blobs = await Promise.all(
+    stored.filter((b): b is StoredBlob => !!b).map(async b => ({ hash: b.hash, data: await blobToDataUrl(b.blob) }))
+  );
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    globalSystemPrompt: globalSystemPrompt || undefined,
+    chats: chats.map(withoutSyncFields),
+    messages: messages.map(withoutSyncFields),
+    blobs,
+    prompts: prompts.map(withoutSyncFields),
+    assistants: assistants.map(withoutSyncFields),
+    folders: folders.map(withoutSyncFields)
+  };
+}
+
+function isAttachmentMeta(value: unknown): value is Record<string, any> {
+  return isObject(value) &&
+    typeof value.name === 'string' &&
+    typeof value.mimeType === 'string' &&
+    typeof value.size === 'number';
+}
+
+function isDataUrl(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('data:');
+}
+
+function isAttachment(value: unknown): value is Attachment {
+  return isAttachmentMeta(value) && typeof value.hash === 'string';
+}
+
+function isInlineAttachment(value: unknown): value is InlineAttachment {
+  return isAttachmentMeta(value) && isDataUrl(value.data);
+}
+
+// v1/v2 keep bytes on the message; move them into the blob list
+async function toReferences(inline: InlineAttachment[], blobs: Map<string, string>): Promise<Attachment[]> {
+  return Promise.all(inline.map(async ({ data, ...attachment }) => {
+    const hash = await hashBlob(dataUrlToBlob(data));
+    blobs.set(hash, data);
+    return { ...attachment, hash };
+  }));
+}
+
+function requireDate(value: unknown, field: string): Date {
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) throw new Error(`Некорректная дата в поле ${field}`);
+  return date;
+}
+
+// Validate untrusted JSON and revive dates. Throws before anything is written to the database.
+// Older versions are converted to the current layout
+export async function parseBackup(raw: unknown): Promise<PolluxBackup> {
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT) {
+    throw new Error('Файл не является резервной копией Pollux');
+  }
+  if (typeof raw.version !== 'number' || raw.version < 1) {
+    throw new Error('Не указана версия резервной копии');
+  }
+  if (raw.version > BACKUP_VERSION) {
+    throw new Error(`Резервная копия создана более новой версией (v${raw.version}), поддерживается до v${BACKUP_VERSION}`);
+  }
+  if (!Array.isArray(raw.chats) || !Array.isArray(raw.messages)) {
+    throw new Error('В резервной копии нет списка чатов или сообщений');
+  }
+
+  const chats: Chat[] = raw.chats.map((chat: unknown, i: number) => {
+    if (!isObject(chat) || typeof chat.id !== 'string' || typeof chat.title !== 'string') {
+      throw new Error(`Некорректный чат #${i + 1}`);
+    }
+    if (chat.tags !== undefined && !(Array.isArray(chat.tags) && chat.tags.every((tag: unknown) => typeof tag === 'string'))) {
+      throw new Error(`Некорректные теги в чате #${i + 1}`);
+    }
+    return {
+      ...chat,
+      id: chat.id,
+      title: chat.title,
+      createdAt: requireDate(chat.createdAt, `chats[${i}].createdAt`),
+      updatedAt: requireDate(chat.updatedAt, `chats[${i}].updatedAt`)
+    };
+  });
+
+  const blobs = new Map<string, string>();
+  if (raw.version >= 3) {
+    if (!Array.isArray(raw.blobs)) throw new Error('В резервной копии нет списка файлов');
+    raw.blobs.forEach((blob: unknown, i: number) => {
+      if (!isObject(blob) || typeof blob.hash !== 'string' || !isDataUrl(blob.data)) {
+        throw new Error(`Некорректный файл #${i + 1}`);
+      }
+      blobs.set(blob.hash, blob.data);
+    });
+  }
+
+  const chatIds = new Set(chats.map(chat => chat.id));
+  const messages: ChatMessage[] = await Promise.all(raw.messages.map(async (message: unknown, i: number) => {
+    if (
+      !isObject(message) ||
+      typeof message.id !== 'string' ||
+      typeof message.chatId !== 'string' ||
+      (message.role !== 'user' && message.role !== 'model') ||
+      typeof message.content !== 'string'
+    ) {
+      throw new Error(`Некорректное сообщение #${i + 1}`);
+    }
+    if (!chatIds.has(message.chatId)) {
+      throw new Error(`Сообщение #${i + 1} ссылается на отсутствующий чат`);
+    }
+    if (message.images !== undefined && !(Array.isArray(message.images) && message.images.every((img: unknown) => typeof img === 'string'))) {
+      throw new Error(`Некорректные изображения в сообщении #${i + 1}`);
+    }
+    const isValid = raw.version >= 3 ? isAttachment : isInlineAttachment;
+    if (message.attachments !== undefined && !(Array.isArray(message.attachments) && message.attachments.every(isValid))) {
+      throw new Error(`Некорректные вложения в сообщении #${i + 1}`);
+    }
+    if (raw.version >= 3 && message.attachments?.some((a: Attachment) => !blobs.has(a.hash))) {
+      throw new Error(`Сообщение #${i + 1} ссылается на отсутствующий файл`);
+    }
+    // v1 stores images only, v2 inline attachments
+    const { images, ...rest } = message;
+    const inline: InlineAttachment[] | undefined = images?.length ? fromLegacyImages(images) : raw.version < 3 ? message.attachments : undefined;
+    const attachments = inline ? await toReferences(inline, blobs) : message.attachments;
+    return {
+      ...rest,
+      ...(attachments ? { attachments } : {}),
+      id: message.id,
+      chatId: message.chatId,
+      parentId: typeof message.parentId === 'string' ? message.parentId : null,
+      role: message.role,
+      content: message.content,
+      timestamp: requireDate(message.timestamp, `messages[${i}].timestamp`)
+    };
+  }));
+
+  return {
+    format: BACKUP_FORMAT,
+    version: raw.version,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+    globalSystemPrompt: typeof raw.globalSystemPrompt === 'string' ? raw.globalSystemPrompt : undefined,
+    chats,
+    messages,
+    blobs: Array.from(blobs, ([hash, data]) => ({ hash, data })),
+    prompts: Array.isArray(raw.prompts) ? parsePromptTemplates(raw.prompts) : [],
+    assistants: Array.isArray(raw.assistants) ? parseAssistants(raw.assistants) : [],
+    folders: Array.isArray(raw.folders) ? parseFolders(raw.folders) : []
+  };
+}
+
+// merge: keep local records, add those whose id is not present yet. replace: wipe chats, folders, prompts and assistants first.
+export async function importBackup(backup: PolluxBackup, mode: ImportMode): Promise<ImportSummary> {
+  // Hashes and thumbnails are computed before the transaction, which can't wait on them
+  const existingBlobs = new Set(await db.blobs.where('hash').anyOf(backup.blobs.map(b => b.hash)).primaryKeys());
+  const newBlobs: StoredBlob[] = [];
+  for (const { hash, data } of backup.blobs) {
+    if (existingBlobs.has(hash)) continue;
+    const stored = await prepareBlob(dataUrlToBlob(data));
+    if (stored.hash !== hash) throw new Error('Файл в резервной копии повреждён: контрольная сумма не совпадает');
+    newBlobs.push(stored);
+  }
+
+  const summary = await db.transaction('rw', [db.chats, db.messages, db.searchIndex, db.blobs, db.prompts, db.assistants, db.folders, db.tombstones], async () => {
+    await db.blobs.bulkPut(newBlobs);
+    if (mode === 'replace') {
+      // Other devices delete the replaced chats as well
+      const [syncedChats, syncedMessages, syncedPrompts, syncedAssistants, syncedFolders] = await Promise.all([
+        db.chats.filter(chat => chat.syncedAt !== undefined).primaryKeys(),
+        db.messages.filter(message => message.syncedAt !== undefined).primaryKeys(),
+        db.prompts.filter(prompt => prompt.syncedAt !== undefined).primaryKeys(),
+        db.assistants.filter(assistant => assistant.syncedAt !== undefined).primaryKeys(),
+        db.folders.filter(folder => folder.syncedAt !== undefined).primaryKeys()
+      ]);
+      await db.tombstones.bulkPut([
+        ...tombstonesFor('chat', syncedChats),
+        ...tombstonesFor('message', syncedMessages),
+        ...tombstonesFor('prompt', syncedPrompts),
+        ...tombstonesFor('assistant', syncedAssistants),
+        ...tombstonesFor('folder', syncedFolders)
+      ]);
+      await Promise.all([
+        db.chats.clear(), db.messages.clear(), db.searchIndex.clear(), db.prompts.clear(), db.assistants.clear(), db.folders.clear()
+      ]);
+    }
+
+    const existingChats = new Set(await db.chats.where('id').anyOf(backup.chats.map(c => c.id)).primaryKeys());
+    const existingMessages = new Set(await db.messages.where('id').anyOf(backup.messages.map(m => m.id)).primaryKeys());
+    const existingPrompts = new Set(await db.prompts.where('id').anyOf(backup.prompts.map(p => p.id)).primaryKeys());
+    const existingAssistants = new Set(await db.assistants.where('id').anyOf(backup.assistants.map(a => a.id)).primaryKeys());
+    const existingFolders = new Set(await db.folders.where('id').anyOf(backup.folders.map(f => f.id)).primaryKeys());
+
+    const newChats = backup.chats.filter(chat => !existingChats.has(chat.id));
+    const newMessages = backup.messages.filter(message => !existingMessages.has(message.id));
+    const newPrompts = backup.prompts.filter(prompt => !existingPrompts.has(prompt.id));
+    const newAssistants = backup.assistants.filter(assistant => !existingAssistants.has(assistant.id));
+    const newFolders = backup.folders.filter(folder => !existingFolders.has(folder.id));
+
+    await db.chats.bulkAdd(newChats);
+    await db.messages.bulkAdd(newMessages);
+    await db.searchIndex.bulkPut(newMessages.flatMap(buildSearchTokens));
+    await db.prompts.bulkAdd(newPrompts);
+    await db.assistants.bulkAdd(newAssistants);
+    await db.folders.bulkAdd(newFolders);
+
+    return {
+      chatsAdded: newChats.length,
+      messagesAdded: newMessages.length,
+      chatsSkipped: backup.chats.length - newChats.length,
+      messagesSkipped: backup.messages.length - newMessages.length,
+      promptsAdded: newPrompts.length,
+      assistantsAdded: newAssistants.length,
+      foldersAdded: newFolders.length,
+      globalSystemPrompt: backup.globalSystemPrompt
+    };
+  });
+  // Files of replaced chats
+  if (mode === 'replace') await collectOrphanedBlobs();
+  return summary;
+}
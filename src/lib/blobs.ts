@@ -0,0 +1,90 @@
+/**
+ * Content-addressed attachment storage: bytes are stored once per SHA-256, messages keep references.
+ */
+
+import { db, type StoredBlob } from './db';
+
+const THUMBNAIL_SIZE = 320; // px, longest side
+
+export async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Undefined when the browser can't decode the image (HEIC in most browsers)
+async function makeThumbnail(blob: Blob): Promise<Blob | undefined> {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise<Blob | undefined>(resolve => canvas.toBlob(b => resolve(b ?? undefined), 'image/webp', 0.8));
+  } catch {
+    return undefined;
+  }
+}
+
+// Hash and thumbnail, without writing: IndexedDB transactions can't wait on them
+export async function prepareBlob(blob: Blob): Promise<StoredBlob> {
+  return {
+    hash: await hashBlob(blob),
+    blob,
+    thumbnail: blob.type.startsWith('image/') ? await makeThumbnail(blob) : undefined,
+    createdAt: new Date()
+  };
+}
+
+// Returns the hash; identical content is stored only once. Attaching it again restarts
+// the grace period of collectOrphanedBlobs, as the new draft may refer to it for a while
+export async function putBlob(blob: Blob): Promise<string> {
+  const hash = await hashBlob(blob);
+  if (await db.blobs.update(hash, { createdAt: new Date() })) return hash;
+  const stored = await prepareBlob(blob);
+  await db.blobs.put(stored);
+  return hash;
+}
+
+export async function getBlob(hash: string): Promise<Blob | undefined> {
+  return (await db.blobs.get(hash))?.blob;
+}
+
+export async function getThumbnail(hash: string): Promise<Blob | undefined> {
+  const stored = await db.blobs.get(hash);
+  return stored?.thumbnail ?? stored?.blob;
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, base64] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] ?? 'application/octet-stream';
+  const bytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+  return new Blob([bytes], { type: mimeType });
+}
+
+// One-time move of attachments stored inline (before schema v5) into the blob table
+export async function moveInlineAttachments(): Promise<number> {
+  const messages = await db.messages
+    .filter(m => !!m.attachments?.some(a => 'data' in a))
+    .toArray();
+
+  for (const message of messages) {
+    const attachments = await Promise.all((message.attachments ?? []).map(async attachment => {
+      if (!('data' in attachment)) return attachment;
+      const { data, ...rest } = attachment as typeof attachment & { data: string };
+      return { ...rest, hash: await putBlob(dataUrlToBlob(data)) };
+    }));
+    await db.messages.update(message.id, { attachments });
+  }
+  return messages.length;
+}
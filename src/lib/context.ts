@@ -0,0 +1,208 @@
+/**
+ * Keeps chat requests within the model's input token limit.
+ * Compaction steps, applied only while the request is over budget:
+ *   1. drop attachments from older turns
+ *   2. summarize older turns into a summary stored on the last summarized message
+ *   3. leave out the oldest remaining turns
+ */
+
+import { setMessageSummary, type ChatMessage } from './db';
+import type { GenerationConfig } from './generation';
+import type { SafetySettings } from './safety';
+import { estimateAttachmentTokens, type Attachment, type PayloadAttachment } from './attachments';
+import { toPayloadAttachments } from './files';
+import { accessHeaders } from './access';
+
+export interface ChatPayloadMessage {
+  role: 'user' | 'model';
+  content: string;
+  attachments?: PayloadAttachment[];
+}
+
+export interface ChatPayload {
+  model: string;
+  provider?: string;
+  messages: ChatPayloadMessage[];
+  newMessage: { text: string; attachments: PayloadAttachment[] };
+  systemPrompt?: string;
+  generationConfig?: GenerationConfig;
+  safetySettings?: SafetySettings;
+}
+
+export interface CompactionReport {
+  strippedAttachments: string[]; // ids of messages sent without their attachments
+  dropped: string[]; // ids of messages left out of the request
+  summarized: string[]; // ids of messages replaced by a summary
+  totalTokens?: number;
+}
+
+interface WorkingMessage extends ChatPayloadMessage {
+  id: string;
+}
+
+const BUDGET_RATIO = 0.9; // leave headroom for tokenizer differences
+const ESTIMATE_SKIP_RATIO = 0.5; // below this share of the budget, don't ask the server
+const KEEP_RECENT = 4; // messages that are never compacted
+
+function estimateTokens(payload: ChatPayload): number {
+  const all = [...payload.messages, { content: payload.newMessage.text, attachments: payload.newMessage.attachments }];
+  let chars = payload.systemPrompt?.length ?? 0;
+  let attachmentTokens = 0;
+  for (const message of all) {
+    chars += message.content.length;
+    for (const attachment of message.attachments ?? []) attachmentTokens += estimateAttachmentTokens(attachment);
+  }
+  return Math.ceil(chars / 4) + attachmentTokens;
+}
+
+export async function countTokens(apiKey: string, apiBase: string, payload: ChatPayload): Promise<number> {
+  const res = await fetch(`${apiBase}/api/count-tokens`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${apiKey}`,
+      ...accessHeaders()
+    },
+    body: JSON.stringify(payload)
+  });
+  if (!res.ok) throw new Error(await res.text());
+  const data = await res.json();
+  return data.totalTokens;
+}
+
+async function summarize(
+  apiKey: string,
+  apiBase: string,
+  model: string,
+  provider: string | undefined,
+  messages: ChatPayloadMessage[],
+  previousSummary?: string
+): Promise<string> {
+  const res = await fetch(`${apiBase}/api/summarize`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${apiKey}`,
+      ...accessHeaders()
+    },
+    body: JSON.stringify({
+      model,
+      provider,
+      messages: messages.map(m => ({ role: m.role, content: m.content })),
+      previousSummary
+    })
+  });
+  if (!res.ok) throw new Error(await res.text());
+  const data = await res.json();
+  return data.summary;
+}
+
+function withSummary(systemPrompt: string, summary?: string): string | undefined {
+  const parts = [systemPrompt.trim()];
+  if (summary) {
+    parts.push(`Краткое содержание предыдущей части разговора:\n${summary}`);
+  }
+  return parts.filter(Boolean).join('\n\n') || undefined;
+}
+
+// Index of the first user message at or after `from` — history must start with a user turn
+function nextTurnStart(messages: WorkingMessage[], from: number): number {
+  for (let i = from; i < messages.length; i++) {
+    if (messages[i].role === 'user') return i;
+  }
+  return messages.length;
+}
+
+export async function buildChatPayload(options: {
+  apiKey: string;
+  apiBase: string;
+  model: string;
+  provider?: string;
+  inputTokens?: number;
+  history: ChatMessage[];
+  newMessage: { text: string; attachments: Attachment[] };
+  systemPrompt: string;
+  generationConfig?: GenerationConfig;
+  safetySettings?: SafetySettings;
+  uploadFiles?: boolean; // the provider keeps uploaded files (Gemini)
+}): Promise<{ payload: ChatPayload; report: CompactionReport }> {
+  const {
+    apiKey, apiBase, model, provider, inputTokens, history, newMessage, systemPrompt, generationConfig, safetySettings,
+    uploadFiles
+  } = options;
+  const report: CompactionReport = { strippedAttachments: [], dropped: [], summarized: [] };
+
+  // Start after the most recent stored summary on this branch
+  let summaryIndex = -1;
+  history.forEach((m, i) => { if (m.summary) summaryIndex = i; });
+  let summary = summaryIndex >= 0 ? history[summaryIndex].summary : undefined;
+  report.summarized.push(...history.slice(0, summaryIndex + 1).map(m => m.id));
+
+  // Attachment bytes are loaded from the blob table (or uploaded) once per request
+  const uploadTarget = uploadFiles ? { apiKey, apiBase, provider } : undefined;
+  let working: WorkingMessage[] = await Promise.all(history.slice(summaryIndex + 1).map(async m => ({
+    id: m.id,
+    role: m.role,
+    content: m.content,
+    attachments: m.attachments?.length ? await toPayloadAttachments(m.attachments, uploadTarget) : undefined
+  })));
+  const payloadNewMessage = {
+    text: newMessage.text,
+    attachments: await toPayloadAttachments(newMessage.attachments, uploadTarget)
+  };
+
+  const build = (): ChatPayload => ({
+    model,
+    provider,
+    messages: working.map(({ role, content, attachments }) => ({ role, content, attachments })),
+    newMessage: payloadNewMessage,
+    systemPrompt: withSummary(systemPrompt, summary),
+    generationConfig,
+    safetySettings
+  });
+
+  if (!inputTokens) return { payload: build(), report };
+  const budget = Math.floor(inputTokens * BUDGET_RATIO);
+  if (estimateTokens(build()) < budget * ESTIMATE_SKIP_RATIO) return { payload: build(), report };
+
+  let tokens = await countTokens(apiKey, apiBase, build());
+  const keepFrom = Math.max(0, working.length - KEEP_RECENT);
+
+  // 1. Attachments in older turns
+  if (tokens > budget) {
+    working = working.map((m, i) => {
+      if (i >= keepFrom || !m.attachments?.length) return m;
+      report.strippedAttachments.push(m.id);
+      return { ...m, attachments: undefined };
+    });
+    if (report.strippedAttachments.length) tokens = await countTokens(apiKey, apiBase, build());
+  }
+
+  // 2. Summary of older turns, stored so the next requests reuse it
+  if (tokens > budget) {
+    const boundary = nextTurnStart(working, keepFrom);
+    if (boundary > 0 && boundary < working.length) {
+      try {
+        const older = working.slice(0, boundary);
+        summary = await summarize(apiKey, apiBase, model, provider, older, summary);
+        await setMessageSummary(older[older.length - 1].id, summary);
+        report.summarized.push(...older.map(m => m.id));
+        working = working.slice(boundary);
+        tokens = await countTokens(apiKey, apiBase, build());
+      } catch (e) {
+        console.warn('History summarization failed, truncating instead:', e);
+      }
+    }
+  }
+
+  // 3. Oldest turns
+  while (tokens > budget && working.length > 0) {
+    const boundary = nextTurnStart(working, 1);
+    report.dropped.push(...working.slice(0, boundary).map(m => m.id));
+    working = working.slice(boundary);
+    tokens = await countTokens(apiKey, apiBase, build());
+  }
+
+  report.totalTokens = tokens;
+  return { payload: build(), report };
+}
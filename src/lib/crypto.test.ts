@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearApiKey, decryptApiKey, enableVault, encryptApiKey, lockVault, unlockVault } from './crypto';
+
+const PLAIN_STORAGE = 'pollux_api_key_plain';
+
+beforeEach(async () => {
+  // What the device key is derived from
+  vi.stubGlobal('navigator', { userAgent: 'test', language: 'ru', hardwareConcurrency: 4 });
+  vi.stubGlobal('screen', { width: 1920, height: 1080 });
+  await clearApiKey();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('API key storage', () => {
+  it('moves a legacy plain-text key into encrypted storage', async () => {
+    localStorage.setItem(PLAIN_STORAGE, 'legacy-key');
+
+    expect(await decryptApiKey()).toBe('legacy-key');
+    expect(localStorage.getItem(PLAIN_STORAGE)).toBeNull();
+    expect(await decryptApiKey()).toBe('legacy-key');
+  });
+
+  it('drops a plain-text leftover next to the encrypted key once that decrypts', async () => {
+    await encryptApiKey('current-key');
+    localStorage.setItem(PLAIN_STORAGE, 'leftover-key');
+
+    expect(await decryptApiKey()).toBe('current-key');
+    expect(localStorage.getItem(PLAIN_STORAGE)).toBeNull();
+  });
+
+  it('drops a plain-text leftover when the vault is unlocked', async () => {
+    await enableVault('long vault passphrase', 'vault-key');
+    lockVault();
+    localStorage.setItem(PLAIN_STORAGE, 'leftover-key');
+
+    expect(await decryptApiKey()).toBeNull();
+    expect(await unlockVault('long vault passphrase')).toBe('vault-key');
+    expect(localStorage.getItem(PLAIN_STORAGE)).toBeNull();
+  });
+});
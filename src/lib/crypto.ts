@@ -1,11 +1,25 @@
 /**
  * Encrypt/decrypt API key in localStorage using Web Crypto API
- * Uses AES-GCM with a derived key from a device-specific fingerprint
+ * Uses AES-GCM with a key derived either from a device-specific fingerprint (default)
+ * or from a user passphrase with a random per-install salt (opt-in vault mode).
+ * In passphrase mode the derived key lives only in memory until the vault is locked.
+ * The stored secret is the serialized key ring (see keyProfiles.ts); older installs hold a bare key.
  */
 
 const SALT = 'pollux-chat-v1';
 const KEY_STORAGE = 'pollux_encrypted_key';
 const IV_STORAGE = 'pollux_iv';
+const PLAIN_STORAGE = 'pollux_api_key_plain'; // legacy fallback, migrated on read
+const MODE_STORAGE = 'pollux_vault_mode';
+const VAULT_SALT_STORAGE = 'pollux_vault_salt';
+
+const DEVICE_ITERATIONS = 100000;
+const PASSPHRASE_ITERATIONS = 600000;
+
+export type VaultMode = 'device' | 'passphrase';
+
+// Passphrase-derived key, kept only for the unlocked session
+let sessionKey: CryptoKey | null = null;
 
 // Generate a fingerprint based on browser/device characteristics
 async function getFingerprint(): Promise<string> {
@@ -19,22 +33,30 @@ async function getFingerprint(): Promise<string> {
   return components.join('|');
 }
 
-// Derive encryption key from fingerprint
-async function deriveKey(fingerprint: string): Promise<CryptoKey> {
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+// Derive encryption key from a secret (fingerprint or passphrase)
+async function deriveKey(secret: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
   const encoder = new TextEncoder();
   const keyMaterial = await crypto.subtle.importKey(
     'raw',
-    encoder.encode(fingerprint),
+    encoder.encode(secret),
     'PBKDF2',
     false,
     ['deriveBits', 'deriveKey']
   );
-  
+
   return crypto.subtle.deriveKey(
     {
       name: 'PBKDF2',
-      salt: encoder.encode(SALT),
-      iterations: 100000,
+      salt,
+      iterations,
       hash: 'SHA-256',
     },
     keyMaterial,
@@ -44,71 +66,148 @@ async function deriveKey(fingerprint: string): Promise<CryptoKey> {
   );
 }
 
-// Encrypt API key
+async function deriveDeviceKey(): Promise<CryptoKey> {
+  return deriveKey(await getFingerprint(), new TextEncoder().encode(SALT), DEVICE_ITERATIONS);
+}
+
+async function derivePassphraseKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  return deriveKey(passphrase, salt, PASSPHRASE_ITERATIONS);
+}
+
+async function encryptWith(key: CryptoKey, plaintext: string): Promise<void> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  // Store as base64
+  localStorage.setItem(KEY_STORAGE, toBase64(new Uint8Array(encrypted)));
+  localStorage.setItem(IV_STORAGE, toBase64(iv));
+}
+
+// Throws if the key is wrong (AES-GCM authentication fails)
+async function decryptWith(key: CryptoKey): Promise<string | null> {
+  const encryptedB64 = localStorage.getItem(KEY_STORAGE);
+  const ivB64 = localStorage.getItem(IV_STORAGE);
+  if (!encryptedB64 || !ivB64) return null;
+
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(ivB64) },
+    key,
+    fromBase64(encryptedB64)
+  );
+
+  return new TextDecoder().decode(decrypted);
+}
+
+export function getVaultMode(): VaultMode {
+  return localStorage.getItem(MODE_STORAGE) === 'passphrase' ? 'passphrase' : 'device';
+}
+
+// Passphrase mode and not unlocked in this session
+export function isVaultLocked(): boolean {
+  return getVaultMode() === 'passphrase' && !sessionKey;
+}
+
+// Encrypt API key with the current mode's key. Throws when encryption is unavailable
+// (e.g. no Web Crypto outside HTTPS) or the vault is locked — the key is never stored in plain text.
 export async function encryptApiKey(apiKey: string): Promise<void> {
-  try {
-    const fingerprint = await getFingerprint();
-    const key = await deriveKey(fingerprint);
-    const encoder = new TextEncoder();
-    const iv = crypto.getRandomValues(new Uint8Array(12));
-    
-    const encrypted = await crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv },
-      key,
-      encoder.encode(apiKey)
-    );
-    
-    // Store as base64
-    localStorage.setItem(KEY_STORAGE, btoa(String.fromCharCode(...new Uint8Array(encrypted))));
-    localStorage.setItem(IV_STORAGE, btoa(String.fromCharCode(...iv)));
-  } catch (error) {
-    console.error('Encryption failed:', error);
-    // Fallback: store plain (better than nothing)
-    localStorage.setItem('pollux_api_key_plain', apiKey);
+  if (getVaultMode() === 'passphrase') {
+    if (!sessionKey) throw new Error('Vault is locked');
+    await encryptWith(sessionKey, apiKey);
+  } else {
+    await encryptWith(await deriveDeviceKey(), apiKey);
   }
+  localStorage.removeItem(PLAIN_STORAGE);
 }
 
-// Decrypt API key
+// Decrypt API key (device mode or unlocked vault)
 export async function decryptApiKey(): Promise<string | null> {
   try {
-    const encryptedB64 = localStorage.getItem(KEY_STORAGE);
-    const ivB64 = localStorage.getItem(IV_STORAGE);
-    
-    if (!encryptedB64 || !ivB64) {
-      // Check for plain fallback
-      return localStorage.getItem('pollux_api_key_plain');
+    // Migrate the legacy plain-text fallback
+    const plain = localStorage.getItem(PLAIN_STORAGE);
+    if (plain && !localStorage.getItem(KEY_STORAGE)) {
+      await encryptApiKey(plain);
+      return plain;
     }
-    
-    const fingerprint = await getFingerprint();
-    const key = await deriveKey(fingerprint);
-    
-    const encrypted = Uint8Array.from(atob(encryptedB64), c => c.charCodeAt(0));
-    const iv = Uint8Array.from(atob(ivB64), c => c.charCodeAt(0));
-    
-    const decrypted = await crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv },
-      key,
-      encrypted
-    );
-    
-    return new TextDecoder().decode(decrypted);
+
+    const apiKey = getVaultMode() === 'passphrase'
+      ? sessionKey ? await decryptWith(sessionKey) : null
+      : await decryptWith(await deriveDeviceKey());
+    // A plain-text leftover next to the encrypted key would make the encryption pointless
+    if (apiKey !== null) localStorage.removeItem(PLAIN_STORAGE);
+    return apiKey;
   } catch (error) {
     console.error('Decryption failed:', error);
-    return localStorage.getItem('pollux_api_key_plain');
+    return null;
   }
 }
 
+// Unlock passphrase vault; returns the API key or throws on a wrong passphrase
+export async function unlockVault(passphrase: string): Promise<string> {
+  const saltB64 = localStorage.getItem(VAULT_SALT_STORAGE);
+  if (!saltB64) throw new Error('Vault is not initialized');
+
+  const key = await derivePassphraseKey(passphrase, fromBase64(saltB64));
+  let apiKey: string | null;
+  try {
+    apiKey = await decryptWith(key);
+  } catch {
+    throw new Error('Неверный пароль');
+  }
+  if (apiKey === null) throw new Error('Ключ не найден');
+
+  sessionKey = key;
+  localStorage.removeItem(PLAIN_STORAGE);
+  return apiKey;
+}
+
+export function lockVault(): void {
+  sessionKey = null;
+}
+
+// Switch to passphrase mode: fresh salt, re-encrypt the key
+export async function enableVault(passphrase: string, apiKey: string): Promise<void> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await derivePassphraseKey(passphrase, salt);
+  await encryptWith(key, apiKey);
+  localStorage.setItem(VAULT_SALT_STORAGE, toBase64(salt));
+  localStorage.setItem(MODE_STORAGE, 'passphrase');
+  localStorage.removeItem(PLAIN_STORAGE);
+  sessionKey = key;
+}
+
+// Verify the current passphrase, then re-encrypt under the new one (new salt as well)
+export async function changeVaultPassphrase(current: string, next: string): Promise<void> {
+  const apiKey = await unlockVault(current);
+  await enableVault(next, apiKey);
+}
+
+// Back to device-bound encryption
+export async function disableVault(passphrase: string): Promise<void> {
+  const apiKey = await unlockVault(passphrase);
+  await encryptWith(await deriveDeviceKey(), apiKey);
+  localStorage.removeItem(VAULT_SALT_STORAGE);
+  localStorage.removeItem(MODE_STORAGE);
+  sessionKey = null;
+}
+
 // Clear stored key
 export async function clearApiKey(): Promise<void> {
   localStorage.removeItem(KEY_STORAGE);
   localStorage.removeItem(IV_STORAGE);
-  localStorage.removeItem('pollux_api_key_plain');
+  localStorage.removeItem(PLAIN_STORAGE);
+  localStorage.removeItem(VAULT_SALT_STORAGE);
+  localStorage.removeItem(MODE_STORAGE);
+  sessionKey = null;
 }
 
 // Check if key exists
 export function hasStoredKey(): boolean {
   return !!(
-    localStorage.getItem(KEY_STORAGE) || 
-    localStorage.getItem('pollux_api_key_plain')
+    localStorage.getItem(KEY_STORAGE) ||
+    localStorage.getItem(PLAIN_STORAGE)
   );
 }
@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { addMessage, clearAllData, createChat, deleteChat, setDraftBlobs } from './db';
+import { getBlob, putBlob } from './blobs';
+
+beforeEach(async () => {
+  await clearAllData();
+});
+
+async function chatWithFile(text: string) {
+  const file = new Blob([text], { type: 'text/plain' });
+  const hash = await putBlob(file);
+  const chat = await createChat();
+  await addMessage({
+    chatId: chat.id,
+    role: 'user',
+    content: 'Вот файл',
+    attachments: [{ name: 'notes.txt', mimeType: 'text/plain', size: file.size, hash }]
+  });
+  return { chat, hash };
+}
+
+describe('draft blobs', () => {
+  it('deletes the blobs of a deleted chat unless a draft still holds them', async () => {
+    const kept = await chatWithFile('в черновике');
+    const dropped = await chatWithFile('только в чате');
+    setDraftBlobs([kept.hash]);
+
+    await deleteChat(kept.chat.id);
+    await deleteChat(dropped.chat.id);
+
+    expect(await getBlob(kept.hash)).toBeDefined();
+    expect(await getBlob(dropped.hash)).toBeUndefined();
+  });
+
+  it('spares the draft of another tab, but not one that has been stale for a day', async () => {
+    const fresh = await chatWithFile('черновик открытой вкладки');
+    const stale = await chatWithFile('черновик закрытой вкладки');
+    localStorage.setItem('pollux-draft-blobs', JSON.stringify({
+      open: { hashes: [fresh.hash], savedAt: Date.now() },
+      closed: { hashes: [stale.hash], savedAt: Date.now() - 25 * 60 * 60 * 1000 }
+    }));
+
+    await deleteChat(fresh.chat.id);
+    await deleteChat(stale.chat.id);
+
+    expect(await getBlob(fresh.hash)).toBeDefined();
+    expect(await getBlob(stale.hash)).toBeUndefined();
+  });
+});
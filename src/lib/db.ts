@@ -1,25 +1,162 @@
 import Dexie, { type Table } from 'dexie';
+import { tokenFrequencies } from './tokenize';
+import type { GenerationConfig } from './generation';
+import type { FinishInfo, SafetySettings } from './safety';
+import type { TokenUsage } from './usage';
+import { fromLegacyImages, type Attachment, type InlineAttachment } from './attachments';
+import { isObject } from './validate';
 
 export interface ChatMessage {
   id: string;
   chatId: string;
+  parentId: string | null; // null for the first message of a chat
   role: 'user' | 'model';
   content: string;
-  images?: string[]; // base64
+  attachments?: Attachment[];
+  summary?: string; // compacted history of the branch up to and including this message
+  finish?: FinishInfo; // set when a reply stopped for any reason other than STOP
+  model?: string; // model that wrote a reply
+  usage?: TokenUsage; // as reported by the provider
   timestamp: Date;
+  modifiedAt?: number; // sync clock, see below
+  syncedAt?: number; // modifiedAt of the version last pushed or pulled
 }
 
 export interface Chat {
   id: string;
   title: string;
+  titleSource?: 'generated' | 'manual'; // unset: cut from the first message. Manual titles are never replaced
   systemPrompt?: string;
+  generationConfig?: GenerationConfig; // overrides the global defaults
+  safetySettings?: SafetySettings; // overrides the global defaults
+  model?: string; // pinned by an assistant; otherwise replies use the model selected at the time
+  assistantId?: string; // assistant the chat was started from
+  folderId?: string; // top level when unset, or when the folder isn't known here (yet)
+  tags?: string[];
+  pinnedAt?: number; // pinned chats come first, most recently pinned on top
+  archivedAt?: number; // hidden from the chat list until unarchived
+  currentLeafId?: string | null; // last message of the active branch
+  createdAt: Date;
+  updatedAt: Date; // orders the chat list; not every change touches it
+  modifiedAt?: number; // sync clock, see below
+  syncedAt?: number;
+}
+
+// Folders nest through parentId (see folders.ts)
+export interface Folder {
+  id: string;
+  name: string;
+  parentId: string | null; // null at the top level
+  createdAt: Date;
+  updatedAt: Date;
+  modifiedAt?: number; // sync clock, see below
+  syncedAt?: number;
+}
+
+// Attachment bytes, shared by every message that references the same content
+export interface StoredBlob {
+  hash: string; // SHA-256 of the bytes, hex
+  blob: Blob;
+  thumbnail?: Blob; // images only
+  createdAt: Date;
+  remoteFile?: RemoteFile; // Gemini File API copy, see files.ts
+  syncedAt?: number; // blobs never change, only whether they were pushed or pulled matters
+}
+
+// A file uploaded to the provider; only readable with the key it was uploaded with
+export interface RemoteFile {
+  uri: string;
+  keyId: string; // server-side fingerprint of that key
+  expiresAt: string; // ISO date
+}
+
+// A reply still streaming: what has arrived so far, to resume after a reload (see generations.ts)
+export interface PendingGeneration {
+  id: string; // server generation id
+  chatId: string;
+  parentId: string; // user message being answered
+  continueFromId?: string; // reply being extended by a continuation
+  model: string;
+  content: string; // received text, without the continued reply's original content
+  lastEventId: string;
+  updatedAt: Date;
+}
+
+// Reusable prompt with {{variable}} placeholders (see prompts.ts)
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  content: string;
+  tags: string[];
   createdAt: Date;
   updatedAt: Date;
+  modifiedAt?: number; // sync clock, see below
+  syncedAt?: number;
+}
+
+// Saved chat setup: starting a chat from it copies the model, prompt and parameters onto the chat (see assistants.ts)
+export interface Assistant {
+  id: string;
+  name: string;
+  icon: string; // emoji
+  model?: string; // the selected model when unset
+  systemPrompt?: string;
+  generationConfig?: GenerationConfig;
+  safetySettings?: SafetySettings;
+  starters: string[]; // suggested first messages
+  createdAt: Date;
+  updatedAt: Date;
+  modifiedAt?: number; // sync clock, see below
+  syncedAt?: number;
+}
+
+export type SyncKind = 'chat' | 'message' | 'blob' | 'prompt' | 'assistant' | 'folder';
+
+// A deleted record other devices may still have, until the deletion is pushed (see sync.ts)
+export interface Tombstone {
+  id: string; // "<kind>:<record id, or blob hash>"
+  deletedAt: number;
+}
+
+// Encryption keys and progress of end-to-end encrypted sync (sync.ts); a single row while sync is on
+export interface SyncState {
+  id: 'state';
+  encryptionKey: CryptoKey; // not extractable
+  idKey: CryptoKey; // HMAC key that turns record ids into opaque ones
+  token: string; // addresses the sync space on the server
+  cursor: number; // last server sequence number pulled
+  pushedFrom: number; // local changes at or after this modifiedAt still need checking
+  lastSyncAt?: Date;
+}
+
+// One row per distinct token of a message, used by full-text search
+export interface SearchToken {
+  messageId: string;
+  chatId: string;
+  token: string;
+  count: number;
+}
+
+export function buildSearchTokens(message: Pick<ChatMessage, 'id' | 'chatId' | 'content'>): SearchToken[] {
+  return Array.from(tokenFrequencies(message.content), ([token, count]) => ({
+    messageId: message.id,
+    chatId: message.chatId,
+    token,
+    count
+  }));
 }
 
 class PolluxDatabase extends Dexie {
   chats!: Table<Chat>;
   messages!: Table<ChatMessage>;
+  searchIndex!: Table<SearchToken>;
+  blobs!: Table<StoredBlob>;
+  generations!: Table<PendingGeneration>;
+  tombstones!: Table<Tombstone>;
+  sync!: Table<SyncState>;
+  prompts!: Table<PromptTemplate>;
+  assistants!: Table<Assistant>;
+  folders!: Table<Folder>;
 
   constructor() {
     super('pollux-chat');
@@ -28,17 +165,162 @@ class PolluxDatabase extends Dexie {
       chats: 'id, updatedAt',
       messages: 'id, chatId, timestamp'
     });
+
+    // v2: messages form a tree — link existing linear history into a single branch
+    this.version(2).stores({
+      chats: 'id, updatedAt',
+      messages: 'id, chatId, parentId, timestamp'
+    }).upgrade(async tx => {
+      const chats = await tx.table<Chat>('chats').toArray();
+      for (const chat of chats) {
+        const messages = await tx.table<ChatMessage>('messages')
+          .where('chatId').equals(chat.id)
+          .sortBy('timestamp');
+        let parentId: string | null = null;
+        for (const message of messages) {
+          await tx.table('messages').update(message.id, { parentId });
+          parentId = message.id;
+        }
+        await tx.table('chats').update(chat.id, { currentLeafId: parentId });
+      }
+    });
+
+    // v3: token index for full-text search
+    this.version(3).stores({
+      chats: 'id, updatedAt',
+      messages: 'id, chatId, parentId, timestamp',
+      searchIndex: '[messageId+token], token, messageId, chatId'
+    }).upgrade(async tx => {
+      const messages = await tx.table<ChatMessage>('messages').toArray();
+      await tx.table<SearchToken>('searchIndex').bulkPut(messages.flatMap(buildSearchTokens));
+    });
+
+    // v4: images become general attachments with name, type and size
+    this.version(4).stores({
+      chats: 'id, updatedAt',
+      messages: 'id, chatId, parentId, timestamp',
+      searchIndex: '[messageId+token], token, messageId, chatId'
+    }).upgrade(async tx => {
+      await tx.table('messages').toCollection().modify((message: { images?: string[]; attachments?: InlineAttachment[] }) => {
+        if (!message.images) return;
+        if (message.images.length) message.attachments = fromLegacyImages(message.images);
+        delete message.images;
+      });
+    });
+
+    // v5: attachment bytes move to a content-addressed blob table. Hashing can't run inside
+    // an upgrade transaction, so moveInlineAttachments() converts existing messages after open
+    this.version(5).stores({
+      chats: 'id, updatedAt',
+      messages: 'id, chatId, parentId, timestamp',
+      searchIndex: '[messageId+token], token, messageId, chatId',
+      blobs: 'hash, createdAt'
+    });
+
+    // v6: replies in progress, mirrored while they stream
+    this.version(6).stores({
+      chats: 'id, updatedAt',
+      messages: 'id, chatId, parentId, timestamp',
+      searchIndex: '[messageId+token], token, messageId, chatId',
+      blobs: 'hash, createdAt',
+      generations: 'id'
+    });
+
+    // v7: sync clock on chats and messages, deletions and state for sync
+    this.version(7).stores({
+      chats: 'id, updatedAt, modifiedAt',
+      messages: 'id, chatId, parentId, timestamp, modifiedAt',
+      searchIndex: '[messageId+token], token, messageId, chatId',
+      blobs: 'hash, createdAt',
+      generations: 'id',
+      tombstones: 'id',
+      sync: 'id'
+    }).upgrade(async tx => {
+      await tx.table<Chat>('chats').toCollection().modify(chat => { chat.modifiedAt = new Date(chat.updatedAt).getTime(); });
+      await tx.table<ChatMessage>('messages').toCollection().modify(message => { message.modifiedAt = new Date(message.timestamp).getTime(); });
+    });
+
+    // v8: prompt library
+    this.version(8).stores({
+      chats: 'id, updatedAt, modifiedAt',
+      messages: 'id, chatId, parentId, timestamp, modifiedAt',
+      searchIndex: '[messageId+token], token, messageId, chatId',
+      blobs: 'hash, createdAt',
+      generations: 'id',
+      tombstones: 'id',
+      sync: 'id',
+      prompts: 'id, updatedAt, modifiedAt'
+    });
+
+    // v9: assistants, and chats started from them
+    this.version(9).stores({
+      chats: 'id, updatedAt, modifiedAt, assistantId',
+      messages: 'id, chatId, parentId, timestamp, modifiedAt',
+      searchIndex: '[messageId+token], token, messageId, chatId',
+      blobs: 'hash, createdAt',
+      generations: 'id',
+      tombstones: 'id',
+      sync: 'id',
+      prompts: 'id, updatedAt, modifiedAt',
+      assistants: 'id, updatedAt, modifiedAt'
+    });
+
+    // v10: folders, pins, tags and the archive
+    this.version(10).stores({
+      chats: 'id, updatedAt, modifiedAt, assistantId, folderId, pinnedAt, archivedAt, *tags',
+      messages: 'id, chatId, parentId, timestamp, modifiedAt',
+      searchIndex: '[messageId+token], token, messageId, chatId',
+      blobs: 'hash, createdAt',
+      generations: 'id',
+      tombstones: 'id',
+      sync: 'id',
+      prompts: 'id, updatedAt, modifiedAt',
+      assistants: 'id, updatedAt, modifiedAt',
+      folders: 'id, parentId, modifiedAt'
+    });
   }
 }
 
 export const db = new PolluxDatabase();
 
+// Sync clock: every local write to a chat, message, prompt, assistant or folder stamps modifiedAt, never going back in time
+// for a record another device stamped with a clock ahead of ours. Writes that set modifiedAt
+// (pulled records) or syncedAt (marking a push) keep the stamp they bring
+function stampModified<T extends { modifiedAt?: number }>(table: Table<T>) {
+  table.hook('creating', (_key, record) => {
+    record.modifiedAt ??= Date.now();
+  });
+  table.hook('updating', (changes, _key, record) => {
+    // A put() lists removed fields as undefined
+    if ((changes as Partial<T>).modifiedAt !== undefined || 'syncedAt' in changes) return undefined;
+    return { modifiedAt: Math.max(Date.now(), (record.modifiedAt ?? 0) + 1) };
+  });
+}
+stampModified(db.chats);
+stampModified(db.messages);
+stampModified(db.prompts);
+stampModified(db.assistants);
+stampModified(db.folders);
+
+// Sync bookkeeping belongs to this device; backups and pushed records leave it out
+export function withoutSyncFields<T extends { modifiedAt?: number; syncedAt?: number }>({ modifiedAt, syncedAt, ...record }: T) {
+  return record;
+}
+
+// Deletions of records that were synced; those never pushed need none
+export function tombstonesFor(kind: SyncKind, keys: string[]): Tombstone[] {
+  const deletedAt = Date.now();
+  return keys.map(key => ({ id: `${kind}:${key}`, deletedAt }));
+}
+
 // Chat operations
-export async function createChat(systemPrompt?: string): Promise<Chat> {
+export type ChatSetup = Pick<Chat, 'systemPrompt' | 'generationConfig' | 'safetySettings' | 'model' | 'assistantId'>;
+
+export async function createChat(setup: ChatSetup = {}): Promise<Chat> {
   const chat: Chat = {
     id: crypto.randomUUID(),
     title: 'Новый чат',
-    systemPrompt,
+    ...setup,
     createdAt: new Date(),
     updatedAt: new Date()
   };
@@ -58,82 +340,246 @@ export async function updateChat(id: string, updates: Partial<Chat>): Promise<vo
   await db.chats.update(id, { ...updates, updatedAt: new Date() });
 }
 
+// A manual title; leaves updatedAt, and so the chat's place in the list, alone
+export async function renameChat(id: string, title: string): Promise<void> {
+  await db.chats.update(id, { title: title.trim() || 'Новый чат', titleSource: 'manual' });
+}
+
 export async function deleteChat(id: string): Promise<void> {
-  await db.transaction('rw', [db.chats, db.messages], async () => {
+  const messages = await db.messages.where('chatId').equals(id).toArray();
+  await db.transaction('rw', [db.chats, db.messages, db.searchIndex, db.tombstones], async () => {
+    const chat = await db.chats.get(id);
+    await db.tombstones.bulkPut([
+      ...tombstonesFor('chat', chat?.syncedAt !== undefined ? [id] : []),
+      ...tombstonesFor('message', messages.filter(m => m.syncedAt !== undefined).map(m => m.id))
+    ]);
+    await db.searchIndex.where('chatId').equals(id).delete();
     await db.messages.where('chatId').equals(id).delete();
     await db.chats.delete(id);
   });
+  await deleteUnreferencedBlobs(attachmentHashes(messages));
 }
 
 // Message operations
-export async function addMessage(message: Omit<ChatMessage, 'id' | 'timestamp'>): Promise<ChatMessage> {
+export interface ChatThread {
+  messages: ChatMessage[]; // active branch, root first
+  siblings: Record<string, string[]>; // message id -> ids of all alternatives at its position (including itself)
+}
+
+export async function addMessage(
+  message: Omit<ChatMessage, 'id' | 'timestamp' | 'parentId'> & { parentId?: string | null }
+): Promise<ChatMessage> {
+  const chat = await getChat(message.chatId);
   const fullMessage: ChatMessage = {
     ...message,
+    // By default the message continues the active branch
+    parentId: message.parentId !== undefined ? message.parentId : chat?.currentLeafId ?? null,
     id: crypto.randomUUID(),
     timestamp: new Date()
   };
-  await db.messages.add(fullMessage);
+  await db.transaction('rw', [db.messages, db.searchIndex], async () => {
+    await db.messages.add(fullMessage);
+    await db.searchIndex.bulkPut(buildSearchTokens(fullMessage));
+  });
   
-  // Update chat title from first user message
+  // Update chat title from first user message, unless the empty chat was renamed already
   const messageCount = await db.messages.where('chatId').equals(message.chatId).count();
-  if (messageCount === 1 && message.role === 'user') {
+  if (messageCount === 1 && message.role === 'user' && !chat?.titleSource) {
     const title = message.content.slice(0, 50) + (message.content.length > 50 ? '...' : '');
-    await updateChat(message.chatId, { title: title || 'Новый чат' });
+    await updateChat(message.chatId, { title: title || 'Новый чат', currentLeafId: fullMessage.id });
   } else {
-    await updateChat(message.chatId, {});
+    await updateChat(message.chatId, { currentLeafId: fullMessage.id });
   }
   
   return fullMessage;
 }
 
+function groupByParent(messages: ChatMessage[]): Map<string | null, ChatMessage[]> {
+  const children = new Map<string | null, ChatMessage[]>();
+  for (const message of messages) {
+    const key = message.parentId ?? null;
+    const list = children.get(key);
+    if (list) list.push(message);
+    else children.set(key, [message]);
+  }
+  return children;
+}
+
+// Follow the most recent child down to a leaf
+function findLatestLeaf(children: Map<string | null, ChatMessage[]>, fromId: string | null): string | null {
+  let leafId = fromId;
+  let next = children.get(leafId);
+  while (next?.length) {
+    leafId = next[next.length - 1].id;
+    next = children.get(leafId);
+  }
+  return leafId;
+}
+
+export async function getChatThread(chatId: string): Promise<ChatThread> {
+  const chat = await getChat(chatId);
+  const all = await db.messages.where('chatId').equals(chatId).sortBy('timestamp');
+  const byId = new Map(all.map(m => [m.id, m]));
+  const children = groupByParent(all);
+
+  let leafId = chat?.currentLeafId ?? null;
+  if (!leafId || !byId.has(leafId)) {
+    leafId = findLatestLeaf(children, null);
+  }
+
+  const messages: ChatMessage[] = [];
+  let cursor = leafId ? byId.get(leafId) : undefined;
+  while (cursor) {
+    messages.unshift(cursor);
+    cursor = cursor.parentId ? byId.get(cursor.parentId) : undefined;
+  }
+
+  const siblings: Record<string, string[]> = {};
+  for (const message of messages) {
+    siblings[message.id] = (children.get(message.parentId ?? null) || []).map(m => m.id);
+  }
+
+  return { messages, siblings };
+}
+
+export async function getMessage(id: string): Promise<ChatMessage | undefined> {
+  return db.messages.get(id);
+}
+
 export async function getChatMessages(chatId: string): Promise<ChatMessage[]> {
-  return db.messages.where('chatId').equals(chatId).sortBy('timestamp');
+  return (await getChatThread(chatId)).messages;
+}
+
+// Make the branch containing messageId active, continuing to its latest leaf
+export async function switchBranch(chatId: string, messageId: string): Promise<void> {
+  const all = await db.messages.where('chatId').equals(chatId).sortBy('timestamp');
+  const leafId = findLatestLeaf(groupByParent(all), messageId);
+  await db.chats.update(chatId, { currentLeafId: leafId });
+}
+
+// Move the end of the active branch to messageId (used before regenerating)
+export async function setCurrentLeaf(chatId: string, messageId: string | null): Promise<void> {
+  await db.chats.update(chatId, { currentLeafId: messageId });
 }
 
 export async function updateMessage(id: string, content: string): Promise<void> {
-  await db.messages.update(id, { content });
+  await db.transaction('rw', [db.messages, db.searchIndex], async () => {
+    const message = await db.messages.get(id);
+    if (!message) return;
+    await db.messages.update(id, { content });
+    await db.searchIndex.where('messageId').equals(id).delete();
+    await db.searchIndex.bulkPut(buildSearchTokens({ ...message, content }));
+  });
 }
 
-export async function deleteMessage(id: string): Promise<void> {
-  await db.messages.delete(id);
+export async function setMessageSummary(id: string, summary: string): Promise<void> {
+  await db.messages.update(id, { summary });
 }
 
-export async function deleteMessagesAfter(chatId: string, messageId: string): Promise<void> {
-  const messages = await getChatMessages(chatId);
-  const index = messages.findIndex(m => m.id === messageId);
-  if (index >= 0) {
-    const idsToDelete = messages.slice(index).map(m => m.id);
-    await db.messages.bulkDelete(idsToDelete);
-  }
+export async function setMessageFinish(id: string, finish: FinishInfo | undefined): Promise<void> {
+  await db.messages.update(id, { finish });
 }
 
-// Export chat
-export async function exportChat(chatId: string): Promise<string> {
-  const chat = await getChat(chatId);
-  const messages = await getChatMessages(chatId);
-  
-  if (!chat) return '';
-  
-  let markdown = `# ${chat.title}\n\n`;
-  markdown += `*Экспортировано: ${new Date().toLocaleString()}*\n\n`;
-  
-  if (chat.systemPrompt) {
-    markdown += `## Системный промпт\n\n${chat.systemPrompt}\n\n`;
-  }
-  
-  markdown += `---\n\n`;
-  
-  for (const msg of messages) {
-    const role = msg.role === 'user' ? '**Вы**' : '**Ассистент**';
-    markdown += `${role} (${new Date(msg.timestamp).toLocaleTimeString()})\n\n`;
-    markdown += `${msg.content}\n\n`;
-    if (msg.images?.length) {
-      markdown += `*[${msg.images.length} image(s) attached]*\n\n`;
+export async function setMessageUsage(id: string, usage: TokenUsage): Promise<void> {
+  await db.messages.update(id, { usage });
+}
+
+// Replies with reported usage, across all chats
+export async function getUsageMessages(): Promise<ChatMessage[]> {
+  return db.messages.filter(m => !!m.usage).toArray();
+}
+
+// Remove a single message; its replies are re-attached to its parent
+export async function deleteMessage(id: string): Promise<void> {
+  const message = await db.messages.get(id);
+  if (!message) return;
+  const parentId = message.parentId ?? null;
+
+  await db.transaction('rw', [db.chats, db.messages, db.searchIndex, db.tombstones], async () => {
+    await db.messages.where('parentId').equals(id).modify({ parentId });
+    await db.messages.delete(id);
+    if (message.syncedAt !== undefined) await db.tombstones.bulkPut(tombstonesFor('message', [id]));
+    await db.searchIndex.where('messageId').equals(id).delete();
+
+    const chat = await db.chats.get(message.chatId);
+    if (chat?.currentLeafId === id) {
+      await db.chats.update(message.chatId, { currentLeafId: parentId });
     }
-    markdown += `---\n\n`;
+  });
+  await deleteUnreferencedBlobs(attachmentHashes([message]));
+}
+
+// Blob operations
+function attachmentHashes(messages: ChatMessage[]): string[] {
+  return [...new Set(messages.flatMap(m => m.attachments?.map(a => a.hash) ?? []))];
+}
+
+// Attachments of unsent drafts: stored as blobs, but no message refers to them yet. Each tab
+// lists its draft in localStorage, so clean-up in one tab spares the drafts of the others.
+// The entry of a tab that closed stops counting after the grace period of collectOrphanedBlobs
+const DRAFTS_STORAGE = 'pollux-draft-blobs';
+const DRAFT_GRACE_MS = 24 * 60 * 60 * 1000;
+const tabId = crypto.randomUUID();
+
+type DraftEntry = { hashes: string[]; savedAt: number };
+
+function loadDrafts(): Record<string, DraftEntry> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(localStorage.getItem(DRAFTS_STORAGE) ?? '{}');
+  } catch {
+    return {};
   }
-  
-  return markdown;
+  if (!isObject(parsed)) return {};
+  const cutoff = Date.now() - DRAFT_GRACE_MS;
+  return Object.fromEntries(Object.entries(parsed).filter(([, entry]) =>
+    isObject(entry) && Array.isArray(entry.hashes) && typeof entry.savedAt === 'number' && entry.savedAt >= cutoff
+  )) as Record<string, DraftEntry>;
+}
+
+export function setDraftBlobs(hashes: string[]): void {
+  const drafts = loadDrafts();
+  if (hashes.length) drafts[tabId] = { hashes, savedAt: Date.now() };
+  else delete drafts[tabId];
+  localStorage.setItem(DRAFTS_STORAGE, JSON.stringify(drafts));
+}
+
+function draftHashes(): Set<string> {
+  return new Set(Object.values(loadDrafts()).flatMap(entry => entry.hashes));
+}
+
+async function referencedHashes(): Promise<Set<string>> {
+  const messages = await db.messages.filter(m => !!m.attachments?.length).toArray();
+  return new Set([...attachmentHashes(messages), ...draftHashes()]);
+}
+
+export async function isBlobReferenced(hash: string): Promise<boolean> {
+  if (draftHashes().has(hash)) return true;
+  return (await db.messages.filter(m => !!m.attachments?.some(a => a.hash === hash)).count()) > 0;
+}
+
+async function deleteBlobs(blobs: StoredBlob[]): Promise<void> {
+  await db.transaction('rw', [db.blobs, db.tombstones], async () => {
+    await db.tombstones.bulkPut(tombstonesFor('blob', blobs.filter(b => b.syncedAt !== undefined).map(b => b.hash)));
+    await db.blobs.bulkDelete(blobs.map(b => b.hash));
+  });
+}
+
+// Garbage-collect blobs of deleted messages that no other message (or the draft) shares
+export async function deleteUnreferencedBlobs(hashes: string[]): Promise<void> {
+  if (!hashes.length) return;
+  const referenced = await referencedHashes();
+  const unreferenced = await db.blobs.bulkGet(hashes.filter(hash => !referenced.has(hash)));
+  await deleteBlobs(unreferenced.filter((b): b is StoredBlob => !!b));
+}
+
+// Full sweep; blobs newer than graceMs may belong to a draft that hasn't been sent yet
+export async function collectOrphanedBlobs(graceMs = 24 * 60 * 60 * 1000): Promise<number> {
+  const referenced = await referencedHashes();
+  const cutoff = new Date(Date.now() - graceMs);
+  const orphaned = await db.blobs.where('createdAt').below(cutoff).filter(b => !referenced.has(b.hash)).toArray();
+  await deleteBlobs(orphaned);
+  return orphaned.length;
 }
 
 // Clear all data
@@ -0,0 +1,314 @@
+/**
+ * Exporting one chat or many: Markdown (zipped together with the attachments when there are any, or several chats),
+ * a self-contained HTML page with attachments embedded and code highlighted, or structured JSON.
+ * Only the active branch of each chat is exported. Unlike backups (backup.ts), exports are for reading and sharing.
+ */
+
+import { createElement } from 'react';
+import ReactMarkdown from 'react-markdown';
+import rehypeHighlight from 'rehype-highlight';
+import highlightStyles from 'highlight.js/styles/github.css?raw';
+import { getChat, getChatMessages, type Chat, type ChatMessage } from './db';
+import { getBlob, blobToDataUrl } from './blobs';
+import { attachmentKind, type Attachment } from './attachments';
+import { createZip, type ZipEntry } from './zip';
+
+export const CHAT_EXPORT_FORMAT = 'pollux-chats';
+export const CHAT_EXPORT_VERSION = 1;
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+export type ExportLanguage = 'ru' | 'en';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  systemPrompts: boolean;
+  timestamps: boolean;
+  language: ExportLanguage; // of the labels written around messages
+}
+
+export interface ExportedFile {
+  blob: Blob;
+  filename: string;
+}
+
+interface ExportLabels {
+  name: string;
+  locale: string;
+  user: string;
+  model: string;
+  systemPrompt: string;
+  exportedAt: string;
+  contents: string;
+}
+
+export const EXPORT_LABELS: Record<ExportLanguage, ExportLabels> = {
+  ru: {
+    name: 'Русский',
+    locale: 'ru-RU',
+    user: 'Вы',
+    model: 'Ассистент',
+    systemPrompt: 'Системный промпт',
+    exportedAt: 'Экспортировано',
+    contents: 'Чаты'
+  },
+  en: {
+    name: 'English',
+    locale: 'en-US',
+    user: 'You',
+    model: 'Assistant',
+    systemPrompt: 'System prompt',
+    exportedAt: 'Exported',
+    contents: 'Chats'
+  }
+};
+
+const EXPORT_OPTIONS_STORAGE = 'pollux-export-options';
+const DEFAULT_EXPORT_OPTIONS: ExportOptions = { format: 'markdown', systemPrompts: true, timestamps: true, language: 'ru' };
+
+const PAGE_STYLES = `
+body { margin: 0; background: #fafafa; color: #18181b; font: 15px/1.6 system-ui, -apple-system, sans-serif; }
+main { max-width: 820px; margin: 0 auto; padding: 32px 20px; }
+nav, article { background: #fff; border: 1px solid #e4e4e7; border-radius: 12px; padding: 20px 24px; margin-bottom: 24px; }
+h1 { font-size: 1.5em; margin: 0 0 4px; }
+.meta, time { color: #71717a; font-size: 0.85em; }
+.system { background: #f4f4f5; border-radius: 8px; padding: 8px 12px; margin: 12px 0; }
+.message { border-top: 1px solid #e4e4e7; padding: 12px 0; }
+.role { font-weight: 600; margin-bottom: 4px; }
+.role time { font-weight: normal; margin-left: 8px; }
+.model .role { color: #2563eb; }
+pre { background: #f6f8fa; border-radius: 8px; padding: 12px; overflow-x: auto; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.9em; }
+img { max-width: 100%; border-radius: 8px; }
+.attachments { display: flex; flex-direction: column; gap: 8px; margin-top: 8px; }
+.missing { color: #a1a1aa; text-decoration: line-through; }
+`;
+
+// Falls back to the defaults, field by field
+export function loadExportOptions(): ExportOptions {
+  try {
+    const raw = localStorage.getItem(EXPORT_OPTIONS_STORAGE);
+    return { ...DEFAULT_EXPORT_OPTIONS, ...(raw ? JSON.parse(raw) : {}) };
+  } catch {
+    return DEFAULT_EXPORT_OPTIONS;
+  }
+}
+
+export function saveExportOptions(options: ExportOptions): void {
+  localStorage.setItem(EXPORT_OPTIONS_STORAGE, JSON.stringify(options));
+}
+
+interface ChatWithMessages {
+  chat: Chat;
+  messages: ChatMessage[]; // active branch
+}
+
+// Chats deleted in the meantime are left out
+async function loadChats(ids: string[]): Promise<ChatWithMessages[]> {
+  const loaded = await Promise.all(ids.map(async id => {
+    const chat = await getChat(id);
+    return chat ? { chat, messages: await getChatMessages(id) } : null;
+  }));
+  return loaded.filter(c => c !== null);
+}
+
+// Attachments by hash, read once per export; undefined when the blob is missing
+function blobReader(): (attachment: Attachment) => Promise<Blob | undefined> {
+  const cache = new Map<string, Promise<Blob | undefined>>();
+  return attachment => {
+    if (!cache.has(attachment.hash)) cache.set(attachment.hash, getBlob(attachment.hash));
+    return cache.get(attachment.hash)!;
+  };
+}
+
+function safeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').replace(/\s+/g, ' ').trim().slice(0, 80) || 'chat';
+}
+
+// A single chat's title, otherwise the date
+function bundleName(chats: ChatWithMessages[]): string {
+  return chats.length === 1 ? safeFileName(chats[0].chat.title) : `chats-${new Date().toISOString().slice(0, 10)}`;
+}
+
+// "notes.md", "notes (2).md", ...
+function uniqueName(name: string, taken: Set<string>): string {
+  const dot = name.lastIndexOf('.');
+  const [base, ext] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+  let unique = name;
+  for (let i = 2; taken.has(unique); i++) unique = `${base} (${i})${ext}`;
+  taken.add(unique);
+  return unique;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+}
+
+function roleLabel(message: ChatMessage, labels: ExportLabels): string {
+  if (message.role === 'user') return labels.user;
+  return message.model ? `${labels.model} (${message.model})` : labels.model;
+}
+
+function formatTime(date: Date, labels: ExportLabels): string {
+  return new Date(date).toLocaleString(labels.locale);
+}
+
+// Each attachment saved once under files/, whichever chats refer to it
+async function exportMarkdown(chats: ChatWithMessages[], options: ExportOptions): Promise<ExportedFile> {
+  const labels = EXPORT_LABELS[options.language];
+  const readBlob = blobReader();
+  const files = new Map<string, ZipEntry>(); // by hash
+  const takenFiles = new Set<string>();
+
+  const documents: { title: string; markdown: string }[] = [];
+  for (const { chat, messages } of chats) {
+    let markdown = `# ${chat.title}\n\n`;
+    if (options.timestamps) markdown += `*${labels.exportedAt}: ${formatTime(new Date(), labels)}*\n\n`;
+    if (options.systemPrompts && chat.systemPrompt) markdown += `## ${labels.systemPrompt}\n\n${chat.systemPrompt}\n\n`;
+    markdown += '---\n\n';
+
+    for (const message of messages) {
+      markdown += `**${roleLabel(message, labels)}**`;
+      markdown += options.timestamps ? ` (${formatTime(message.timestamp, labels)})\n\n` : '\n\n';
+      if (message.content) markdown += `${message.content}\n\n`;
+      for (const attachment of message.attachments ?? []) {
+        const blob = await readBlob(attachment);
+        if (!blob) {
+          markdown += `*${attachment.name}*\n\n`;
+          continue;
+        }
+        if (!files.has(attachment.hash)) {
+          files.set(attachment.hash, { name: `files/${uniqueName(safeFileName(attachment.name), takenFiles)}`, data: blob });
+        }
+        const path = encodeURI(files.get(attachment.hash)!.name);
+        markdown += attachmentKind(attachment.mimeType, attachment.name) === 'image'
+          ? `![${attachment.name}](${path})\n\n`
+          : `[${attachment.name}](${path})\n\n`;
+      }
+      markdown += '---\n\n';
+    }
+    documents.push({ title: chat.title, markdown });
+  }
+
+  if (documents.length === 1 && !files.size) {
+    return {
+      blob: new Blob([documents[0].markdown], { type: 'text/markdown' }),
+      filename: `${safeFileName(documents[0].title)}.md`
+    };
+  }
+  const takenDocuments = new Set<string>();
+  const entries: ZipEntry[] = documents.map(({ title, markdown }) => ({
+    name: uniqueName(`${safeFileName(title)}.md`, takenDocuments),
+    data: markdown
+  }));
+  return { blob: await createZip([...entries, ...files.values()]), filename: `${bundleName(chats)}.zip` };
+}
+
+async function attachmentHtml(attachment: Attachment, blob: Blob | undefined): Promise<string> {
+  const name = escapeHtml(attachment.name);
+  if (!blob) return `<span class="missing">${name}</span>`;
+  switch (attachmentKind(attachment.mimeType, attachment.name)) {
+    case 'image':
+      return `<img src="${await blobToDataUrl(blob)}" alt="${name}">`;
+    case 'audio':
+      return `<audio controls src="${await blobToDataUrl(blob)}" title="${name}"></audio>`;
+    case 'text':
+      return `<details><summary>${name}</summary><pre><code>${escapeHtml(await blob.text())}</code></pre></details>`;
+    default:
+      return `<a download="${name}" href="${await blobToDataUrl(blob)}">${name}</a>`;
+  }
+}
+
+// One page for all chats, with a table of contents when there are several
+async function exportHtml(chats: ChatWithMessages[], options: ExportOptions): Promise<ExportedFile> {
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const renderMarkdown = (content: string) =>
+    renderToStaticMarkup(createElement(ReactMarkdown, { rehypePlugins: [rehypeHighlight] }, content));
+  const labels = EXPORT_LABELS[options.language];
+  const readBlob = blobReader();
+
+  const articles: string[] = [];
+  for (const [i, { chat, messages }] of chats.entries()) {
+    let html = `<article id="chat-${i + 1}"><h1>${escapeHtml(chat.title)}</h1>`;
+    if (options.timestamps) html += `<p class="meta">${escapeHtml(`${labels.exportedAt}: ${formatTime(new Date(), labels)}`)}</p>`;
+    if (options.systemPrompts && chat.systemPrompt) {
+      html += `<details class="system"><summary>${escapeHtml(labels.systemPrompt)}</summary>${renderMarkdown(chat.systemPrompt)}</details>`;
+    }
+    for (const message of messages) {
+      html += `<section class="message ${message.role}"><div class="role">${escapeHtml(roleLabel(message, labels))}`;
+      if (options.timestamps) {
+        html += `<time datetime="${new Date(message.timestamp).toISOString()}">${escapeHtml(formatTime(message.timestamp, labels))}</time>`;
+      }
+      html += `</div>${renderMarkdown(message.content)}`;
+      if (message.attachments?.length) {
+        const attachments = await Promise.all(message.attachments.map(async a => attachmentHtml(a, await readBlob(a))));
+        html += `<div class="attachments">${attachments.join('')}</div>`;
+      }
+      html += '</section>';
+    }
+    articles.push(`${html}</article>`);
+  }
+
+  const title = chats.length === 1 ? chats[0].chat.title : labels.contents;
+  const contents = chats.length > 1
+    ? `<nav><h1>${escapeHtml(labels.contents)}</h1><ol>${chats.map(({ chat }, i) => `<li><a href="#chat-${i + 1}">${escapeHtml(chat.title)}</a></li>`).join('')}</ol></nav>`
+    : '';
+  const page = `<!DOCTYPE html>
+<html lang="${options.language}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${PAGE_STYLES}${highlightStyles}</style>
+</head>
+<body><main>${contents}${articles.join('')}</main></body>
+</html>
+`;
+  return { blob: new Blob([page], { type: 'text/html' }), filename: `${bundleName(chats)}.html` };
+}
+
+// Attachments inline as data URLs, as in backups
+async function exportJson(chats: ChatWithMessages[], options: ExportOptions): Promise<ExportedFile> {
+  const readBlob = blobReader();
+  const exported = await Promise.all(chats.map(async ({ chat, messages }) => ({
+    id: chat.id,
+    title: chat.title,
+    ...(options.timestamps ? { createdAt: chat.createdAt, updatedAt: chat.updatedAt } : {}),
+    ...(options.systemPrompts && chat.systemPrompt ? { systemPrompt: chat.systemPrompt } : {}),
+    ...(chat.tags?.length ? { tags: chat.tags } : {}),
+    messages: await Promise.all(messages.map(async message => ({
+      role: message.role,
+      content: message.content,
+      ...(message.model ? { model: message.model } : {}),
+      ...(options.timestamps ? { timestamp: message.timestamp } : {}),
+      ...(message.attachments?.length ? {
+        attachments: await Promise.all(message.attachments.map(async attachment => {
+          const { hash, ...fields } = attachment;
+          const blob = await readBlob(attachment);
+          return blob ? { ...fields, data: await blobToDataUrl(blob) } : fields;
+        }))
+      } : {})
+    })))
+  })));
+
+  const json = JSON.stringify({
+    format: CHAT_EXPORT_FORMAT,
+    version: CHAT_EXPORT_VERSION,
+    ...(options.timestamps ? { exportedAt: new Date().toISOString() } : {}),
+    chats: exported
+  }, null, 2);
+  return { blob: new Blob([json], { type: 'application/json' }), filename: `${bundleName(chats)}.json` };
+}
+
+// Chats in the given order; throws when none of them exists any more
+export async function exportChats(ids: string[], options: ExportOptions): Promise<ExportedFile> {
+  const chats = await loadChats(ids);
+  if (!chats.length) throw new Error('Чаты для экспорта не найдены');
+  switch (options.format) {
+    case 'html':
+      return exportHtml(chats, options);
+    case 'json':
+      return exportJson(chats, options);
+    default:
+      return exportMarkdown(chats, options);
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Large attachments are uploaded once to the provider's file storage (Gemini File API) and
+ * referenced by URI in later requests instead of being re-sent as base64 every turn.
+ * The URI is cached on the blob record and replaced after it expires.
+ */
+
+import { db, type RemoteFile } from './db';
+import { attachmentKind, toInlineAttachments, type Attachment, type PayloadAttachment } from './attachments';
+
+// Smaller files cost less inline than a separate upload
+export const FILE_UPLOAD_THRESHOLD = 512 * 1024;
+
+// Gemini keeps files for 48 hours; don't reference one that may expire before the request is done
+const EXPIRY_MARGIN_MS = 60 * 60 * 1000;
+
+export interface UploadTarget {
+  apiKey: string;
+  apiBase: string;
+  provider?: string;
+}
+
+function shouldUpload(attachment: Attachment): boolean {
+  return attachment.size >= FILE_UPLOAD_THRESHOLD && attachmentKind(attachment.mimeType, attachment.name) !== 'text';
+}
+
+function isFresh(remote: RemoteFile | undefined): remote is RemoteFile {
+  return !!remote && Date.parse(remote.expiresAt) - Date.now() > EXPIRY_MARGIN_MS;
+}
+
+async function uploadFile(target: UploadTarget, attachment: Attachment, blob: Blob): Promise<RemoteFile> {
+  const query = target.provider ? `?provider=${encodeURIComponent(target.provider)}` : '';
+  const res = await fetch(`${target.apiBase}/api/files${query}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': attachment.mimeType,
+      'X-File-Name': encodeURIComponent(attachment.name),
+      Authorization: `Bearer ${target.apiKey}`
+    },
+    body: blob
+  });
+  if (!res.ok) throw new Error(`Не удалось загрузить «${attachment.name}»: ${await res.text()}`);
+  const { uri, keyId, expiresAt } = await res.json();
+  return { uri, keyId, expiresAt };
+}
+
+// Uploaded references for large binary files, inline data for the rest.
+// Without a target (providers without file storage) everything is inline
+export async function toPayloadAttachments(attachments: Attachment[], target?: UploadTarget): Promise<PayloadAttachment[]> {
+  if (!target) return toInlineAttachments(attachments);
+  return Promise.all(attachments.map(async attachment => {
+    if (!shouldUpload(attachment)) return (await toInlineAttachments([attachment]))[0];
+
+    const { hash, ...rest } = attachment;
+    const stored = await db.blobs.get(hash);
+    if (!stored) throw new Error(`Файл «${attachment.name}» не найден в хранилище`);
+    let remote = stored.remoteFile;
+    if (!isFresh(remote)) {
+      remote = await uploadFile(target, attachment, stored.blob);
+      await db.blobs.update(hash, { remoteFile: remote });
+    }
+    return { ...rest, fileUri: remote.uri, keyId: remote.keyId };
+  }));
+}
+
+// After the server refused the cached URIs (expired early, deleted, or another key): upload again next time
+export async function forgetRemoteFiles(hashes: string[]): Promise<void> {
+  await db.blobs.where('hash').anyOf(hashes).modify(stored => { delete stored.remoteFile; });
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import type { Folder } from './db';
+import { folderOptions, parseFolders } from './folders';
+
+function folder(id: string, parentId: string | null): Folder {
+  return { id, name: id, parentId, createdAt: new Date(0), updatedAt: new Date(0) };
+}
+
+describe('folder tree', () => {
+  it('shows folders on a parent cycle at the top level, with what is nested in them', () => {
+    // a and b were moved into each other on two devices; c is in a, d is its own parent
+    const options = folderOptions([folder('a', 'b'), folder('b', 'a'), folder('c', 'a'), folder('d', 'd'), folder('e', 'gone')]);
+    expect(options.map(o => [o.folder.id, o.depth])).toEqual([['a', 0], ['c', 1], ['b', 0], ['d', 0], ['e', 0]]);
+  });
+
+  it('moves folders on a cycle to the top level when reading a backup', () => {
+    const folders = parseFolders([folder('a', 'b'), folder('b', 'a'), folder('c', 'a')]);
+    expect(folders.map(f => [f.id, f.parentId])).toEqual([['a', null], ['b', null], ['c', 'a']]);
+  });
+});
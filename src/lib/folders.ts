@@ -0,0 +1,184 @@
+/**
+ * Organizing chats: nestable folders, pinning, tags and the archive, one chat or many at a time.
+ * None of it touches updatedAt, so chats stay ordered by their last message.
+ */
+
+import { db, deleteChat, tombstonesFor, type Chat, type Folder } from './db';
+import { parseTags } from './prompts';
+import { isObject, toDate } from './validate';
+
+export interface FolderOption {
+  folder: Folder;
+  depth: number;
+}
+
+export interface FolderDraft {
+  id?: string; // editing an existing folder
+  name: string;
+  parentId: string | null;
+}
+
+export async function getFolders(): Promise<Folder[]> {
+  return db.folders.toArray();
+}
+
+// Folders that are their own ancestor: two devices moved folders into each other, or a backup was edited
+function foldersOnCycles(folders: Folder[]): Set<string> {
+  const parents = new Map(folders.map(f => [f.id, f.parentId]));
+  const onCycle = new Set<string>();
+  for (const folder of folders) {
+    const seen = new Set<string>();
+    let id = folder.parentId;
+    while (id && id !== folder.id && !seen.has(id)) {
+      seen.add(id);
+      id = parents.get(id) ?? null;
+    }
+    if (id === folder.id) onCycle.add(folder.id);
+  }
+  return onCycle;
+}
+
+// Depth-first, siblings by name: for the sidebar tree and folder pickers.
+// Folders whose parent is gone (deleted on another device) or that sit on a cycle show at the top level
+export function folderOptions(folders: Folder[]): FolderOption[] {
+  const ids = new Set(folders.map(f => f.id));
+  const onCycle = foldersOnCycles(folders);
+  const children = new Map<string | null, Folder[]>();
+  for (const folder of folders) {
+    const parentId = folder.parentId && ids.has(folder.parentId) && !onCycle.has(folder.id) ? folder.parentId : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), folder]);
+  }
+  const options: FolderOption[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const folder of (children.get(parentId) ?? []).sort((a, b) => a.name.localeCompare(b.name))) {
+      options.push({ folder, depth });
+      visit(folder.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return options;
+}
+
+// The folder and everything nested in it
+export function folderSubtree(folders: Folder[], id: string): Set<string> {
+  const subtree = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const folder of folders) {
+      if (folder.parentId && subtree.has(folder.parentId) && !subtree.has(folder.id)) {
+        subtree.add(folder.id);
+        grew = true;
+      }
+    }
+  }
+  return subtree;
+}
+
+// Distinct tags over all chats, sorted
+export function chatTags(chats: Chat[]): string[] {
+  return [...new Set(chats.flatMap(chat => chat.tags ?? []))].sort();
+}
+
+// Throws with a message for the user
+export async function saveFolder(draft: FolderDraft): Promise<void> {
+  const name = draft.name.trim();
+  if (!name) throw new Error('Укажите название папки');
+
+  await db.transaction('rw', db.folders, async () => {
+    if (draft.id && draft.parentId && folderSubtree(await db.folders.toArray(), draft.id).has(draft.parentId)) {
+      throw new Error('Папку нельзя переместить в неё саму или во вложенную папку');
+    }
+    const existing = draft.id ? await db.folders.get(draft.id) : undefined;
+    if (existing) {
+      await db.folders.update(existing.id, { name, parentId: draft.parentId, updatedAt: new Date() });
+    } else {
+      await db.folders.add({ id: crypto.randomUUID(), name, parentId: draft.parentId, createdAt: new Date(), updatedAt: new Date() });
+    }
+  });
+}
+
+// Its chats and subfolders move up to its parent; nothing else is deleted
+export async function deleteFolder(id: string): Promise<void> {
+  await db.transaction('rw', [db.folders, db.chats, db.tombstones], async () => {
+    const folder = await db.folders.get(id);
+    if (!folder) return;
+    const chatIds = await db.chats.where('folderId').equals(id).primaryKeys();
+    await moveChats(chatIds, folder.parentId);
+    for (const childId of await db.folders.where('parentId').equals(id).primaryKeys()) {
+      await db.folders.update(childId, { parentId: folder.parentId });
+    }
+    if (folder.syncedAt !== undefined) await db.tombstones.bulkPut(tombstonesFor('folder', [id]));
+    await db.folders.delete(id);
+  });
+}
+
+// Chats already in the wanted state are left alone, so they don't get pushed again
+async function updateChats(ids: string[], changes: (chat: Chat) => Partial<Chat> | null): Promise<void> {
+  await db.transaction('rw', db.chats, async () => {
+    for (const chat of await db.chats.bulkGet(ids)) {
+      const update = chat && changes(chat);
+      if (update) await db.chats.update(chat.id, update);
+    }
+  });
+}
+
+export async function moveChats(ids: string[], folderId: string | null): Promise<void> {
+  await updateChats(ids, chat => (chat.folderId ?? null) === folderId ? null : { folderId: folderId ?? undefined });
+}
+
+export async function setChatsPinned(ids: string[], pinned: boolean): Promise<void> {
+  const pinnedAt = Date.now();
+  await updateChats(ids, chat => (chat.pinnedAt !== undefined) === pinned ? null : { pinnedAt: pinned ? pinnedAt : undefined });
+}
+
+export async function setChatsArchived(ids: string[], archived: boolean): Promise<void> {
+  const archivedAt = Date.now();
+  await updateChats(ids, chat => (chat.archivedAt !== undefined) === archived ? null : { archivedAt: archived ? archivedAt : undefined });
+}
+
+// Tags as typed: "work, q3"
+export async function addChatTags(ids: string[], input: string): Promise<void> {
+  const tags = parseTags(input);
+  if (!tags.length) return;
+  await updateChats(ids, chat => {
+    const current = chat.tags ?? [];
+    const added = tags.filter(tag => !current.includes(tag));
+    return added.length ? { tags: [...current, ...added] } : null;
+  });
+}
+
+export async function removeChatTag(ids: string[], tag: string): Promise<void> {
+  await updateChats(ids, chat => {
+    if (!chat.tags?.includes(tag)) return null;
+    const tags = chat.tags.filter(t => t !== tag);
+    return { tags: tags.length ? tags : undefined };
+  });
+}
+
+export async function deleteChats(ids: string[]): Promise<void> {
+  for (const id of ids) await deleteChat(id);
+}
+
+// Folders from backups; those on a cycle are moved to the top level
+export function parseFolders(raw: unknown[]): Folder[] {
+  const folders = raw.map((folder, i): Folder => {
+    if (
+      !isObject(folder) ||
+      typeof folder.id !== 'string' ||
+      typeof folder.name !== 'string' ||
+      !(folder.parentId === null || folder.parentId === undefined || typeof folder.parentId === 'string')
+    ) {
+      throw new Error(`Некорректная папка #${i + 1}`);
+    }
+    return {
+      id: folder.id,
+      name: folder.name.trim() || 'Без названия',
+      parentId: folder.parentId ?? null,
+      createdAt: toDate(folder.createdAt),
+      updatedAt: toDate(folder.updatedAt)
+    };
+  });
+  const onCycle = foldersOnCycles(folders);
+  return folders.map(folder => onCycle.has(folder.id) ? { ...folder, parentId: null } : folder);
+}
@@ -0,0 +1,111 @@
+import type { Model } from './models';
+
+/**
+ * Sampling parameters. Unset fields fall back to the global defaults, then to the model's own.
+ */
+export interface GenerationConfig {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+}
+
+export interface GenerationPreset {
+  id: string;
+  label: string;
+  config: GenerationConfig;
+}
+
+export const GENERATION_PRESETS: GenerationPreset[] = [
+  { id: 'precise', label: 'Точный', config: { temperature: 0.2, topP: 0.8, topK: 20 } },
+  { id: 'balanced', label: 'Сбалансированный', config: { temperature: 1, topP: 0.95, topK: 40 } },
+  { id: 'creative', label: 'Творческий', config: { temperature: 1.5, topP: 0.98, topK: 64 } }
+];
+
+const DEFAULTS_STORAGE = 'pollux-generation-defaults';
+const MAX_STOP_SEQUENCES = 5; // Gemini limit
+
+export function loadGenerationDefaults(): GenerationConfig {
+  try {
+    const raw = localStorage.getItem(DEFAULTS_STORAGE);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveGenerationDefaults(config: GenerationConfig): void {
+  if (isEmptyConfig(config)) {
+    localStorage.removeItem(DEFAULTS_STORAGE);
+  } else {
+    localStorage.setItem(DEFAULTS_STORAGE, JSON.stringify(config));
+  }
+}
+
+// Drop unset fields so stored configs only hold explicit choices
+export function compactConfig(config: GenerationConfig): GenerationConfig {
+  const result: GenerationConfig = {};
+  if (config.temperature !== undefined) result.temperature = config.temperature;
+  if (config.topP !== undefined) result.topP = config.topP;
+  if (config.topK !== undefined) result.topK = config.topK;
+  if (config.maxOutputTokens !== undefined) result.maxOutputTokens = config.maxOutputTokens;
+  if (config.stopSequences?.length) result.stopSequences = config.stopSequences;
+  return result;
+}
+
+export function isEmptyConfig(config: GenerationConfig | undefined): boolean {
+  return !config || Object.keys(compactConfig(config)).length === 0;
+}
+
+// Chat values override the defaults field by field
+export function resolveGenerationConfig(
+  defaults: GenerationConfig,
+  chatConfig: GenerationConfig | undefined
+): GenerationConfig {
+  return compactConfig({ ...compactConfig(defaults), ...compactConfig(chatConfig ?? {}) });
+}
+
+// Preset whose values match the config exactly, if any
+export function matchPreset(config: GenerationConfig): GenerationPreset | undefined {
+  return GENERATION_PRESETS.find(preset =>
+    preset.config.temperature === config.temperature &&
+    preset.config.topP === config.topP &&
+    preset.config.topK === config.topK
+  );
+}
+
+// Human-readable problems; empty when the config can be sent
+export function validateGenerationConfig(config: GenerationConfig, model?: Model): string[] {
+  const errors: string[] = [];
+  const { temperature, topP, topK, maxOutputTokens, stopSequences } = config;
+
+  if (temperature !== undefined && !(temperature >= 0 && temperature <= 2)) {
+    errors.push('Температура должна быть от 0 до 2');
+  }
+  if (topP !== undefined && !(topP >= 0 && topP <= 1)) {
+    errors.push('Top P должен быть от 0 до 1');
+  }
+  if (topK !== undefined && !(Number.isInteger(topK) && topK >= 1)) {
+    errors.push('Top K должен быть целым числом от 1');
+  }
+  if (maxOutputTokens !== undefined) {
+    if (!(Number.isInteger(maxOutputTokens) && maxOutputTokens >= 1)) {
+      errors.push('Максимум токенов должен быть целым числом от 1');
+    } else if (model?.outputTokens && maxOutputTokens > model.outputTokens) {
+      errors.push(`${model.label} выдаёт не больше ${model.outputTokens.toLocaleString()} токенов`);
+    }
+  }
+  if (stopSequences && stopSequences.length > MAX_STOP_SEQUENCES) {
+    errors.push(`Не больше ${MAX_STOP_SEQUENCES} стоп-последовательностей`);
+  }
+  return errors;
+}
+
+// Cap values the model can't honour instead of failing the request (defaults may predate a model switch)
+export function fitToModel(config: GenerationConfig, model?: Model): GenerationConfig {
+  if (model?.outputTokens && config.maxOutputTokens && config.maxOutputTokens > model.outputTokens) {
+    return { ...config, maxOutputTokens: model.outputTokens };
+  }
+  return config;
+}
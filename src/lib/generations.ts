@@ -0,0 +1,191 @@
+/**
+ * Replies are generated server-side under an id and buffered for a few minutes after they end.
+ * Stream events are numbered, so a dropped connection reconnects with Last-Event-ID, and the part
+ * received so far is mirrored to IndexedDB so a reload, or another tab, can pick the reply up again.
+ * A Web Lock per chat keeps two tabs from generating into the same chat.
+ */
+
+import { db, type PendingGeneration } from './db';
+import type { FinishInfo } from './safety';
+import type { TokenUsage } from './usage';
+
+export interface GenerationEvent {
+  generation?: string; // first event of /api/chat: the id to resume with
+  text?: string;
+  finish?: FinishInfo;
+  usage?: TokenUsage;
+  error?: string;
+}
+
+type EventHandler = (event: GenerationEvent, eventId?: string) => void;
+
+const RESUME_ATTEMPTS = 5;
+const RESUME_DELAY_MS = 1000; // times the failed attempts in a row
+const SAVE_INTERVAL_MS = 1000;
+
+// Web Locks need a secure origin; without them generation is unguarded
+export const generationLocksSupported = typeof navigator !== 'undefined' && 'locks' in navigator;
+
+function lockName(chatId: string): string {
+  return `pollux-generation-${chatId}`;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = window.setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      window.clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+// True when the stream reached [DONE]; false when the connection ended before it.
+// Errors thrown by onEvent and aborts propagate
+async function readStream(res: Response, onEvent: EventHandler): Promise<boolean> {
+  const reader = res.body?.getReader();
+  if (!reader) return false;
+  const decoder = new TextDecoder();
+  let buffer = ''; // incomplete last line
+  let eventId: string | undefined;
+
+  for (;;) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') throw error;
+      return false;
+    }
+    if (chunk.done) return false;
+
+    buffer += decoder.decode(chunk.value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.startsWith('id: ')) {
+        eventId = line.slice(4).trim();
+        continue;
+      }
+      if (!line.startsWith('data: ')) continue;
+      const data = line.slice(6).trim();
+      if (data === '[DONE]') return true;
+      if (!data) continue;
+
+      let event: GenerationEvent;
+      try {
+        event = JSON.parse(data);
+      } catch (parseError) {
+        console.warn('Parse error for line:', line, parseError);
+        continue;
+      }
+      onEvent(event, eventId);
+      eventId = undefined;
+    }
+  }
+}
+
+// Reads a generation to its end, reconnecting when the connection drops.
+// Pass res = null to start by resuming (a reply recovered after a reload)
+export async function followGeneration(res: Response | null, options: {
+  apiKey: string;
+  apiBase: string;
+  signal?: AbortSignal;
+  generationId?: string;
+  lastEventId?: string;
+  onEvent: EventHandler;
+}): Promise<void> {
+  const { apiKey, apiBase, signal, onEvent } = options;
+  let { generationId, lastEventId = '0' } = options;
+  let failures = 0;
+
+  for (;;) {
+    if (res) {
+      if (res.status === 404) throw new Error('Ответ больше не хранится на сервере');
+      if (!res.ok) throw new Error(await res.text());
+      let progressed = false;
+      const finished = await readStream(res, (event, eventId) => {
+        progressed = true;
+        if (event.generation) generationId = event.generation;
+        if (eventId) lastEventId = eventId;
+        onEvent(event, eventId);
+      });
+      if (finished) return;
+      if (progressed) failures = 0;
+    }
+
+    if (!generationId || failures >= RESUME_ATTEMPTS) throw new Error('Соединение с сервером прервано');
+    if (failures > 0) await wait(RESUME_DELAY_MS * failures, signal);
+    failures++;
+    res = await fetch(`${apiBase}/api/generations/${generationId}`, {
+      headers: { Authorization: `Bearer ${apiKey}`, 'Last-Event-ID': lastEventId },
+      signal
+    }).catch(error => {
+      if (error.name === 'AbortError') throw error;
+      return null; // still offline
+    });
+  }
+}
+
+// Stop button: the server stops generating; best effort
+export function cancelGeneration(apiKey: string, apiBase: string, id: string): void {
+  fetch(`${apiBase}/api/generations/${id}`, {
+    method: 'DELETE',
+    headers: { Authorization: `Bearer ${apiKey}` }
+  }).catch(() => {});
+}
+
+// Mirrors a reply in progress to IndexedDB, at most once per SAVE_INTERVAL_MS.
+// Writes are queued so remove() can't be overtaken by a late save
+export function mirrorGeneration(generation: Omit<PendingGeneration, 'content' | 'lastEventId' | 'updatedAt'>) {
+  let savedAt = 0;
+  let removed = false;
+  let writes: Promise<unknown> = Promise.resolve();
+
+  return {
+    update(content: string, lastEventId: string) {
+      if (removed || Date.now() - savedAt < SAVE_INTERVAL_MS) return;
+      savedAt = Date.now();
+      writes = writes
+        .then(() => db.generations.put({ ...generation, content, lastEventId, updatedAt: new Date() }))
+        .catch(error => console.warn('Could not save the reply in progress:', error));
+    },
+    remove(): Promise<unknown> {
+      removed = true;
+      writes = writes.then(() => db.generations.delete(generation.id));
+      return writes;
+    }
+  };
+}
+
+// Runs fn holding the chat's generation lock. Without wait, returns false at once if another tab holds it.
+// Locks are released when a tab closes, so waiting tabs can take over what it left
+export async function withGenerationLock(chatId: string, fn: () => Promise<void>, { wait = false } = {}): Promise<boolean> {
+  if (!generationLocksSupported) {
+    await fn();
+    return true;
+  }
+  return navigator.locks.request(lockName(chatId), { ifAvailable: !wait }, async lock => {
+    if (!lock) return false;
+    await fn();
+    return true;
+  });
+}
+
+export async function isGenerating(chatId: string): Promise<boolean> {
+  if (!generationLocksSupported) return false;
+  const { held = [] } = await navigator.locks.query();
+  return held.some(lock => lock.name === lockName(chatId));
+}
+
+export async function getPendingGeneration(id: string): Promise<PendingGeneration | undefined> {
+  return db.generations.get(id);
+}
+
+export async function getPendingGenerations(): Promise<PendingGeneration[]> {
+  return db.generations.toArray();
+}
+
+export async function deletePendingGeneration(id: string): Promise<void> {
+  await db.generations.delete(id);
+}
@@ -0,0 +1,74 @@
+/**
+ * Hosted mode: the server holds the API keys and users log in.
+ * The session token takes the place of the API key in the Authorization header.
+ */
+
+const SESSION_STORAGE = 'pollux-session';
+
+export interface HostedUser {
+  id: string;
+  username: string;
+  role: 'user' | 'admin';
+}
+
+export interface HostedAccount {
+  user: HostedUser;
+  limits: { perMinute: number; dailyTokens: number };
+  usage: { requests: number; inputTokens: number; outputTokens: number };
+}
+
+export interface HostedSession extends HostedAccount {
+  token: string;
+}
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+  return data as T;
+}
+
+// False when the server is unreachable: the app then behaves as in bring-your-own-key mode
+export async function isHostedServer(apiBase: string): Promise<boolean> {
+  try {
+    const res = await fetch(`${apiBase}/api/config`);
+    if (!res.ok) return false;
+    const data = await res.json();
+    return data.hosted === true;
+  } catch {
+    return false;
+  }
+}
+
+export function login(apiBase: string, username: string, password: string): Promise<HostedSession> {
+  return postJson(`${apiBase}/api/auth/login`, { username, password });
+}
+
+export function register(apiBase: string, invite: string, username: string, password: string): Promise<HostedSession> {
+  return postJson(`${apiBase}/api/auth/register`, { invite, username, password });
+}
+
+// Null when the session has expired or the account was disabled
+export async function getAccount(apiBase: string, token: string): Promise<HostedAccount | null> {
+  const res = await fetch(`${apiBase}/api/auth/me`, {
+    headers: { Authorization: `Bearer ${token}` }
+  });
+  if (!res.ok) return null;
+  return res.json();
+}
+
+export function loadSession(): string | null {
+  return localStorage.getItem(SESSION_STORAGE);
+}
+
+export function saveSession(token: string): void {
+  localStorage.setItem(SESSION_STORAGE, token);
+}
+
+export function clearSession(): void {
+  localStorage.removeItem(SESSION_STORAGE);
+}
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { clearAllData, db } from './db';
+import { importConversations, readExportFiles } from './importers';
+
+function jsonFile(name: string, data: unknown): File {
+  return new File([JSON.stringify(data)], name, { type: 'application/json' });
+}
+
+function chatGptNode(id: string, parent: string | null, message: Record<string, any> | null) {
+  return { id, parent, message };
+}
+
+function chatGptMessage(role: string, time: number, parts: unknown[], extra: Record<string, any> = {}) {
+  return {
+    author: { role },
+    create_time: time,
+    content: { content_type: parts.some(p => typeof p !== 'string') ? 'multimodal_text' : 'text', parts },
+    recipient: 'all',
+    metadata: {},
+    ...extra
+  };
+}
+
+// An edited question makes a second branch; the first answer calls a tool in between its two halves
+const chatGptExport = [{
+  conversation_id: 'conv-1',
+  title: 'Арифметика',
+  create_time: 1700000000,
+  update_time: 1700000600,
+  current_node: 'a2',
+  mapping: {
+    root: chatGptNode('root', null, null),
+    sys: chatGptNode('sys', 'root', chatGptMessage('system', 1700000000, [''], { metadata: { is_visually_hidden_from_conversation: true } })),
+    u1: chatGptNode('u1', 'sys', chatGptMessage('user', 1700000100, [
+      'Сколько здесь котов?',
+      { content_type: 'image_asset_pointer', asset_pointer: 'file-service://file-Ab12' },
+      { content_type: 'image_asset_pointer', asset_pointer: 'file-service://file-Zz99' }
+    ])),
+    a1: chatGptNode('a1', 'u1', chatGptMessage('assistant', 1700000101, ['Сейчас посчитаю'])),
+    call: chatGptNode('call', 'a1', { ...chatGptMessage('assistant', 1700000102, []), recipient: 'python', content: { content_type: 'code', text: 'count()' } }),
+    tool: chatGptNode('tool', 'call', chatGptMessage('tool', 1700000103, ['2'])),
+    a2: chatGptNode('a2', 'tool', chatGptMessage('assistant', 1700000104, ['Два кота'], { metadata: { model_slug: 'gpt-4o' } })),
+    u2: chatGptNode('u2', 'sys', chatGptMessage('user', 1700000200, ['Сколько здесь собак?'])),
+    a3: chatGptNode('a3', 'u2', chatGptMessage('assistant', 1700000201, ['Ни одной']))
+  }
+}];
+
+// Recent exports link messages by parent_message_uuid; here the second question was edited
+const claudeExport = [{
+  uuid: 'claude-1',
+  name: '',
+  created_at: '2025-03-01T10:00:00Z',
+  updated_at: '2025-03-01T10:10:00Z',
+  chat_messages: [
+    {
+      uuid: 'h1', sender: 'human', created_at: '2025-03-01T10:00:00Z', text: 'Прочитай отчёт',
+      content: [{ type: 'text', text: 'Прочитай отчёт' }],
+      attachments: [{ file_name: 'report', extracted_content: 'Выручка выросла' }],
+      files: [{ file_name: 'chart.png' }]
+    },
+    { uuid: 'a1', parent_message_uuid: 'h1', sender: 'assistant', created_at: '2025-03-01T10:01:00Z', content: [{ type: 'text', text: 'Выручка выросла.' }] },
+    { uuid: 'h2', parent_message_uuid: 'a1', sender: 'human', created_at: '2025-03-01T10:02:00Z', content: [{ type: 'text', text: 'Насколько?' }] },
+    { uuid: 'a2', parent_message_uuid: 'h2', sender: 'assistant', created_at: '2025-03-01T10:03:00Z', content: [{ type: 'text', text: 'Не сказано.' }] },
+    { uuid: 'h3', parent_message_uuid: 'a1', sender: 'human', created_at: '2025-03-01T10:04:00Z', content: [{ type: 'text', text: 'А прибыль?' }] },
+    { uuid: 'a3', parent_message_uuid: 'h3', sender: 'assistant', created_at: '2025-03-01T10:05:00Z', content: [{ type: 'tool_use' }] },
+    { uuid: 'a4', parent_message_uuid: 'a3', sender: 'assistant', created_at: '2025-03-01T10:06:00Z', content: [{ type: 'text', text: 'Тоже выросла.' }] }
+  ]
+}];
+
+beforeEach(async () => {
+  await clearAllData();
+});
+
+describe('ChatGPT export', () => {
+  it('keeps both branches, drops hidden and tool messages and joins the answer around the tool call', async () => {
+    const image = new File([new Uint8Array([1, 2, 3])], 'file-Ab12-cats.png', { type: 'image/png' });
+    const [conversation] = await readExportFiles([jsonFile('conversations.json', chatGptExport), image]);
+
+    expect(conversation).toMatchObject({ id: 'conv-1', source: 'chatgpt', title: 'Арифметика', titled: true, missingFiles: ['file-Zz99'] });
+    expect(conversation.createdAt).toEqual(new Date(1700000000 * 1000));
+    expect(conversation.messages.map(m => [m.id, m.parentId, m.role, m.content])).toEqual([
+      ['u1', null, 'user', 'Сколько здесь котов?'],
+      ['a1', 'u1', 'model', 'Сейчас посчитаю\n\nДва кота'],
+      ['u2', null, 'user', 'Сколько здесь собак?'],
+      ['a3', 'u2', 'model', 'Ни одной']
+    ]);
+    expect(conversation.messages[0].files).toEqual([image]);
+    expect(conversation.messages[1].model).toBe('gpt-4o');
+    // current_node was the second half of the joined answer
+    expect(conversation.currentLeafId).toBe('a1');
+  });
+
+  it('imports the picked conversations once, with new message ids and the image attached', async () => {
+    const files = [jsonFile('conversations.json', chatGptExport), new File([new Uint8Array([1, 2, 3])], 'file-Ab12-cats.png', { type: 'image/png' })];
+    const conversations = await readExportFiles(files);
+
+    expect(await importConversations(conversations)).toEqual({ chats: 1, messages: 4, files: 1, filesSkipped: 0 });
+    const chat = (await db.chats.get('conv-1'))!;
+    const messages = await db.messages.where('chatId').equals('conv-1').toArray();
+    expect(messages.map(m => m.id)).not.toContain('u1');
+    expect(messages.find(m => m.id === chat.currentLeafId)?.content).toBe('Сейчас посчитаю\n\nДва кота');
+    expect(messages.find(m => m.role === 'user' && m.attachments)?.attachments?.[0]).toMatchObject({ name: 'file-Ab12-cats.png', size: 3 });
+
+    const [again] = await readExportFiles(files);
+    expect(again.imported).toBe(true);
+    expect(await importConversations([again])).toMatchObject({ chats: 0, messages: 0 });
+  });
+});
+
+describe('Claude export', () => {
+  it('follows parent_message_uuid into branches and carries extracted documents', async () => {
+    const [conversation] = await readExportFiles([jsonFile('conversations.json', claudeExport)]);
+
+    expect(conversation).toMatchObject({ id: 'claude-1', source: 'claude', title: 'Прочитай отчёт', titled: false, missingFiles: ['chart.png'] });
+    expect(conversation.messages.map(m => [m.id, m.parentId, m.content])).toEqual([
+      ['h1', null, 'Прочитай отчёт'],
+      ['a1', 'h1', 'Выручка выросла.'],
+      ['h2', 'a1', 'Насколько?'],
+      ['a2', 'h2', 'Не сказано.'],
+      ['h3', 'a1', 'А прибыль?'],
+      ['a4', 'h3', 'Тоже выросла.']
+    ]);
+    const [document] = conversation.messages[0].files;
+    expect(document.name).toBe('report.txt');
+    expect(await document.text()).toBe('Выручка выросла');
+    expect(conversation.currentLeafId).toBe('a4');
+  });
+
+  it('chains messages in order when the export has no parent links', async () => {
+    const linear = [{
+      uuid: 'claude-2',
+      name: 'Старый формат',
+      created_at: '2024-01-01T00:00:00Z',
+      chat_messages: [
+        { uuid: 'x1', sender: 'human', text: 'Привет', created_at: '2024-01-01T00:00:00Z' },
+        { uuid: 'x2', sender: 'assistant', text: 'Здравствуйте', created_at: '2024-01-01T00:00:05Z' },
+        { uuid: 'x3', sender: 'human', text: 'Как дела?', created_at: '2024-01-01T00:00:10Z' }
+      ]
+    }];
+    const [conversation] = await readExportFiles([jsonFile('conversations.json', linear)]);
+    expect(conversation.messages.map(m => [m.id, m.parentId])).toEqual([['x1', null], ['x2', 'x1'], ['x3', 'x2']]);
+    expect(conversation.currentLeafId).toBe('x3');
+  });
+});
+
+it('refuses JSON that is not an export', async () => {
+  await expect(readExportFiles([jsonFile('users.json', [{ uuid: 'u', email: 'a@b.c' }])])).rejects.toThrow('Не найден экспорт');
+});
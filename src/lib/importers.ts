@@ -0,0 +1,431 @@
+/**
+ * Conversations from other apps' data exports: ChatGPT's conversations.json, Claude's conversations.json
+ * and Gemini Apps activity from Google Takeout (MyActivity.json). Files are read into a preview first;
+ * the chats picked there are written in one transaction.
+ * Images are carried over when their files are selected together with the JSON; exports only reference them.
+ */
+
+import { db, buildSearchTokens, type Chat, type ChatMessage, type StoredBlob } from './db';
+import { prepareBlob } from './blobs';
+import { attachmentKind, ATTACHMENT_LIMITS, type Attachment } from './attachments';
+import { isObject, toDate } from './validate';
+
+export type ExportSource = 'chatgpt' | 'claude' | 'gemini';
+
+export const EXPORT_SOURCE_NAMES: Record<ExportSource, string> = {
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+  gemini: 'Gemini'
+};
+
+// Gemini activity has no conversations: prompts closer together than this are put in one chat
+const GEMINI_SESSION_GAP = 30 * 60 * 1000;
+
+export interface ExternalMessage extends Omit<ChatMessage, 'chatId' | 'attachments'> {
+  files: File[]; // images and documents to attach, found among the selected files
+}
+
+export interface ExternalConversation {
+  id: string; // id of the chat it becomes: stable, so importing the same export again skips it
+  source: ExportSource;
+  title: string;
+  titled: boolean; // the title came from the export rather than the first message
+  createdAt: Date;
+  updatedAt: Date;
+  messages: ExternalMessage[];
+  currentLeafId: string | null;
+  missingFiles: string[]; // referenced, but not among the selected files
+  imported: boolean; // a chat with this id exists already
+}
+
+export interface ExternalImportSummary {
+  chats: number;
+  messages: number;
+  files: number;
+  filesSkipped: number; // unsupported type or too large
+}
+
+function cutTitle(content: string): string {
+  const title = content.slice(0, 50) + (content.length > 50 ? '...' : '');
+  return title || 'Новый чат';
+}
+
+// ChatGPT counts time in seconds, Claude and Takeout use ISO strings
+function fromSeconds(value: unknown): unknown {
+  return typeof value === 'number' ? value * 1000 : value;
+}
+
+// Attachments come out of export archives with their original names, or as "<id>-<original name>"
+function findFile(pool: File[], name: string, byId = false): File | undefined {
+  return pool.find(file => byId ? file.name.startsWith(`${name}-`) || file.name.startsWith(`${name}.`) : file.name === name);
+}
+
+// Consecutive messages of one role (a reply split around tool calls) become one message,
+// unless the first has other continuations. Siblings keep their order
+function joinSameRole(messages: ExternalMessage[]): { messages: ExternalMessage[]; aliases: Map<string, string> } {
+  const children = new Map<string | null, ExternalMessage[]>();
+  for (const message of messages) {
+    children.set(message.parentId, [...(children.get(message.parentId) ?? []), message]);
+  }
+  const joined: ExternalMessage[] = [];
+  const byId = new Map<string, ExternalMessage>();
+  const aliases = new Map<string, string>(); // id of a merged message -> id of the one it went into
+
+  const visit = (parentId: string | null) => {
+    const siblings = children.get(parentId) ?? [];
+    const parent = parentId ? byId.get(aliases.get(parentId) ?? parentId) : undefined;
+    for (const message of siblings) {
+      if (parent && siblings.length === 1 && parent.role === message.role) {
+        parent.content = [parent.content, message.content].filter(Boolean).join('\n\n');
+        parent.files.push(...message.files);
+        parent.model ??= message.model;
+        aliases.set(message.id, parent.id);
+      } else {
+        const linked = { ...message, parentId: parent?.id ?? null };
+        joined.push(linked);
+        byId.set(linked.id, linked);
+      }
+      visit(message.id);
+    }
+  };
+  visit(null);
+  return { messages: joined, aliases };
+}
+
+function latest(messages: ExternalMessage[]): ExternalMessage | undefined {
+  return messages.reduce<ExternalMessage | undefined>((last, m) => !last || m.timestamp >= last.timestamp ? m : last, undefined);
+}
+
+// A tree in `mapping`; tool calls, hidden system context and reasoning are dropped, their children move up
+function parseChatGptConversation(raw: Record<string, any>, pool: File[]): ExternalConversation | null {
+  const mapping: Record<string, any> = isObject(raw.mapping) ? raw.mapping : {};
+  const createdAt = toDate(fromSeconds(raw.create_time));
+  const missingFiles: string[] = [];
+  const kept = new Map<string, ExternalMessage>();
+
+  for (const [id, node] of Object.entries(mapping)) {
+    const message = node?.message;
+    const role = message?.author?.role;
+    if (role !== 'user' && role !== 'assistant') continue;
+    if (message.metadata?.is_visually_hidden_from_conversation) continue;
+    if (message.recipient && message.recipient !== 'all') continue; // a call to a tool
+    const contentType = message.content?.content_type;
+    if (contentType !== 'text' && contentType !== 'multimodal_text') continue;
+
+    const text: string[] = [];
+    const files: File[] = [];
+    for (const part of Array.isArray(message.content.parts) ? message.content.parts : []) {
+      if (typeof part === 'string') {
+        text.push(part);
+      } else if (part?.content_type === 'image_asset_pointer' && typeof part.asset_pointer === 'string') {
+        // "file-service://file-Ab12" is exported as "file-Ab12-<original name>"
+        const fileId = part.asset_pointer.replace(/^[a-z-]+:\/\//, '');
+        const file = findFile(pool, fileId, true);
+        if (file) files.push(file); else missingFiles.push(fileId);
+      } else if (part?.content_type === 'audio_transcription' && typeof part.text === 'string') {
+        text.push(part.text);
+      }
+    }
+    const content = text.join('\n\n').trim();
+    if (!content && !files.length) continue;
+    kept.set(id, {
+      id,
+      parentId: null,
+      role: role === 'assistant' ? 'model' : 'user',
+      content,
+      files,
+      model: role === 'assistant' && typeof message.metadata?.model_slug === 'string' ? message.metadata.model_slug : undefined,
+      timestamp: toDate(fromSeconds(message.create_time), createdAt)
+    });
+  }
+  if (!kept.size) return null;
+
+  const keptAncestor = (id: string | null | undefined): string | null => {
+    let current = id ? mapping[id]?.parent : null;
+    while (current && !kept.has(current)) current = mapping[current]?.parent;
+    return current ?? null;
+  };
+  const ordered = [...kept.values()]
+    .map(message => ({ ...message, parentId: keptAncestor(message.id) }))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const { messages, aliases } = joinSameRole(ordered);
+
+  const current = typeof raw.current_node === 'string'
+    ? (kept.has(raw.current_node) ? raw.current_node : keptAncestor(raw.current_node))
+    : null;
+  const title = typeof raw.title === 'string' ? raw.title.trim() : '';
+  return {
+    id: typeof raw.conversation_id === 'string' ? raw.conversation_id : typeof raw.id === 'string' ? raw.id : crypto.randomUUID(),
+    source: 'chatgpt',
+    title: title || cutTitle(messages[0].content),
+    titled: !!title,
+    createdAt,
+    updatedAt: toDate(fromSeconds(raw.update_time), createdAt),
+    messages,
+    currentLeafId: current ? aliases.get(current) ?? current : latest(messages)?.id ?? null,
+    missingFiles,
+    imported: false
+  };
+}
+
+// A list of messages; recent exports link them through parent_message_uuid
+function parseClaudeConversation(raw: Record<string, any>, pool: File[]): ExternalConversation | null {
+  const createdAt = toDate(raw.created_at);
+  const missingFiles: string[] = [];
+  const ids = new Set<string>();
+  const parsed: ExternalMessage[] = [];
+
+  for (const message of Array.isArray(raw.chat_messages) ? raw.chat_messages : []) {
+    if (!isObject(message) || (message.sender !== 'human' && message.sender !== 'assistant')) continue;
+    const blocks: unknown[] = Array.isArray(message.content) ? message.content : [];
+    const text = blocks.length
+      ? blocks.flatMap(b => isObject(b) && b.type === 'text' && typeof b.text === 'string' ? [b.text] : []).join('\n\n')
+      : typeof message.text === 'string' ? message.text : '';
+
+    const files: File[] = [];
+    // Documents come with their extracted text, images by name only
+    for (const attachment of Array.isArray(message.attachments) ? message.attachments : []) {
+      if (typeof attachment?.extracted_content !== 'string') continue;
+      const name = typeof attachment.file_name === 'string' && attachment.file_name ? attachment.file_name : 'attachment.txt';
+      files.push(new File([attachment.extracted_content], name.includes('.') ? name : `${name}.txt`, { type: 'text/plain' }));
+    }
+    for (const file of Array.isArray(message.files) ? message.files : []) {
+      if (typeof file?.file_name !== 'string') continue;
+      const found = findFile(pool, file.file_name);
+      if (found) files.push(found); else missingFiles.push(file.file_name);
+    }
+    const content = text.trim();
+    if (!content && !files.length) continue;
+
+    const id = typeof message.uuid === 'string' && !ids.has(message.uuid) ? message.uuid : crypto.randomUUID();
+    const previous = parsed.length ? parsed[parsed.length - 1].id : null;
+    const parentId = typeof message.parent_message_uuid === 'string' && ids.has(message.parent_message_uuid)
+      ? message.parent_message_uuid
+      : previous;
+    ids.add(id);
+    parsed.push({
+      id,
+      parentId,
+      role: message.sender === 'assistant' ? 'model' : 'user',
+      content,
+      files,
+      timestamp: toDate(message.created_at, createdAt)
+    });
+  }
+  if (!parsed.length) return null;
+
+  const { messages, aliases } = joinSameRole(parsed);
+  const leaf = latest(parsed)!.id;
+  const title = typeof raw.name === 'string' ? raw.name.trim() : '';
+  return {
+    id: typeof raw.uuid === 'string' ? raw.uuid : crypto.randomUUID(),
+    source: 'claude',
+    title: title || cutTitle(messages[0].content),
+    titled: !!title,
+    createdAt,
+    updatedAt: toDate(raw.updated_at, createdAt),
+    messages,
+    currentLeafId: aliases.get(leaf) ?? leaf,
+    missingFiles,
+    imported: false
+  };
+}
+
+// The subset of HTML Gemini answers use, back to Markdown
+function htmlToMarkdown(html: string): string {
+  const render = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return node.textContent ?? '';
+    if (!(node instanceof Element)) return '';
+    const inner = () => Array.from(node.childNodes, render).join('');
+    switch (node.tagName.toLowerCase()) {
+      case 'br': return '\n';
+      case 'p': case 'div': return `${inner()}\n\n`;
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+        return `${'#'.repeat(Number(node.tagName[1]))} ${inner()}\n\n`;
+      case 'strong': case 'b': return `**${inner()}**`;
+      case 'em': case 'i': return `*${inner()}*`;
+      case 'code': return node.parentElement?.tagName.toLowerCase() === 'pre' ? inner() : `\`${inner()}\``;
+      case 'pre': return `\`\`\`\n${node.textContent ?? ''}\n\`\`\`\n\n`;
+      case 'a': return `[${inner()}](${node.getAttribute('href') ?? ''})`;
+      case 'ul': case 'ol': return `${inner()}\n`;
+      case 'li': {
+        const ordered = node.parentElement?.tagName.toLowerCase() === 'ol';
+        const index = Array.from(node.parentElement?.children ?? []).indexOf(node) + 1;
+        return `${ordered ? `${index}.` : '-'} ${inner().trim()}\n`;
+      }
+      default: return inner();
+    }
+  };
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  return render(body).replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// One activity per prompt and answer, newest first, with no conversation ids
+function parseGeminiActivity(items: Record<string, any>[], pool: File[]): ExternalConversation[] {
+  const prompts = items
+    .filter(item => typeof item.title === 'string' && Array.isArray(item.safeHtmlItem))
+    .map(item => ({ item, time: toDate(item.time, new Date(0)) }))
+    .filter(({ time }) => time.getTime() > 0)
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  const sessions: (typeof prompts)[] = [];
+  for (const prompt of prompts) {
+    const session = sessions[sessions.length - 1];
+    const last = session?.[session.length - 1];
+    if (last && prompt.time.getTime() - last.time.getTime() <= GEMINI_SESSION_GAP) {
+      session.push(prompt);
+    } else {
+      sessions.push([prompt]);
+    }
+  }
+
+  return sessions.map(session => {
+    const missingFiles: string[] = [];
+    const messages: ExternalMessage[] = [];
+    for (const { item, time } of session) {
+      const files: File[] = [];
+      for (const name of Array.isArray(item.attachedFiles) ? item.attachedFiles : []) {
+        if (typeof name !== 'string') continue;
+        const found = findFile(pool, name);
+        if (found) files.push(found); else missingFiles.push(name);
+      }
+      const question: ExternalMessage = {
+        id: crypto.randomUUID(),
+        parentId: messages.length ? messages[messages.length - 1].id : null,
+        role: 'user',
+        content: item.title.replace(/^Prompted\s+/, '').trim(),
+        files,
+        timestamp: time
+      };
+      const answer: ExternalMessage = {
+        id: crypto.randomUUID(),
+        parentId: question.id,
+        role: 'model',
+        content: (item.safeHtmlItem as unknown[]).map(part => isObject(part) && typeof part.html === 'string' ? htmlToMarkdown(part.html) : '').join('\n\n'),
+        files: [],
+        timestamp: time
+      };
+      messages.push(question, answer);
+    }
+    const createdAt = session[0].time;
+    return {
+      id: `gemini-${createdAt.toISOString()}`,
+      source: 'gemini' as const,
+      title: cutTitle(messages[0].content),
+      titled: false,
+      createdAt,
+      updatedAt: session[session.length - 1].time,
+      messages,
+      currentLeafId: messages[messages.length - 1].id,
+      missingFiles,
+      imported: false
+    };
+  });
+}
+
+function detectSource(raw: unknown): ExportSource | null {
+  const first = Array.isArray(raw) ? raw.find(isObject) : undefined;
+  if (!first) return null;
+  if ('mapping' in first) return 'chatgpt';
+  if ('chat_messages' in first) return 'claude';
+  if (Array.isArray(first.products) || 'safeHtmlItem' in first) return 'gemini';
+  return null;
+}
+
+// JSON files are the exports, the other files are attachments they may reference.
+// JSON that isn't an export (users.json, projects.json from the same archive) is ignored; throws when none is
+export async function readExportFiles(files: File[]): Promise<ExternalConversation[]> {
+  const pool = files.filter(file => !file.name.toLowerCase().endsWith('.json'));
+  const conversations: ExternalConversation[] = [];
+  let recognized = false;
+
+  for (const file of files.filter(file => file.name.toLowerCase().endsWith('.json'))) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      throw new Error(`«${file.name}» не является корректным JSON`);
+    }
+    const source = detectSource(raw);
+    if (!source) continue;
+    recognized = true;
+    const items = (raw as unknown[]).filter(isObject);
+    if (source === 'gemini') {
+      conversations.push(...parseGeminiActivity(items, pool));
+    } else {
+      const parse = source === 'chatgpt' ? parseChatGptConversation : parseClaudeConversation;
+      for (const item of items) {
+        const conversation = parse(item, pool);
+        if (conversation) conversations.push(conversation);
+      }
+    }
+  }
+  if (!recognized) {
+    throw new Error('Не найден экспорт ChatGPT, Claude или Gemini: выберите conversations.json или MyActivity.json (формат JSON в Google Takeout)');
+  }
+
+  const existing = new Set(await db.chats.where('id').anyOf(conversations.map(c => c.id)).primaryKeys());
+  return conversations
+    .map(conversation => ({ ...conversation, imported: existing.has(conversation.id) }))
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+// Chats that exist already are skipped, as are files that can't be attached here
+export async function importConversations(conversations: ExternalConversation[]): Promise<ExternalImportSummary> {
+  // Hashes and thumbnails are computed before the transaction, which can't wait on them
+  const prepared = new Map<File, { attachment: Attachment; blob: StoredBlob }>();
+  let filesSkipped = 0;
+  for (const file of new Set(conversations.flatMap(c => c.messages.flatMap(m => m.files)))) {
+    const kind = attachmentKind(file.type, file.name);
+    if (!kind || file.size > ATTACHMENT_LIMITS[kind]) {
+      filesSkipped++;
+      continue;
+    }
+    const mimeType = kind === 'text' && !file.type.startsWith('text/') ? 'text/plain' : file.type;
+    const blob = await prepareBlob(mimeType === file.type ? file : new Blob([file], { type: mimeType }));
+    prepared.set(file, { attachment: { name: file.name, mimeType, size: file.size, hash: blob.hash }, blob });
+  }
+
+  return db.transaction('rw', [db.chats, db.messages, db.searchIndex, db.blobs], async () => {
+    const existing = new Set(await db.chats.where('id').anyOf(conversations.map(c => c.id)).primaryKeys());
+    const fresh = conversations.filter(conversation => !existing.has(conversation.id));
+
+    const chats: Chat[] = [];
+    const messages: ChatMessage[] = [];
+    for (const conversation of fresh) {
+      // Message ids from an export can repeat across its conversations (ChatGPT copies them into branched chats)
+      const ids = new Map(conversation.messages.map(m => [m.id, crypto.randomUUID()]));
+      const newId = (id: string | null) => (id && ids.get(id)) ?? null;
+      chats.push({
+        id: conversation.id,
+        title: conversation.title,
+        ...(conversation.titled ? { titleSource: 'generated' as const } : {}),
+        currentLeafId: newId(conversation.currentLeafId),
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt
+      });
+      for (const { files, ...message } of conversation.messages) {
+        const attachments = files.flatMap(file => prepared.get(file)?.attachment ?? []);
+        messages.push({
+          ...message,
+          id: newId(message.id)!,
+          parentId: newId(message.parentId),
+          chatId: conversation.id,
+          ...(attachments.length ? { attachments } : {})
+        });
+      }
+    }
+    const used = new Set(messages.flatMap(m => m.attachments ?? []).map(a => a.hash));
+    const knownBlobs = new Set(await db.blobs.where('hash').anyOf([...used]).primaryKeys());
+    const blobs = new Map([...prepared.values()]
+      .filter(({ blob }) => used.has(blob.hash) && !knownBlobs.has(blob.hash))
+      .map(({ blob }) => [blob.hash, blob]));
+
+    await db.blobs.bulkPut([...blobs.values()]);
+    await db.chats.bulkAdd(chats);
+    await db.messages.bulkAdd(messages);
+    await db.searchIndex.bulkPut(messages.flatMap(buildSearchTokens));
+
+    return { chats: chats.length, messages: messages.length, files: blobs.size, filesSkipped };
+  });
+}
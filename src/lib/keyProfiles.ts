@@ -0,0 +1,89 @@
+import { encryptApiKey } from './crypto';
+import { isObject } from './validate';
+
+/**
+ * Named API key profiles. The whole ring is what the vault encrypts, the server access token included;
+ * quota state refers to profiles by id so raw keys never leave the vault.
+ */
+
+export interface KeyProfile {
+  id: string;
+  name: string;
+  key: string;
+}
+
+export interface KeyRing {
+  profiles: KeyProfile[];
+  activeId: string;
+  accessToken?: string; // SERVER_ACCESS_TOKEN, see access.ts
+}
+
+const KEY_RING_VERSION = 1;
+
+// "AIza…x7Qk" for lists and banners
+export function maskKey(key: string): string {
+  return key.length > 8 ? `${key.slice(0, 4)}…${key.slice(-4)}` : '…';
+}
+
+export function createKeyProfile(name: string, key: string): KeyProfile {
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim() || maskKey(key),
+    key: key.trim()
+  };
+}
+
+export function createKeyRing(profile: KeyProfile): KeyRing {
+  return { profiles: [profile], activeId: profile.id };
+}
+
+function isStoredProfile(value: unknown): value is KeyProfile {
+  return isObject(value) && typeof value.id === 'string' && typeof value.key === 'string' && !!value.key;
+}
+
+// Vault payload -> ring; a bare key stored by earlier versions becomes a single profile
+export function parseKeyRing(secret: string): KeyRing {
+  try {
+    const parsed = JSON.parse(secret);
+    if (parsed?.version === KEY_RING_VERSION && Array.isArray(parsed.profiles)) {
+      const profiles: KeyProfile[] = (parsed.profiles as unknown[])
+        .filter(isStoredProfile)
+        .map(p => ({ id: p.id, name: String(p.name || maskKey(p.key)), key: p.key }));
+      if (profiles.length) {
+        const activeId = profiles.some(p => p.id === parsed.activeId) ? parsed.activeId : profiles[0].id;
+        const accessToken = typeof parsed.accessToken === 'string' && parsed.accessToken ? parsed.accessToken : undefined;
+        return { profiles, activeId, ...(accessToken ? { accessToken } : {}) };
+      }
+    }
+  } catch {
+    // Not JSON: legacy single key
+  }
+  return createKeyRing(createKeyProfile('Основной', secret));
+}
+
+export function serializeKeyRing(ring: KeyRing): string {
+  return JSON.stringify({ version: KEY_RING_VERSION, profiles: ring.profiles, activeId: ring.activeId, accessToken: ring.accessToken });
+}
+
+export function getActiveProfile(ring: KeyRing): KeyProfile {
+  return ring.profiles.find(p => p.id === ring.activeId) ?? ring.profiles[0];
+}
+
+// Next profile after fromId (wrapping around) that passes isUsable, or null
+export function getNextProfile(
+  ring: KeyRing,
+  fromId: string,
+  isUsable: (profile: KeyProfile) => boolean
+): KeyProfile | null {
+  const start = ring.profiles.findIndex(p => p.id === fromId);
+  for (let i = 1; i < ring.profiles.length; i++) {
+    const candidate = ring.profiles[(start + i) % ring.profiles.length];
+    if (candidate.id !== fromId && isUsable(candidate)) return candidate;
+  }
+  return null;
+}
+
+// Encrypt and store the ring with the current vault mode
+export async function saveKeyRing(ring: KeyRing): Promise<void> {
+  await encryptApiKey(serializeKeyRing(ring));
+}
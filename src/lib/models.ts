@@ -1,93 +1,65 @@
+import { accessHeaders } from './access';
+
 export interface Model {
-  value: string;
+  value: string; // bare name for Gemini, "<provider>:<name>" for other providers
+  provider?: string; // server provider id, defaults to 'gemini'
   label: string;
   description: string;
-  inputTokens?: number;
+  inputTokens?: number; // context size
   outputTokens?: number;
+  capabilities?: {
+    vision?: boolean;
+    thinking?: boolean;
+  };
   uiStatus?: 'AVAILABLE' | 'EXHAUSTED';
 }
 
-export async function getViableModels(apiKey: string, apiBase: string = ''): Promise<Model[]> {
-  try {
-    // 1. Получаем список всех
-    const listResp = await fetch(`${apiBase}/api/models-raw`, {
-      headers: { Authorization: `Bearer ${apiKey}` }
-    });
-    if (!listResp.ok) return [];
-    
-    const listData = await listResp.json();
-    if (!listData.models) return [];
-
-    // 2. Фильтруем только те, что умеют генерить контент
-    const candidates = listData.models.filter((m: any) => 
-      m.supportedGenerationMethods && 
-      m.supportedGenerationMethods.includes("generateContent")
-    );
-
-    // 3. Проверяем каждую (Probe)
-    const results = await Promise.all(candidates.map(async (model: any) => {
-      try {
-        const modelValue = model.name.replace('models/', '');
-        const resp = await fetch(`${apiBase}/api/probe-model`, {
-           method: 'POST', 
-           headers: {
-             'Content-Type': 'application/json',
-             'Authorization': `Bearer ${apiKey}`
-           },
-           body: JSON.stringify({ model: modelValue })
-        });
-        
-        const data = await resp.json();
-
-        if (resp.ok) {
-          return {
-            value: modelValue,
-            label: model.displayName || modelValue,
-            description: model.description || '',
-            inputTokens: model.inputTokenLimit,
-            outputTokens: model.outputTokenLimit,
-            uiStatus: 'AVAILABLE' as const
-          };
-        }
-
-        if (resp.status === 429) {
-          const msg = data.error || "";
-          // Если лимит 0 - значит модель вообще не включена в тариф
-          if (msg.includes("limit: 0")) return null; 
-          
-          // Иначе лимит есть, но он кончился
-          return {
-            value: modelValue,
-            label: model.displayName || modelValue,
-            description: model.description || '',
-            inputTokens: model.inputTokenLimit,
-            outputTokens: model.outputTokenLimit,
-            uiStatus: 'EXHAUSTED' as const
-          };
-        }
-
-        // 400/403/404 - скорее всего недоступна
-        return null;
+// Catalog entry as returned by the server; status is set only for probed models
+interface CatalogModel extends Omit<Model, 'uiStatus'> {
+  status?: 'available' | 'exhausted' | 'unavailable' | 'unknown';
+}
 
-      } catch (e) {
-        return null;
-      }
+export function fromCatalog(catalog: CatalogModel[]): Model[] {
+  return catalog
+    // Недоступные для ключа модели (лимит 0, 403/404) не показываем
+    .filter(m => m.status !== 'unavailable')
+    .map(({ status, ...model }) => ({
+      ...model,
+      uiStatus: status === 'exhausted' ? 'EXHAUSTED' as const
+        : status === 'available' ? 'AVAILABLE' as const
+        : undefined
     }));
+}
 
-    const finalModels = results.filter((r): r is Model => r !== null);
-    
-    // Sort
-    finalModels.sort((a, b) => {
-      if (a.value.includes("2.5") && !b.value.includes("2.5")) return -1;
-      if (!a.value.includes("2.5") && b.value.includes("2.5")) return 1;
-      if (a.value.includes("2.0") && !b.value.includes("2.0")) return -1;
-      if (!a.value.includes("2.0") && b.value.includes("2.0")) return 1;
-      return a.label.localeCompare(b.label);
-    });
+/**
+ * Model list in one request. The server caches it per key; `probe` additionally checks
+ * every model with a non-generating call, so use it only on explicit user action.
+ */
+export async function fetchModels(
+  apiKey: string,
+  apiBase: string = '',
+  options: { refresh?: boolean; probe?: boolean } = {}
+): Promise<Model[]> {
+  try {
+    const resp = options.probe
+      ? await fetch(`${apiBase}/api/models/probe`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${apiKey}`,
+            ...accessHeaders()
+          },
+          body: JSON.stringify({})
+        })
+      : await fetch(`${apiBase}/api/models${options.refresh ? '?refresh=1' : ''}`, {
+          headers: { Authorization: `Bearer ${apiKey}`, ...accessHeaders() }
+        });
+    if (!resp.ok) return [];
 
-    return finalModels;
+    const data = await resp.json();
+    return fromCatalog(data.models || []);
   } catch (e) {
-    console.error('getViableModels error:', e);
+    console.error('fetchModels error:', e);
     return [];
   }
 }
@@ -0,0 +1,20 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { clearAllData, db } from './db';
+import { importPrompts, parsePromptTemplates } from './prompts';
+
+beforeEach(async () => {
+  await clearAllData();
+});
+
+describe('importPrompts', () => {
+  it('adds an id listed twice in one file once, then takes the newer copy', async () => {
+    const prompts = parsePromptTemplates([
+      { id: 'p1', name: 'Перевод', content: 'Переведи', updatedAt: '2025-01-01T00:00:00Z' },
+      { id: 'p1', name: 'Перевод', content: 'Переведи на английский', updatedAt: '2025-02-01T00:00:00Z' },
+      { id: 'p1', name: 'Перевод', content: 'Старая версия', updatedAt: '2024-12-01T00:00:00Z' }
+    ]);
+
+    expect(await importPrompts(prompts)).toEqual({ added: 1, updated: 1, skipped: 1 });
+    expect((await db.prompts.toArray()).map(p => p.content)).toEqual(['Переведи на английский']);
+  });
+});
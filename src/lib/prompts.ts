@@ -0,0 +1,164 @@
+/**
+ * Prompt library: named, tagged templates with {{variable}} placeholders that are filled in
+ * through a form before use, as a system prompt or as a message. Exported and imported as JSON.
+ */
+
+import { db, tombstonesFor, withoutSyncFields, type PromptTemplate } from './db';
+import { isObject, toDate } from './validate';
+
+export const PROMPT_LIBRARY_FORMAT = 'pollux-prompts';
+export const PROMPT_LIBRARY_VERSION = 1;
+
+export interface PromptLibrary {
+  format: typeof PROMPT_LIBRARY_FORMAT;
+  version: number;
+  exportedAt: string;
+  prompts: PromptTemplate[];
+}
+
+export interface PromptDraft {
+  id?: string; // editing an existing template
+  name: string;
+  content: string;
+  tags: string[];
+}
+
+export interface PromptImportSummary {
+  added: number;
+  updated: number; // same id, newer in the file
+  skipped: number;
+}
+
+// {{ name }}; anything but braces, surrounding spaces ignored
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// Distinct variable names in order of first appearance
+export function templateVariables(content: string): string[] {
+  return [...new Set(Array.from(content.matchAll(VARIABLE_PATTERN), match => match[1]))];
+}
+
+// Placeholders without a value are left as they are
+export function fillTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+// "Code, review,  sql" -> ["code", "review", "sql"]
+export function parseTags(input: string): string[] {
+  return [...new Set(input.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+export function matchesPrompt(prompt: PromptTemplate, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return prompt.name.toLowerCase().includes(q) ||
+    prompt.tags.some(tag => tag.includes(q.replace(/^#/, ''))) ||
+    prompt.content.toLowerCase().includes(q);
+}
+
+export async function getPrompts(): Promise<PromptTemplate[]> {
+  const prompts = await db.prompts.toArray();
+  return prompts.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Throws with a message for the user
+export async function savePrompt(draft: PromptDraft): Promise<PromptTemplate> {
+  const name = draft.name.trim();
+  if (!name) throw new Error('Укажите название шаблона');
+  if (!draft.content.trim()) throw new Error('Шаблон пустой');
+
+  const existing = draft.id ? await db.prompts.get(draft.id) : undefined;
+  const prompt: PromptTemplate = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name,
+    content: draft.content,
+    tags: draft.tags,
+    createdAt: existing?.createdAt ?? new Date(),
+    updatedAt: new Date()
+  };
+  if (existing) {
+    await db.prompts.update(prompt.id, { name, content: prompt.content, tags: prompt.tags, updatedAt: prompt.updatedAt });
+  } else {
+    await db.prompts.add(prompt);
+  }
+  return prompt;
+}
+
+export async function deletePrompt(id: string): Promise<void> {
+  await db.transaction('rw', [db.prompts, db.tombstones], async () => {
+    const prompt = await db.prompts.get(id);
+    if (prompt?.syncedAt !== undefined) await db.tombstones.bulkPut(tombstonesFor('prompt', [id]));
+    await db.prompts.delete(id);
+  });
+}
+
+export async function exportPromptLibrary(): Promise<PromptLibrary> {
+  return {
+    format: PROMPT_LIBRARY_FORMAT,
+    version: PROMPT_LIBRARY_VERSION,
+    exportedAt: new Date().toISOString(),
+    prompts: (await getPrompts()).map(withoutSyncFields)
+  };
+}
+
+// Templates from library files and backups
+export function parsePromptTemplates(raw: unknown[]): PromptTemplate[] {
+  return raw.map((prompt, i) => {
+    if (!isObject(prompt) || typeof prompt.name !== 'string' || !prompt.name.trim() || typeof prompt.content !== 'string') {
+      throw new Error(`Некорректный шаблон #${i + 1}`);
+    }
+    if (prompt.tags !== undefined && !(Array.isArray(prompt.tags) && prompt.tags.every((tag: unknown) => typeof tag === 'string'))) {
+      throw new Error(`Некорректные теги в шаблоне #${i + 1}`);
+    }
+    return {
+      id: typeof prompt.id === 'string' && prompt.id ? prompt.id : crypto.randomUUID(),
+      name: prompt.name.trim(),
+      content: prompt.content,
+      tags: parseTags((prompt.tags ?? []).join(',')),
+      createdAt: toDate(prompt.createdAt),
+      updatedAt: toDate(prompt.updatedAt)
+    };
+  });
+}
+
+export function parsePromptLibrary(raw: unknown): PromptTemplate[] {
+  if (!isObject(raw) || raw.format !== PROMPT_LIBRARY_FORMAT || !Array.isArray(raw.prompts)) {
+    throw new Error('Файл не является библиотекой промптов Pollux');
+  }
+  if (typeof raw.version !== 'number' || raw.version > PROMPT_LIBRARY_VERSION) {
+    throw new Error(`Библиотека создана более новой версией (v${raw.version}), поддерживается до v${PROMPT_LIBRARY_VERSION}`);
+  }
+  return parsePromptTemplates(raw.prompts);
+}
+
+// Merge: a template with a known id replaces the local one only when it is newer;
+// one with the same name and text as a local template is a duplicate
+export async function importPrompts(prompts: PromptTemplate[]): Promise<PromptImportSummary> {
+  return db.transaction('rw', db.prompts, async () => {
+    const local = await db.prompts.toArray();
+    const byId = new Map(local.map(p => [p.id, p]));
+    const contents = new Set(local.map(p => `${p.name}\n${p.content}`));
+    const summary: PromptImportSummary = { added: 0, updated: 0, skipped: 0 };
+
+    for (const prompt of prompts) {
+      const existing = byId.get(prompt.id);
+      if (existing) {
+        if (prompt.updatedAt > existing.updatedAt) {
+          const { name, content, tags, updatedAt } = prompt;
+          await db.prompts.update(prompt.id, { name, content, tags, updatedAt });
+          byId.set(prompt.id, prompt);
+          summary.updated++;
+        } else {
+          summary.skipped++;
+        }
+      } else if (contents.has(`${prompt.name}\n${prompt.content}`)) {
+        summary.skipped++;
+      } else {
+        await db.prompts.add(prompt);
+        byId.set(prompt.id, prompt); // a file may list the same id twice
+        contents.add(`${prompt.name}\n${prompt.content}`);
+        summary.added++;
+      }
+    }
+    return summary;
+  });
+}
@@ -0,0 +1,110 @@
+/**
+ * Gemini safety thresholds and the reasons a response can stop early.
+ * Other providers ignore safety settings but still report MAX_TOKENS.
+ */
+
+export type HarmCategory =
+  | 'HARM_CATEGORY_HARASSMENT'
+  | 'HARM_CATEGORY_HATE_SPEECH'
+  | 'HARM_CATEGORY_SEXUALLY_EXPLICIT'
+  | 'HARM_CATEGORY_DANGEROUS_CONTENT';
+
+export type SafetyThreshold =
+  | 'BLOCK_NONE'
+  | 'BLOCK_ONLY_HIGH'
+  | 'BLOCK_MEDIUM_AND_ABOVE'
+  | 'BLOCK_LOW_AND_ABOVE';
+
+// Unset categories use the model's default threshold
+export type SafetySettings = Partial<Record<HarmCategory, SafetyThreshold>>;
+
+export const HARM_CATEGORIES: { id: HarmCategory; label: string }[] = [
+  { id: 'HARM_CATEGORY_HARASSMENT', label: 'Оскорбления' },
+  { id: 'HARM_CATEGORY_HATE_SPEECH', label: 'Язык вражды' },
+  { id: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', label: 'Откровенный контент' },
+  { id: 'HARM_CATEGORY_DANGEROUS_CONTENT', label: 'Опасный контент' }
+];
+
+export const SAFETY_THRESHOLDS: { id: SafetyThreshold; label: string }[] = [
+  { id: 'BLOCK_NONE', label: 'Не блокировать' },
+  { id: 'BLOCK_ONLY_HIGH', label: 'Только высокий риск' },
+  { id: 'BLOCK_MEDIUM_AND_ABOVE', label: 'Средний и выше' },
+  { id: 'BLOCK_LOW_AND_ABOVE', label: 'Низкий и выше' }
+];
+
+export interface SafetyRating {
+  category: string;
+  probability: string; // NEGLIGIBLE | LOW | MEDIUM | HIGH
+  blocked?: boolean;
+}
+
+// Why generation stopped, as streamed by the server; STOP is not stored
+export interface FinishInfo {
+  reason: string; // STOP | MAX_TOKENS | SAFETY | RECITATION | PROMPT_BLOCKED | INTERRUPTED (connection lost) | ...
+  blockReason?: string; // set with PROMPT_BLOCKED
+  safetyRatings?: SafetyRating[];
+}
+
+const DEFAULTS_STORAGE = 'pollux-safety-defaults';
+
+export function loadSafetyDefaults(): SafetySettings {
+  try {
+    const raw = localStorage.getItem(DEFAULTS_STORAGE);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveSafetyDefaults(settings: SafetySettings): void {
+  if (Object.keys(settings).length === 0) {
+    localStorage.removeItem(DEFAULTS_STORAGE);
+  } else {
+    localStorage.setItem(DEFAULTS_STORAGE, JSON.stringify(settings));
+  }
+}
+
+export function resolveSafetySettings(defaults: SafetySettings, chatSettings: SafetySettings | undefined): SafetySettings {
+  return { ...defaults, ...chatSettings };
+}
+
+function categoryLabel(category: string): string {
+  return HARM_CATEGORIES.find(c => c.id === category)?.label ?? category.replace('HARM_CATEGORY_', '').toLowerCase();
+}
+
+// Categories that caused a block or were rated medium/high
+export function flaggedCategories(ratings: SafetyRating[] = []): string[] {
+  return ratings
+    .filter(r => r.blocked || r.probability === 'MEDIUM' || r.probability === 'HIGH')
+    .map(r => categoryLabel(r.category));
+}
+
+// Note for a stopped response; null when it finished normally
+export function describeFinish(finish: FinishInfo | undefined): { text: string; canContinue: boolean } | null {
+  if (!finish || finish.reason === 'STOP') return null;
+
+  const flagged = flaggedCategories(finish.safetyRatings);
+  const details = flagged.length ? `: ${flagged.join(', ')}` : '';
+
+  switch (finish.reason) {
+    case 'MAX_TOKENS':
+      return { text: 'Ответ обрезан: достигнут лимит токенов', canContinue: true };
+    case 'SAFETY':
+      return { text: `Ответ остановлен фильтром безопасности${details}`, canContinue: false };
+    case 'PROMPT_BLOCKED':
+      return {
+        text: `Запрос заблокирован${finish.blockReason && finish.blockReason !== 'SAFETY' ? ` (${finish.blockReason})` : ' фильтром безопасности'}${details}`,
+        canContinue: false
+      };
+    case 'INTERRUPTED':
+      return { text: 'Ответ прерван: соединение с сервером потеряно', canContinue: true };
+    case 'RECITATION':
+      return { text: 'Ответ остановлен: совпадение с защищёнными источниками', canContinue: false };
+    case 'BLOCKLIST':
+    case 'PROHIBITED_CONTENT':
+    case 'SPII':
+      return { text: 'Ответ заблокирован политикой содержимого', canContinue: false };
+    default:
+      return { text: `Генерация остановлена (${finish.reason})`, canContinue: false };
+  }
+}
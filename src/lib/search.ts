@@ -0,0 +1,112 @@
+import { db, type Chat, type SearchToken } from './db';
+import { normalizeText, tokenize } from './tokenize';
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  chatId: string;
+  chatTitle: string;
+  messageId?: string; // absent for matches in the chat title
+  role?: 'user' | 'model';
+  snippet: SnippetPart[];
+  score: number;
+  timestamp: Date;
+}
+
+const MAX_RESULTS = 50;
+const SNIPPET_RADIUS = 60;
+const TITLE_BOOST = 3;
+
+// Split text into highlighted / plain parts for every word starting with a query token
+export function highlightMatches(text: string, queryTokens: string[]): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  const wordRe = /[\p{L}\p{N}]+/gu;
+  let last = 0;
+  for (const match of text.matchAll(wordRe)) {
+    const word = normalizeText(match[0]);
+    if (!queryTokens.some(token => word.startsWith(token))) continue;
+    const start = match.index ?? 0;
+    if (start > last) parts.push({ text: text.slice(last, start), match: false });
+    parts.push({ text: match[0], match: true });
+    last = start + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+  return parts;
+}
+
+// Cut a window of text around the first match
+function buildSnippet(content: string, queryTokens: string[]): SnippetPart[] {
+  const flat = content.replace(/\s+/g, ' ').trim();
+  const parts = highlightMatches(flat, queryTokens);
+  const firstMatch = parts.findIndex(p => p.match);
+  if (firstMatch < 0) return [{ text: flat.slice(0, SNIPPET_RADIUS * 2), match: false }];
+
+  const offset = parts.slice(0, firstMatch).reduce((sum, p) => sum + p.text.length, 0);
+  const start = Math.max(0, offset - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, offset + SNIPPET_RADIUS * 2);
+  const window = (start > 0 ? '…' : '') + flat.slice(start, end) + (end < flat.length ? '…' : '');
+  return highlightMatches(window, queryTokens);
+}
+
+// Messages must contain every query token (prefix match); ranked by tf-idf with exact words weighted higher
+export async function searchAll(query: string): Promise<SearchResult[]> {
+  const queryTokens = Array.from(new Set(tokenize(query)));
+  if (queryTokens.length === 0) return [];
+
+  const totalMessages = Math.max(1, await db.messages.count());
+  const scores = new Map<string, number>();
+  const matchesPerToken: Set<string>[] = [];
+
+  for (const queryToken of queryTokens) {
+    const rows: SearchToken[] = await db.searchIndex.where('token').startsWith(queryToken).toArray();
+    const messageIds = new Set(rows.map(row => row.messageId));
+    const idf = Math.log(1 + totalMessages / Math.max(1, messageIds.size));
+
+    for (const row of rows) {
+      const weight = row.token === queryToken ? 2 : 1;
+      scores.set(row.messageId, (scores.get(row.messageId) || 0) + weight * Math.log(1 + row.count) * idf);
+    }
+
+    matchesPerToken.push(messageIds);
+  }
+
+  const [first, ...rest] = matchesPerToken;
+  const candidateIds = Array.from(first).filter(id => rest.every(ids => ids.has(id)));
+
+  const chats = await db.chats.toArray();
+  const chatsById = new Map<string, Chat>(chats.map(chat => [chat.id, chat]));
+
+  const messages = await db.messages.bulkGet(candidateIds);
+  const results: SearchResult[] = [];
+  for (const message of messages) {
+    const chat = message && chatsById.get(message.chatId);
+    if (!message || !chat) continue;
+    results.push({
+      chatId: chat.id,
+      chatTitle: chat.title,
+      messageId: message.id,
+      role: message.role,
+      snippet: buildSnippet(message.content, queryTokens),
+      score: scores.get(message.id) || 0,
+      timestamp: message.timestamp
+    });
+  }
+
+  for (const chat of chats) {
+    const titleTokens = tokenize(chat.title);
+    if (!queryTokens.every(token => titleTokens.some(word => word.startsWith(token)))) continue;
+    results.push({
+      chatId: chat.id,
+      chatTitle: chat.title,
+      snippet: highlightMatches(chat.title, queryTokens),
+      score: TITLE_BOOST * queryTokens.length,
+      timestamp: chat.updatedAt
+    });
+  }
+
+  results.sort((a, b) => b.score - a.score || new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  return results.slice(0, MAX_RESULTS);
+}
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { addMessage, clearAllData, createChat, db } from './db';
+import { putBlob, getBlob } from './blobs';
+import { savePrompt } from './prompts';
+import { enableSync, syncNow } from './sync';
+
+const PASSPHRASE = 'correct horse battery staple';
+
+interface StoredEnvelope {
+  id: string;
+  seq: number;
+  updatedAt: number;
+  data: string;
+}
+
+// The server's side of /api/sync in memory: one space per X-Sync-Token, last writer wins
+function createSyncServer() {
+  const spaces = new Map<string, { seq: number; records: Map<string, StoredEnvelope> }>();
+  const space = (token: string) => {
+    if (!spaces.has(token)) spaces.set(token, { seq: 0, records: new Map() });
+    return spaces.get(token)!;
+  };
+
+  const fetch = async (url: string, init: RequestInit = {}) => {
+    const current = space((init.headers as Record<string, string>)['X-Sync-Token']);
+    if (init.method === 'POST') {
+      const previousSeq = current.seq;
+      let applied = 0;
+      for (const change of JSON.parse(init.body as string).changes) {
+        const stored = current.records.get(change.id);
+        if (stored && stored.updatedAt >= change.updatedAt) continue;
+        current.records.set(change.id, { ...change, seq: ++current.seq });
+        applied++;
+      }
+      return Response.json({ applied, seq: current.seq, previousSeq });
+    }
+    const since = Number(new URL(url, 'http://localhost').searchParams.get('since'));
+    const changes = [...current.records.values()].filter(r => r.seq > since).sort((a, b) => a.seq - b.seq);
+    return Response.json({ changes, seq: changes.length ? changes[changes.length - 1].seq : current.seq, more: false });
+  };
+  return { spaces, fetch };
+}
+
+let server: ReturnType<typeof createSyncServer>;
+
+// Another device: same passphrase (and account), nothing local yet
+async function switchDevice(passphrase = PASSPHRASE, scope = '') {
+  await clearAllData();
+  await enableSync(passphrase, scope);
+}
+
+beforeEach(async () => {
+  await clearAllData();
+  server = createSyncServer();
+  vi.stubGlobal('fetch', vi.fn(server.fetch));
+  vi.stubGlobal('navigator', {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('sync', () => {
+  it('carries chats, messages, attachments and prompts to another device without showing them to the server', async () => {
+    await enableSync(PASSPHRASE);
+    const chat = await createChat();
+    const report = new Blob(['Выручка выросла'], { type: 'text/plain' });
+    const hash = await putBlob(report);
+    await addMessage({
+      chatId: chat.id,
+      role: 'user',
+      content: 'Секретный вопрос',
+      attachments: [{ name: 'report.txt', mimeType: 'text/plain', size: report.size, hash }]
+    });
+    await addMessage({ chatId: chat.id, role: 'model', content: 'Секретный ответ' });
+    await savePrompt({ name: 'Перевод', content: 'Переведи на английский', tags: [] });
+
+    expect(await syncNow('', 'key')).toEqual({ pulled: 0, pushed: 5 });
+    const [stored] = server.spaces.values();
+    for (const envelope of stored.records.values()) {
+      expect(envelope.id).toMatch(/^[0-9a-f]{64}$/);
+      expect(atob(envelope.data)).not.toMatch(/Секретный|Перевод|report|[0-9a-f]{8}-[0-9a-f]{4}-/);
+    }
+
+    const before = await db.messages.orderBy('timestamp').toArray();
+    await switchDevice();
+    expect(await syncNow('', 'key')).toEqual({ pulled: 5, pushed: 0 });
+    expect((await db.messages.orderBy('timestamp').toArray()).map(m => [m.id, m.parentId, m.content, m.attachments]))
+      .toEqual(before.map(m => [m.id, m.parentId, m.content, m.attachments]));
+    expect((await db.chats.get(chat.id))?.currentLeafId).toBe(before[1].id);
+    expect(await (await getBlob(hash))!.text()).toBe('Выручка выросла');
+    expect((await db.prompts.toArray()).map(p => p.content)).toEqual(['Переведи на английский']);
+  });
+
+  it('keeps other passphrases and accounts in spaces of their own', async () => {
+    await enableSync(PASSPHRASE);
+    await createChat();
+    await syncNow('', 'key');
+
+    await switchDevice('another long passphrase');
+    expect(await syncNow('', 'key')).toEqual({ pulled: 0, pushed: 0 });
+    await switchDevice(PASSPHRASE, 'user-2');
+    expect(await syncNow('', 'key')).toEqual({ pulled: 0, pushed: 0 });
+    expect(server.spaces.size).toBe(3);
+  }, 20000);
+
+  it('refuses a record the server moved to another id', async () => {
+    await enableSync(PASSPHRASE);
+    await createChat();
+    await createChat();
+    await syncNow('', 'key');
+
+    const [stored] = server.spaces.values();
+    const [first, second] = stored.records.values();
+    [first.data, second.data] = [second.data, first.data];
+    await switchDevice();
+    await expect(syncNow('', 'key')).rejects.toThrow('Не удалось расшифровать');
+  });
+});
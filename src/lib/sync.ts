@@ -0,0 +1,451 @@
+/**
+ * Optional end-to-end encrypted sync of chats, folders, messages, attachments, prompts and assistants through the Pollux server.
+ * The sync passphrase derives (PBKDF2) the AES-GCM key records are encrypted with, an HMAC key that
+ * makes record ids opaque and the token that addresses the sync space, so the server only sees ids,
+ * sizes and timestamps. Devices with the same passphrase (and account, in hosted mode) share a space.
+ * A sync pulls what other devices pushed since the last cursor, then pushes what changed here
+ * (modifiedAt, stamped by db.ts). Conflicts go to the newer modifiedAt: last writer wins.
+ */
+
+import type { Table } from 'dexie';
+import {
+  db, buildSearchTokens, deleteUnreferencedBlobs, isBlobReferenced, withoutSyncFields,
+  type Assistant, type Chat, type ChatMessage, type Folder, type PromptTemplate, type SyncKind, type SyncState
+} from './db';
+import { prepareBlob, blobToDataUrl, dataUrlToBlob } from './blobs';
+import { accessHeaders } from './access';
+
+const SALT = 'pollux-sync-v1';
+const ITERATIONS = 600000;
+const PUSH_BATCH_BYTES = 4 * 1024 * 1024;
+const PUSH_BATCH_SIZE = 500;
+const LOCK_NAME = 'pollux-sync';
+
+// Anyone who guesses the passphrase can read the server copy, so it has to be long
+export const SYNC_MIN_PASSPHRASE_LENGTH = 12;
+
+// What gets encrypted: a chat, folder, message, prompt or assistant, an attachment's bytes, or the deletion of one
+interface SyncRecord {
+  kind: SyncKind;
+  key: string; // record id, blob hash
+  deleted?: boolean;
+  value?: unknown; // the record without sync fields; a data URL for blobs
+}
+
+// As stored on the server
+interface Envelope {
+  id: string; // HMAC of "<kind>:<key>", hex
+  updatedAt: number;
+  data: string; // base64 of IV + AES-GCM ciphertext
+}
+
+interface Outgoing {
+  envelope: Envelope;
+  markSynced: () => Promise<unknown>; // once the server has it
+}
+
+export interface SyncResult {
+  pulled: number;
+  pushed: number;
+}
+
+const encoder = new TextEncoder();
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// In chunks: spreading a large array into String.fromCharCode overflows the stack
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+// Scope is the hosted account id, so accounts that happen to share a passphrase get different keys
+async function deriveSecrets(passphrase: string, scope: string) {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: encoder.encode(`${SALT}:${scope}`), iterations: ITERATIONS, hash: 'SHA-256' },
+    material,
+    768
+  ));
+  return {
+    encryptionKey: await crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']),
+    idKey: await crypto.subtle.importKey('raw', bits.slice(32, 64), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']),
+    token: toHex(bits.slice(64))
+  };
+}
+
+// The id is authenticated along with the content, so the server can't pass one record off as another
+async function seal(state: SyncState, record: SyncRecord, updatedAt: number): Promise<Envelope> {
+  const id = toHex(new Uint8Array(await crypto.subtle.sign('HMAC', state.idKey, encoder.encode(`${record.kind}:${record.key}`))));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(id) },
+    state.encryptionKey,
+    encoder.encode(JSON.stringify(record))
+  );
+  const data = new Uint8Array(iv.length + ciphertext.byteLength);
+  data.set(iv);
+  data.set(new Uint8Array(ciphertext), iv.length);
+  return { id, updatedAt, data: toBase64(data) };
+}
+
+async function unseal(state: SyncState, { id, data }: Envelope): Promise<SyncRecord> {
+  const bytes = fromBase64(data);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes.subarray(0, 12), additionalData: encoder.encode(id) },
+      state.encryptionKey,
+      bytes.subarray(12)
+    );
+  } catch {
+    throw new Error('Не удалось расшифровать данные синхронизации');
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+function reviveChat(value: Record<string, any>): Chat {
+  return { ...value, createdAt: new Date(value.createdAt), updatedAt: new Date(value.updatedAt) } as Chat;
+}
+
+function reviveMessage(value: Record<string, any>): ChatMessage {
+  return { ...value, timestamp: new Date(value.timestamp) } as ChatMessage;
+}
+
+// Prompts, assistants and folders: nothing breaks when what they refer to is missing
+function reviveStandalone<T extends PromptTemplate | Assistant | Folder>(value: Record<string, any>): T {
+  return { ...value, createdAt: new Date(value.createdAt), updatedAt: new Date(value.updatedAt) } as T;
+}
+
+async function syncRequest<T>(apiBase: string, authToken: string, state: SyncState, init: RequestInit & { query?: string } = {}): Promise<T> {
+  const res = await fetch(`${apiBase}/api/sync${init.query ?? ''}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${authToken}`,
+      'X-Sync-Token': state.token,
+      ...accessHeaders(),
+      'Content-Type': 'application/json'
+    }
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+  return data as T;
+}
+
+// False when the server has sync turned off or is unreachable
+export async function isSyncAvailable(apiBase: string): Promise<boolean> {
+  try {
+    const res = await fetch(`${apiBase}/api/config`);
+    if (!res.ok) return false;
+    const data = await res.json();
+    return data.sync === true;
+  } catch {
+    return false;
+  }
+}
+
+export async function getSyncState(): Promise<SyncState | undefined> {
+  return db.sync.get('state');
+}
+
+// Nothing here counts as synced any more: deletions stop leaving tombstones,
+// and a new space gets everything pushed again
+async function forgetSyncProgress(): Promise<void> {
+  await db.transaction('rw', [db.chats, db.messages, db.prompts, db.assistants, db.folders, db.blobs, db.tombstones, db.sync], async () => {
+    await db.chats.toCollection().modify({ syncedAt: undefined });
+    await db.messages.toCollection().modify({ syncedAt: undefined });
+    await db.prompts.toCollection().modify({ syncedAt: undefined });
+    await db.assistants.toCollection().modify({ syncedAt: undefined });
+    await db.folders.toCollection().modify({ syncedAt: undefined });
+    await db.blobs.toCollection().modify({ syncedAt: undefined });
+    await db.tombstones.clear();
+    await db.sync.clear();
+  });
+}
+
+// Throws with a message for the user. Keys are stored non-extractable, so the passphrase isn't needed again
+export async function enableSync(passphrase: string, scope = ''): Promise<void> {
+  if (passphrase.length < SYNC_MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Пароль синхронизации должен быть не короче ${SYNC_MIN_PASSPHRASE_LENGTH} символов`);
+  }
+  const secrets = await deriveSecrets(passphrase, scope);
+  await forgetSyncProgress();
+  await db.sync.put({ id: 'state', ...secrets, cursor: 0, pushedFrom: 0 });
+}
+
+// Local data stays, and so does the server copy for other devices
+export async function disableSync(): Promise<void> {
+  await forgetSyncProgress();
+}
+
+// Applies a record another device pushed, unless this device has a newer version of it
+async function applyRemote(record: SyncRecord, updatedAt: number): Promise<boolean> {
+  const tombstone = await db.tombstones.get(`${record.kind}:${record.key}`);
+  if (tombstone && tombstone.deletedAt >= updatedAt) return false;
+
+  switch (record.kind) {
+    case 'chat':
+      return applyChat(record, updatedAt);
+    case 'message':
+      return applyMessage(record, updatedAt);
+    case 'blob':
+      return applyBlob(record, updatedAt);
+    case 'prompt':
+      return applyStandalone(db.prompts, record, updatedAt);
+    case 'assistant':
+      return applyStandalone(db.assistants, record, updatedAt);
+    case 'folder':
+      return applyStandalone(db.folders, record, updatedAt);
+  }
+}
+
+async function applyChat({ key, deleted, value }: SyncRecord, updatedAt: number): Promise<boolean> {
+  const local = await db.chats.get(key);
+  if (local && (local.modifiedAt ?? 0) >= updatedAt) return false;
+
+  if (deleted) {
+    if (!local) return false;
+    const messages = await db.messages.where('chatId').equals(key).toArray();
+    await db.transaction('rw', [db.chats, db.messages, db.searchIndex], async () => {
+      await db.searchIndex.where('chatId').equals(key).delete();
+      await db.messages.where('chatId').equals(key).delete();
+      await db.chats.delete(key);
+    });
+    await deleteUnreferencedBlobs(messages.flatMap(m => m.attachments?.map(a => a.hash) ?? []));
+    return true;
+  }
+
+  await db.transaction('rw', [db.chats, db.tombstones], async () => {
+    await db.tombstones.delete(`chat:${key}`);
+    await db.chats.put({ ...reviveChat(value as Record<string, any>), modifiedAt: updatedAt, syncedAt: updatedAt });
+  });
+  return true;
+}
+
+async function applyMessage({ key, deleted, value }: SyncRecord, updatedAt: number): Promise<boolean> {
+  const local = await db.messages.get(key);
+  if (local && (local.modifiedAt ?? 0) >= updatedAt) return false;
+
+  if (deleted) {
+    if (!local) return false;
+    await db.transaction('rw', [db.messages, db.searchIndex], async () => {
+      await db.messages.delete(key);
+      await db.searchIndex.where('messageId').equals(key).delete();
+    });
+    await deleteUnreferencedBlobs(local.attachments?.map(a => a.hash) ?? []);
+    return true;
+  }
+
+  // A message may arrive before its chat; only a chat deleted here turns it away
+  const message = reviveMessage(value as Record<string, any>);
+  if (await db.tombstones.get(`chat:${message.chatId}`)) return false;
+  await db.transaction('rw', [db.messages, db.searchIndex, db.tombstones], async () => {
+    await db.tombstones.delete(`message:${key}`);
+    await db.messages.put({ ...message, modifiedAt: updatedAt, syncedAt: updatedAt });
+    await db.searchIndex.where('messageId').equals(key).delete();
+    await db.searchIndex.bulkPut(buildSearchTokens(message));
+  });
+  return true;
+}
+
+async function applyBlob({ key, deleted, value }: SyncRecord, updatedAt: number): Promise<boolean> {
+  const local = await db.blobs.get(key);
+
+  if (deleted) {
+    if (!local) return false;
+    // Still attached to a message or the draft here; the deletion isn't pushed back
+    if (await isBlobReferenced(key)) return false;
+    await db.blobs.delete(key);
+    return true;
+  }
+
+  if (local) {
+    if (local.syncedAt === undefined) await db.blobs.update(key, { syncedAt: updatedAt });
+    return false;
+  }
+  const stored = await prepareBlob(dataUrlToBlob(value as string));
+  if (stored.hash !== key) throw new Error('Файл из синхронизации повреждён: контрольная сумма не совпадает');
+  await db.transaction('rw', [db.blobs, db.tombstones], async () => {
+    await db.tombstones.delete(`blob:${key}`);
+    await db.blobs.put({ ...stored, syncedAt: updatedAt });
+  });
+  return true;
+}
+
+async function applyStandalone<T extends PromptTemplate | Assistant | Folder>(
+  table: Table<T>,
+  { kind, key, deleted, value }: SyncRecord,
+  updatedAt: number
+): Promise<boolean> {
+  const local = await table.get(key);
+  if (local && (local.modifiedAt ?? 0) >= updatedAt) return false;
+
+  if (deleted) {
+    if (!local) return false;
+    await table.delete(key);
+    return true;
+  }
+
+  await db.transaction('rw', [table, db.tombstones], async () => {
+    await db.tombstones.delete(`${kind}:${key}`);
+    await table.put({ ...reviveStandalone<T>(value as Record<string, any>), modifiedAt: updatedAt, syncedAt: updatedAt });
+  });
+  return true;
+}
+
+async function pull(apiBase: string, authToken: string, state: SyncState): Promise<number> {
+  let pulled = 0;
+  for (;;) {
+    const page = await syncRequest<{ changes: Envelope[]; seq: number; more: boolean }>(
+      apiBase, authToken, state, { query: `?since=${state.cursor}` }
+    );
+    for (const envelope of page.changes) {
+      if (await applyRemote(await unseal(state, envelope), envelope.updatedAt)) pulled++;
+    }
+    state.cursor = page.seq;
+    await db.sync.update('state', { cursor: page.seq });
+    if (!page.more) return pulled;
+  }
+}
+
+// Marks what was pushed, unless it changed again meanwhile
+function markSynced<T extends { modifiedAt?: number; syncedAt?: number }>(table: Table<T>, key: string, modifiedAt: number) {
+  return table.where(':id').equals(key).modify(record => {
+    if (record.modifiedAt === modifiedAt) record.syncedAt = modifiedAt;
+  });
+}
+
+// Local changes, one at a time so attachments are read only when their batch is sent.
+// Chats and attachments go before the messages that refer to them, deletions last
+async function* localChanges(state: SyncState): AsyncGenerator<Outgoing> {
+  const unsynced = (record: { modifiedAt?: number; syncedAt?: number }) => record.syncedAt !== record.modifiedAt;
+  const chats = await db.chats.where('modifiedAt').aboveOrEqual(state.pushedFrom).filter(unsynced).toArray();
+  const messages = await db.messages.where('modifiedAt').aboveOrEqual(state.pushedFrom).filter(unsynced).toArray();
+  const prompts = await db.prompts.where('modifiedAt').aboveOrEqual(state.pushedFrom).filter(unsynced).toArray();
+  const assistants = await db.assistants.where('modifiedAt').aboveOrEqual(state.pushedFrom).filter(unsynced).toArray();
+  const folders = await db.folders.where('modifiedAt').aboveOrEqual(state.pushedFrom).filter(unsynced).toArray();
+
+  for (const chat of chats) {
+    const modifiedAt = chat.modifiedAt!;
+    yield {
+      envelope: await seal(state, { kind: 'chat', key: chat.id, value: withoutSyncFields(chat) }, modifiedAt),
+      markSynced: () => markSynced(db.chats, chat.id, modifiedAt)
+    };
+  }
+
+  const hashes = [...new Set(messages.flatMap(m => m.attachments?.map(a => a.hash) ?? []))];
+  for (const hash of hashes) {
+    const stored = await db.blobs.get(hash);
+    if (!stored || stored.syncedAt !== undefined) continue;
+    const createdAt = new Date(stored.createdAt).getTime();
+    yield {
+      envelope: await seal(state, { kind: 'blob', key: hash, value: await blobToDataUrl(stored.blob) }, createdAt),
+      markSynced: () => db.blobs.update(hash, { syncedAt: createdAt })
+    };
+  }
+
+  for (const message of messages) {
+    const modifiedAt = message.modifiedAt!;
+    yield {
+      envelope: await seal(state, { kind: 'message', key: message.id, value: withoutSyncFields(message) }, modifiedAt),
+      markSynced: () => markSynced(db.messages, message.id, modifiedAt)
+    };
+  }
+
+  for (const prompt of prompts) {
+    const modifiedAt = prompt.modifiedAt!;
+    yield {
+      envelope: await seal(state, { kind: 'prompt', key: prompt.id, value: withoutSyncFields(prompt) }, modifiedAt),
+      markSynced: () => markSynced(db.prompts, prompt.id, modifiedAt)
+    };
+  }
+
+  for (const assistant of assistants) {
+    const modifiedAt = assistant.modifiedAt!;
+    yield {
+      envelope: await seal(state, { kind: 'assistant', key: assistant.id, value: withoutSyncFields(assistant) }, modifiedAt),
+      markSynced: () => markSynced(db.assistants, assistant.id, modifiedAt)
+    };
+  }
+
+  for (const folder of folders) {
+    const modifiedAt = folder.modifiedAt!;
+    yield {
+      envelope: await seal(state, { kind: 'folder', key: folder.id, value: withoutSyncFields(folder) }, modifiedAt),
+      markSynced: () => markSynced(db.folders, folder.id, modifiedAt)
+    };
+  }
+
+  for (const tombstone of await db.tombstones.toArray()) {
+    const separator = tombstone.id.indexOf(':');
+    const record: SyncRecord = {
+      kind: tombstone.id.slice(0, separator) as SyncKind,
+      key: tombstone.id.slice(separator + 1),
+      deleted: true
+    };
+    yield {
+      envelope: await seal(state, record, tombstone.deletedAt),
+      markSynced: () => db.tombstones.where('id').equals(tombstone.id).filter(t => t.deletedAt === tombstone.deletedAt).delete()
+    };
+  }
+}
+
+async function push(apiBase: string, authToken: string, state: SyncState): Promise<number> {
+  const startedAt = Date.now();
+  let batch: Outgoing[] = [];
+  let bytes = 0;
+  let pushed = 0;
+
+  const send = async () => {
+    const result = await syncRequest<{ seq: number; previousSeq: number }>(apiBase, authToken, state, {
+      method: 'POST',
+      body: JSON.stringify({ changes: batch.map(item => item.envelope) })
+    });
+    for (const item of batch) await item.markSynced();
+    // Nobody else pushed in between: no need to pull these back
+    if (result.previousSeq === state.cursor) {
+      state.cursor = result.seq;
+      await db.sync.update('state', { cursor: result.seq });
+    }
+    pushed += batch.length;
+    batch = [];
+    bytes = 0;
+  };
+
+  for await (const item of localChanges(state)) {
+    batch.push(item);
+    bytes += item.envelope.data.length;
+    if (bytes >= PUSH_BATCH_BYTES || batch.length >= PUSH_BATCH_SIZE) await send();
+  }
+  if (batch.length) await send();
+
+  // Anything changed from now on is stamped later than this
+  state.pushedFrom = startedAt;
+  await db.sync.update('state', { pushedFrom: startedAt });
+  return pushed;
+}
+
+async function runSync(apiBase: string, authToken: string): Promise<SyncResult | null> {
+  const state = await getSyncState();
+  if (!state) return null;
+  const pulled = await pull(apiBase, authToken, state);
+  const pushed = await push(apiBase, authToken, state);
+  await db.sync.update('state', { lastSyncAt: new Date() });
+  return { pulled, pushed };
+}
+
+// Null when sync is off or another tab is syncing right now. Throws on network and server errors;
+// what was applied or pushed before stays done
+export async function syncNow(apiBase: string, authToken: string): Promise<SyncResult | null> {
+  if (!('locks' in navigator)) return runSync(apiBase, authToken);
+  return navigator.locks.request(LOCK_NAME, { ifAvailable: true }, lock => (lock ? runSync(apiBase, authToken) : null));
+}
@@ -0,0 +1,57 @@
+/**
+ * Chat titles written by a model after the first exchange, in the background. The first message cut
+ * to 50 characters stays the title until then, and whenever generation is off or fails.
+ */
+
+import { db, getChatMessages } from './db';
+import { accessHeaders } from './access';
+
+const TITLE_MODEL_KEY = 'pollux-title-model';
+
+// 'off', 'chat' for the model that answered, or a model value
+export function loadTitleModel(): string {
+  return localStorage.getItem(TITLE_MODEL_KEY) || 'off';
+}
+
+export function saveTitleModel(setting: string): void {
+  if (setting === 'off') {
+    localStorage.removeItem(TITLE_MODEL_KEY);
+  } else {
+    localStorage.setItem(TITLE_MODEL_KEY, setting);
+  }
+}
+
+// Only for a chat whose active branch is exactly its first exchange and whose title is still the cut-off
+// first message. A rename while the request runs wins. The server may use its own TITLE_MODEL instead
+export async function generateChatTitle(chatId: string, options: {
+  apiKey: string;
+  apiBase: string;
+  model: string;
+  provider?: string;
+}): Promise<void> {
+  const chat = await db.chats.get(chatId);
+  if (!chat || chat.titleSource) return;
+  const messages = await getChatMessages(chatId);
+  if (messages.length !== 2 || messages[1].role !== 'model' || !messages[1].content) return;
+
+  const res = await fetch(`${options.apiBase}/api/title`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${options.apiKey}`,
+      ...accessHeaders()
+    },
+    body: JSON.stringify({
+      model: options.model,
+      provider: options.provider,
+      messages: messages.map(m => ({ role: m.role, content: m.content }))
+    })
+  });
+  if (!res.ok) throw new Error(await res.text());
+  const { title } = await res.json();
+
+  await db.transaction('rw', db.chats, async () => {
+    const current = await db.chats.get(chatId);
+    if (current && !current.titleSource) await db.chats.update(chatId, { title, titleSource: 'generated' });
+  });
+}
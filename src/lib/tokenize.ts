@@ -0,0 +1,25 @@
+/**
+ * Text normalization shared by the search index (db.ts) and queries (search.ts)
+ */
+
+const WORD_RE = /[\p{L}\p{N}]+/gu;
+const MIN_TOKEN_LENGTH = 2;
+
+// Lowercase and fold "ё" so that "Ёлка" matches "елка"
+export function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/ё/g, 'е');
+}
+
+export function tokenize(text: string): string[] {
+  const matches = normalizeText(text).match(WORD_RE) || [];
+  return matches.filter(token => token.length >= MIN_TOKEN_LENGTH);
+}
+
+// Token -> number of occurrences
+export function tokenFrequencies(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokenize(text)) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  return counts;
+}
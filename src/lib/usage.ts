@@ -0,0 +1,112 @@
+import type { ChatMessage } from './db';
+
+/**
+ * Token accounting from the usage the providers report at the end of each reply.
+ * Prices are entered by the user; nothing is known about a model until then.
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  candidatesTokens: number;
+  thinkingTokens: number;
+}
+
+// USD per million tokens; thinking is billed as output
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type Pricing = Record<string, ModelPrice>;
+
+export interface UsageTotals extends TokenUsage {
+  replies: number;
+  cost: number | null; // USD for replies of priced models; null when none are priced
+}
+
+export interface UsageReport {
+  total: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  byDay: Record<string, UsageTotals>; // local date, YYYY-MM-DD
+  byChat: Record<string, UsageTotals>;
+}
+
+const PRICING_STORAGE = 'pollux-pricing';
+
+export function loadPricing(): Pricing {
+  try {
+    const raw = localStorage.getItem(PRICING_STORAGE);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function savePricing(pricing: Pricing): void {
+  if (Object.keys(pricing).length === 0) {
+    localStorage.removeItem(PRICING_STORAGE);
+  } else {
+    localStorage.setItem(PRICING_STORAGE, JSON.stringify(pricing));
+  }
+}
+
+export function emptyTotals(): UsageTotals {
+  return { replies: 0, promptTokens: 0, candidatesTokens: 0, thinkingTokens: 0, cost: null };
+}
+
+export function totalTokens(usage: TokenUsage): number {
+  return usage.promptTokens + usage.candidatesTokens + usage.thinkingTokens;
+}
+
+// Both parts of a continued reply count towards the same message
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: (a?.promptTokens ?? 0) + b.promptTokens,
+    candidatesTokens: (a?.candidatesTokens ?? 0) + b.candidatesTokens,
+    thinkingTokens: (a?.thinkingTokens ?? 0) + b.thinkingTokens
+  };
+}
+
+// Null when the model has no price set
+export function usageCost(usage: TokenUsage, price: ModelPrice | undefined): number | null {
+  if (!price) return null;
+  return (usage.promptTokens * price.input + (usage.candidatesTokens + usage.thinkingTokens) * price.output) / 1_000_000;
+}
+
+function accumulate(target: UsageTotals, usage: TokenUsage, cost: number | null) {
+  target.replies += 1;
+  target.promptTokens += usage.promptTokens;
+  target.candidatesTokens += usage.candidatesTokens;
+  target.thinkingTokens += usage.thinkingTokens;
+  if (cost !== null) target.cost = (target.cost ?? 0) + cost;
+}
+
+export function dayKey(date: Date): string {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// Messages without usage (older replies, user turns) are skipped
+export function buildUsageReport(messages: ChatMessage[], pricing: Pricing = {}): UsageReport {
+  const report: UsageReport = { total: emptyTotals(), byModel: {}, byDay: {}, byChat: {} };
+  for (const message of messages) {
+    if (!message.usage) continue;
+    const model = message.model ?? 'unknown';
+    const cost = usageCost(message.usage, pricing[model]);
+    accumulate(report.total, message.usage, cost);
+    accumulate((report.byModel[model] ??= emptyTotals()), message.usage, cost);
+    accumulate((report.byDay[dayKey(message.timestamp)] ??= emptyTotals()), message.usage, cost);
+    accumulate((report.byChat[message.chatId] ??= emptyTotals()), message.usage, cost);
+  }
+  return report;
+}
+
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 10_000) return `${Math.round(count / 1000)}K`;
+  return count.toLocaleString();
+}
+
+export function formatCost(cost: number | null): string {
+  if (cost === null) return '—';
+  return cost < 0.01 && cost > 0 ? `<$0.01` : `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,15 @@
+/**
+ * Checks shared by the parsers of untrusted input: backups, prompt and assistant libraries, other apps' exports.
+ * Those parsers validate a whole file before anything is written, and throw with a message for the user.
+ */
+
+export function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ISO strings or epoch milliseconds; anything else becomes the fallback
+export function toDate(value: unknown, fallback = new Date()): Date {
+  if (typeof value !== 'string' && typeof value !== 'number') return fallback;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? fallback : date;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+interface ReadEntry {
+  name: string;
+  crc: number;
+  data: Uint8Array;
+}
+
+// Reads the archive the way unzip does: end record, then central directory, then each local header
+function readZip(bytes: Uint8Array): ReadEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let pointer = view.getUint32(end + 16, true);
+  expect(pointer + view.getUint32(end + 12, true)).toBe(end);
+
+  const decoder = new TextDecoder();
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(pointer, true)).toBe(0x02014b50);
+    expect(view.getUint16(pointer + 8, true) & 0x0800).toBe(0x0800);
+    const crc = view.getUint32(pointer + 16, true);
+    const size = view.getUint32(pointer + 20, true);
+    const nameLength = view.getUint16(pointer + 28, true);
+    const name = decoder.decode(bytes.subarray(pointer + 46, pointer + 46 + nameLength));
+    const local = view.getUint32(pointer + 42, true);
+
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    expect(view.getUint32(local + 14, true)).toBe(crc);
+    expect(view.getUint16(local + 26, true)).toBe(nameLength);
+    const start = local + 30 + nameLength + view.getUint16(local + 28, true);
+    entries.push({ name, crc, data: bytes.subarray(start, start + size) });
+    pointer += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('createZip', () => {
+  it('writes stored entries that read back with their names, bytes and checksums', async () => {
+    const image = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+    const zip = await createZip([
+      { name: 'hello.txt', data: 'hello' },
+      { name: 'Чаты/заметки.md', data: '# Привет' },
+      { name: 'files/pixel.png', data: new Blob([image], { type: 'image/png' }) }
+    ]);
+    expect(zip.type).toBe('application/zip');
+
+    const entries = readZip(new Uint8Array(await zip.arrayBuffer()));
+    expect(entries.map(e => e.name)).toEqual(['hello.txt', 'Чаты/заметки.md', 'files/pixel.png']);
+    expect(entries[0].crc).toBe(0x3610a686); // CRC-32 of "hello"
+    expect(new TextDecoder().decode(entries[1].data)).toBe('# Привет');
+    expect([...entries[2].data]).toEqual([...image]);
+  });
+
+  it('writes a valid empty archive', async () => {
+    const bytes = new Uint8Array(await (await createZip([])).arrayBuffer());
+    expect(bytes.length).toBe(22);
+    expect(readZip(bytes)).toEqual([]);
+  });
+});
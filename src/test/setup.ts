@@ -0,0 +1,63 @@
+// Tests run in Node, which has Blob, File and WebCrypto but no IndexedDB, FileReader or localStorage
+import 'fake-indexeddb/auto';
+import { beforeEach } from 'vitest';
+
+// Only what blobs.ts uses: readAsDataURL with onload / onerror
+class FileReaderShim {
+  result: string | null = null;
+  error: unknown = null;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  readAsDataURL(blob: Blob) {
+    blob.arrayBuffer().then(buffer => {
+      let binary = '';
+      const bytes = new Uint8Array(buffer);
+      for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+      }
+      this.result = `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+      this.onload?.();
+    }, error => {
+      this.error = error;
+      this.onerror?.();
+    });
+  }
+}
+
+globalThis.FileReader ??= FileReaderShim as unknown as typeof FileReader;
+
+// In memory, emptied before each test
+class StorageShim {
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  clear() {
+    this.items.clear();
+  }
+}
+
+globalThis.localStorage ??= new StorageShim() as Storage;
+
+beforeEach(() => {
+  localStorage.clear();
+});
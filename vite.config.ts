@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/vite';
@@ -11,5 +12,8 @@ export default defineConfig({
         changeOrigin: true
       }
     }
+  },
+  test: {
+    setupFiles: ['./src/test/setup.ts']
   }
 });